@@ -114,4 +114,7 @@ export const api = {
   delete: <T>(endpoint: string) => request<T>(endpoint, { method: 'DELETE' }),
 }
 
-export { ApiError }
+// fetch rejects with a TypeError when the request never reached the server
+const isNetworkError = (err: unknown) => err instanceof TypeError
+
+export { ApiError, isNetworkError }
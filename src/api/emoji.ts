@@ -0,0 +1,51 @@
+import { api, API_BASE_URL } from './client'
+
+export interface CustomEmoji {
+  id: string
+  // Letters, digits and underscores - written as `:name:` in the composer
+  name: string
+  // Served from the CDN like sticker files
+  file_url: string
+  creator_id: string
+  // Group the emoji belongs to, null for a user's personal emoji
+  conversation_id: string | null
+  created_at: string
+}
+
+export const emojiApi = {
+  // Emoji the user can use: their own plus those of their groups
+  getEmojis: () => api.get<CustomEmoji[]>('/emojis'),
+
+  // Look up emoji by id - messages can carry emoji from anyone
+  lookupEmojis: (ids: string[]) =>
+    api.get<CustomEmoji[]>(`/emojis/lookup?ids=${ids.map(encodeURIComponent).join(',')}`),
+
+  // Upload a personal emoji, or a group emoji when conversationId is given
+  uploadEmoji: async (file: File, name: string, conversationId?: string): Promise<CustomEmoji> => {
+    const token = localStorage.getItem('access_token')
+    const formData = new FormData()
+    formData.append('image', file)
+    formData.append('name', name)
+    if (conversationId) formData.append('conversation_id', conversationId)
+
+    const response = await fetch(`${API_BASE_URL}/emojis`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${token}`,
+      },
+      body: formData,
+    })
+
+    if (!response.ok) {
+      throw new Error('Failed to upload emoji')
+    }
+
+    return response.json()
+  },
+
+  // Rename an emoji (creator or group owner)
+  renameEmoji: (emojiId: string, name: string) => api.patch<CustomEmoji>(`/emojis/${emojiId}`, { name }),
+
+  // Delete an emoji (creator or group owner)
+  deleteEmoji: (emojiId: string) => api.delete(`/emojis/${emojiId}`),
+}
@@ -45,6 +45,9 @@ export const friendsApi = {
   blockUser: (userId: string) => api.post('/blocks', { user_id: userId }),
   unblockUser: (userId: string) => api.delete(`/blocks/${userId}`),
 
+  // Users by id - for people we only know from a reaction or a mention
+  getUsers: (ids: string[]) => api.get<User[]>(`/users?ids=${ids.map(encodeURIComponent).join(',')}`),
+
   // Search (we'll add this endpoint later, for now search by username)
   searchUsers: (query: string) => api.get<User[]>(`/users/search?q=${encodeURIComponent(query)}`),
 }
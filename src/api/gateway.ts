@@ -0,0 +1,349 @@
+import { Centrifuge } from 'centrifuge'
+import { api, API_BASE_URL } from './client'
+import type { User } from './auth'
+import type { Friend, FriendRequest } from './friends'
+import type {
+  Message,
+  Reaction,
+  Embed,
+  Conversation,
+  ReadyEvent,
+  SyncResponse,
+  FriendRequestCreateEvent,
+  FriendRequestDeleteEvent,
+  RelationshipAddEvent,
+  RelationshipRemoveEvent,
+  MessageCreateEvent,
+  MessageUpdateEvent,
+  MessageDeleteEvent,
+  MessageAckEvent,
+  ChannelPinsUpdateEvent,
+  ReactionAddEvent,
+  ReactionRemoveEvent,
+  TypingStartEvent,
+  PresenceUpdateEvent,
+  CallStateEvent,
+} from './messages'
+
+// Derive WebSocket URL from API base URL
+const WS_URL = API_BASE_URL.replace(/^http/, 'ws').replace(/\/api$/, '') + '/api/ws'
+
+export const gatewayApi = {
+  // Fresh snapshot plus message changes since `since` (ISO timestamp)
+  sync: (since: string) =>
+    api.get<SyncResponse>(`/sync?since=${encodeURIComponent(since)}`),
+}
+
+// Payload of every event published on the personal channel
+export interface GatewayEventMap {
+  READY: ReadyEvent
+  FRIEND_REQUEST_CREATE: FriendRequestCreateEvent
+  FRIEND_REQUEST_DELETE: FriendRequestDeleteEvent
+  RELATIONSHIP_ADD: RelationshipAddEvent
+  RELATIONSHIP_REMOVE: RelationshipRemoveEvent
+  MESSAGE_CREATE: MessageCreateEvent
+  MESSAGE_UPDATE: MessageUpdateEvent
+  MESSAGE_DELETE: MessageDeleteEvent
+  MESSAGE_ACK: MessageAckEvent
+  CHANNEL_PINS_UPDATE: ChannelPinsUpdateEvent
+  REACTION_ADD: ReactionAddEvent
+  REACTION_REMOVE: ReactionRemoveEvent
+  TYPING_START: TypingStartEvent
+  PRESENCE_UPDATE: PresenceUpdateEvent
+  CONVERSATION_CREATE: Conversation
+  CONVERSATION_UPDATE: Conversation
+  CALL_STATE: CallStateEvent
+}
+
+export type GatewayEventType = keyof GatewayEventMap
+
+export type GatewayEvent = {
+  [K in GatewayEventType]: { type: K; data: GatewayEventMap[K] }
+}[GatewayEventType]
+
+// Legacy names the server still sends for some events
+const EVENT_ALIASES: Record<string, GatewayEventType> = {
+  new_message: 'MESSAGE_CREATE',
+}
+
+// Runtime validation - checks the fields reducers rely on, extra fields pass through
+
+type Guard<T> = (value: unknown) => value is T
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isString = (value: unknown): value is string => typeof value === 'string'
+
+const isNullableString = (value: unknown): value is string | null =>
+  value === null || typeof value === 'string'
+
+const optional = <T>(guard: Guard<T>): Guard<T | undefined> =>
+  (value): value is T | undefined => value === undefined || value === null || guard(value)
+
+const arrayOf = <T>(guard: Guard<T>): Guard<T[]> =>
+  (value): value is T[] => Array.isArray(value) && value.every(guard)
+
+const oneOf = <T extends string>(...options: T[]): Guard<T> =>
+  (value): value is T => options.includes(value as T)
+
+const shape = <T>(fields: Record<string, Guard<unknown>>): Guard<T> =>
+  (value): value is T =>
+    isObject(value) && Object.entries(fields).every(([key, guard]) => guard(value[key]))
+
+const isUser = shape<User>({ id: isString })
+
+const isFriend = shape<Friend>({ user: isUser })
+
+const isFriendRequest = shape<FriendRequest>({ id: isString, user: isUser })
+
+const isReaction = shape<Reaction>({ user_id: isString, emoji: isString })
+
+const isEmbed = shape<Embed>({ type: oneOf('link', 'image', 'video', 'audio'), url: isString })
+
+const isMessage = shape<Message>({
+  id: isString,
+  conversation_id: isString,
+  sender_id: isString,
+  content: isString,
+  created_at: isString,
+  reactions: optional(arrayOf(isReaction)),
+  embeds: optional(arrayOf(isEmbed)),
+})
+
+const isConversation = shape<Conversation>({
+  id: isString,
+  type: oneOf('dm', 'group'),
+  participants: arrayOf(isUser),
+  last_message: optional(isMessage),
+})
+
+const isActiveCall = shape<ReadyEvent['active_calls'][number]>({ conversation_id: isString, participants: arrayOf(isString) })
+
+const isList = (value: unknown): value is unknown[] => Array.isArray(value)
+
+const validators: { [K in GatewayEventType]: Guard<GatewayEventMap[K]> } = {
+  // Lists are checked item by item (see sanitizeReady) - one bad conversation
+  // shouldn't keep the whole app on the loading screen
+  READY: shape({
+    user: isUser,
+    friends: optional(isList),
+    incoming_requests: optional(isList),
+    outgoing_requests: optional(isList),
+    conversations: optional(isList),
+    active_calls: optional(isList),
+  }),
+  FRIEND_REQUEST_CREATE: shape({ request: isFriendRequest }),
+  FRIEND_REQUEST_DELETE: shape({ request_id: isString }),
+  RELATIONSHIP_ADD: shape({ friend: isFriend }),
+  RELATIONSHIP_REMOVE: shape({ user_id: isString }),
+  MESSAGE_CREATE: shape({ message: isMessage, conversation_id: isString }),
+  MESSAGE_UPDATE: shape({ message: isMessage, conversation_id: isString }),
+  MESSAGE_DELETE: shape({ message_id: isString, conversation_id: isString }),
+  MESSAGE_ACK: shape({ message_id: isString, conversation_id: isString }),
+  CHANNEL_PINS_UPDATE: shape({
+    message_id: isString,
+    conversation_id: isString,
+    user_id: isString,
+    pinned: (value): value is boolean => typeof value === 'boolean',
+  }),
+  REACTION_ADD: shape({ reaction: isReaction, message_id: isString, conversation_id: isString }),
+  REACTION_REMOVE: shape({ message_id: isString, conversation_id: isString, user_id: isString, emoji: isString }),
+  TYPING_START: shape({ conversation_id: isString, user_id: isString }),
+  PRESENCE_UPDATE: shape({ user_id: isString, status: isString }),
+  CONVERSATION_CREATE: isConversation,
+  CONVERSATION_UPDATE: isConversation,
+  CALL_STATE: shape({ conversation_id: isString, call_id: isNullableString, participants: arrayOf(isString) }),
+}
+
+const isEventType = (type: string): type is GatewayEventType => type in validators
+
+// Diagnostics - payloads we couldn't dispatch, instead of crashing a reducer
+
+export type GatewayDiagnostic =
+  | { kind: 'malformed_frame'; data: unknown }
+  | { kind: 'unknown_event'; type: string; data: unknown }
+  | { kind: 'invalid_payload'; type: GatewayEventType; data: unknown }
+  | { kind: 'invalid_item'; type: GatewayEventType; field: string; data: unknown }
+  | { kind: 'listener_error'; type: GatewayEventType; error: unknown }
+
+type DiagnosticListener = (diagnostic: GatewayDiagnostic) => void
+
+const diagnosticListeners = new Set<DiagnosticListener>()
+
+export function subscribeGatewayDiagnostics(listener: DiagnosticListener): () => void {
+  diagnosticListeners.add(listener)
+  return () => {
+    diagnosticListeners.delete(listener)
+  }
+}
+
+function reportDiagnostic(diagnostic: GatewayDiagnostic) {
+  console.warn('Gateway diagnostic:', diagnostic)
+  for (const listener of diagnosticListeners) {
+    listener(diagnostic)
+  }
+}
+
+// Event registry
+
+export type GatewayListener<K extends GatewayEventType> = (data: GatewayEventMap[K]) => void
+
+const listeners = new Map<GatewayEventType, Set<(data: never) => void>>()
+
+// Listen to a single event type; returns the unsubscribe function
+export function subscribeGateway<K extends GatewayEventType>(
+  type: K,
+  listener: GatewayListener<K>
+): () => void {
+  let set = listeners.get(type)
+  if (!set) {
+    set = new Set()
+    listeners.set(type, set)
+  }
+  set.add(listener)
+
+  return () => {
+    set.delete(listener)
+  }
+}
+
+// Drop the malformed items of READY's lists, reporting each one
+function sanitizeReady(ready: ReadyEvent): ReadyEvent {
+  const valid = <T>(field: keyof ReadyEvent, items: unknown[] | undefined, guard: Guard<T>): T[] =>
+    (items || []).filter((item): item is T => {
+      if (guard(item)) return true
+      reportDiagnostic({ kind: 'invalid_item', type: 'READY', field, data: item })
+      return false
+    })
+
+  return {
+    ...ready,
+    friends: valid('friends', ready.friends, isFriend),
+    incoming_requests: valid('incoming_requests', ready.incoming_requests, isFriendRequest),
+    outgoing_requests: valid('outgoing_requests', ready.outgoing_requests, isFriendRequest),
+    conversations: valid('conversations', ready.conversations, isConversation),
+    active_calls: valid('active_calls', ready.active_calls, isActiveCall),
+  }
+}
+
+// Validate a raw publication and hand it to the listeners of its type
+export function dispatchGatewayEvent(raw: unknown) {
+  if (!isObject(raw) || !isString(raw.type)) {
+    reportDiagnostic({ kind: 'malformed_frame', data: raw })
+    return
+  }
+
+  const type = EVENT_ALIASES[raw.type] || raw.type
+  if (!isEventType(type)) {
+    reportDiagnostic({ kind: 'unknown_event', type: raw.type, data: raw.data })
+    return
+  }
+
+  if (!validators[type](raw.data)) {
+    reportDiagnostic({ kind: 'invalid_payload', type, data: raw.data })
+    return
+  }
+
+  const data = type === 'READY' ? sanitizeReady(raw.data as ReadyEvent) : raw.data
+
+  for (const listener of listeners.get(type) || []) {
+    // One broken listener shouldn't keep the event from the others
+    try {
+      (listener as (data: unknown) => void)(data)
+    } catch (error) {
+      reportDiagnostic({ kind: 'listener_error', type, error })
+    }
+  }
+}
+
+// Centrifuge connection
+let centrifuge: Centrifuge | null = null
+
+// Connection lifecycle - events themselves go through subscribeGateway
+export type ConnectionHandlers = {
+  onConnect?: () => void
+  onReconnecting?: () => void
+  // Personal channel came back after a drop; `recovered` if missed events were replayed
+  onResume?: (recovered: boolean) => void
+  onDisconnect?: () => void
+}
+
+export function connectGateway(handlers: ConnectionHandlers): Centrifuge {
+  const token = localStorage.getItem('access_token')
+  if (!token) {
+    throw new Error('No access token')
+  }
+
+  if (centrifuge) {
+    centrifuge.disconnect()
+  }
+
+  centrifuge = new Centrifuge(WS_URL, {
+    token,
+  })
+
+  let wasConnected = false
+
+  centrifuge.on('connecting', (ctx) => {
+    // Initial connect goes through here too - only report actual drops
+    if (!wasConnected) return
+    console.log('Gateway reconnecting:', ctx)
+    handlers.onReconnecting?.()
+  })
+
+  centrifuge.on('connected', () => {
+    console.log('Gateway connected')
+    wasConnected = true
+    handlers.onConnect?.()
+  })
+
+  centrifuge.on('disconnected', (ctx) => {
+    console.log('Gateway disconnected:', ctx)
+    handlers.onDisconnect?.()
+  })
+
+  centrifuge.on('error', (ctx) => {
+    console.error('Gateway error:', ctx)
+  })
+
+  // Get user ID from token to subscribe to personal channel
+  const payload = JSON.parse(atob(token.split('.')[1]))
+  const userId = payload.user_id
+  const channel = `user:${userId}`
+
+  // Recoverable so resubscribing after a drop replays what was published meanwhile
+  const sub = centrifuge.newSubscription(channel, {
+    recoverable: true,
+    positioned: true,
+  })
+  let hasSubscribed = false
+
+  sub.on('publication', (ctx) => {
+    dispatchGatewayEvent(ctx.data)
+  })
+
+  sub.on('subscribed', (ctx) => {
+    console.log('Subscribed to personal channel')
+    if (hasSubscribed) {
+      handlers.onResume?.(ctx.wasRecovering && ctx.recovered)
+    }
+    hasSubscribed = true
+  })
+
+  sub.on('error', (ctx) => {
+    console.error('Subscription error:', ctx)
+  })
+
+  sub.subscribe()
+  centrifuge.connect()
+
+  return centrifuge
+}
+
+export function disconnectGateway() {
+  if (centrifuge) {
+    centrifuge.disconnect()
+    centrifuge = null
+  }
+}
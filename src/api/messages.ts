@@ -1,43 +1,116 @@
-import { Centrifuge } from 'centrifuge'
 import { api, API_BASE_URL } from './client'
-
-// Derive WebSocket URL from API base URL
-const WS_URL = API_BASE_URL.replace(/^http/, 'ws').replace(/\/api$/, '') + '/api/ws'
 import type { User } from './auth'
 import type { Friend, FriendRequest } from './friends'
+import type { Sticker } from './stickers'
+
+export type AttachmentType = 'image' | 'video' | 'audio' | 'file'
 
 export interface Attachment {
   id: string
   message_id: string
-  type: 'image' | 'file'
+  type: AttachmentType
   url: string
   filename: string
   size: number
   width?: number
   height?: number
+  // Images and videos: placeholder shown while loading, computed by the uploader
+  blurhash?: string
+  // Videos: first frame, uploaded together with the file
+  poster_url?: string
+  // Audio and video: length in seconds
+  duration?: number
+  // Voice messages: 0-100 levels for the waveform
+  waveform?: number[]
   created_at: string
 }
 
+// Extra fields sent along with an upload (voice messages)
+export interface AttachmentMetadata {
+  width?: number
+  height?: number
+  blurhash?: string
+  duration?: number
+  waveform?: number[]
+  // Video poster frame (JPEG)
+  poster?: Blob
+}
+
+// Attachment type by MIME, sent with the upload so the server doesn't have to sniff the file
+export const attachmentTypeForMime = (mime: string): AttachmentType =>
+  mime.startsWith('image/') ? 'image'
+    : mime.startsWith('video/') ? 'video'
+    : mime.startsWith('audio/') ? 'audio'
+    : 'file'
+
+export interface UploadOptions {
+  // Fraction sent, 0-1
+  onProgress?: (progress: number) => void
+  signal?: AbortSignal
+}
+
+export interface EmbedMedia {
+  url: string
+  width?: number
+  height?: number
+}
+
+// Link preview unfurled by the server; direct media links get their own types
+export interface Embed {
+  type: 'link' | 'image' | 'video' | 'audio'
+  url: string
+  title?: string | null
+  description?: string | null
+  site_name?: string | null
+  image?: EmbedMedia | null // og:image, the picture itself for 'image', poster for 'video'
+  video?: EmbedMedia | null
+  audio?: EmbedMedia | null
+}
+
 export interface Reaction {
   id: string
   message_id: string
   user_id: string
+  // Unicode emoji or a `<:name:emojiId>` custom emoji token
   emoji: string
   created_at: string
   user?: User
 }
 
+// The original of a forwarded message. The copy has its own content,
+// attachments and sticker; this only says where they came from
+export interface ForwardedFrom {
+  message_id: string
+  conversation_id: string
+  sender_id: string
+  sender?: User | null // null if the account was deleted
+  created_at: string
+}
+
 export interface Message {
   id: string
   conversation_id: string
   sender_id: string
-  type?: 'text' | 'call' // default: 'text'
+  type?: 'text' | 'call' | 'pin' | 'sticker' // default: 'text'; 'pin' is the "X pinned a message" system message
   content: string
   created_at: string
   updated_at: string
+  edited_at?: string | null // set by the server on content edits only; unfurls bump updated_at too
   sender?: User
   attachments?: Attachment[]
   reactions?: Reaction[]
+  pinned?: boolean
+  embeds?: Embed[] // filled in by MESSAGE_UPDATE once the server has unfurled the links
+  reply_to_id?: string | null
+  reply_to?: Message | null // parent snapshot, null if it was deleted
+  sticker?: Sticker | null // type 'sticker': resolved by the server from sticker_id, null if it was deleted
+  forwarded_from?: ForwardedFrom | null
+  nonce?: string | null // client-generated, echoed back to match optimistic sends
+
+  // Client-only state of an optimistic message that the server hasn't confirmed yet
+  local_status?: 'sending' | 'queued' | 'failed'
+  // Client-only: the message an optimistic forward copies, kept for retries
+  local_forward_from_id?: string
 }
 
 // Call message content (parsed from Message.content JSON)
@@ -48,6 +121,30 @@ export interface CallMessageContent {
   status: 'completed' | 'missed' | 'cancelled'
 }
 
+// Pin system message content (parsed from Message.content JSON)
+export interface PinMessageContent {
+  message_id: string
+}
+
+// Server-side message search; filters are ANDed, results come newest first
+export interface MessageSearchParams {
+  query: string
+  author_ids?: string[]
+  conversation_ids?: string[]
+  has?: ('image' | 'file')[]
+  // ISO dates (YYYY-MM-DD)
+  before?: string
+  after?: string
+  cursor?: string
+  limit?: number
+}
+
+export interface MessageSearchResponse {
+  messages: Message[]
+  total: number
+  next_cursor: string | null
+}
+
 export interface Conversation {
   id: string
   type: 'dm' | 'group'
@@ -57,6 +154,10 @@ export interface Conversation {
   participants: User[]
   last_message: Message | null
   updated_at: string
+  // Read state of the current user
+  last_read_message_id?: string | null
+  unread_count?: number
+  mention_count?: number
 }
 
 // Active call info from READY event
@@ -77,6 +178,13 @@ export interface ReadyEvent {
   active_calls: ActiveCallInfo[]
 }
 
+// Changes since a point in time - used when the gateway couldn't replay missed events
+export interface SyncResponse extends ReadyEvent {
+  messages: Message[] // created or edited since, across all conversations
+  deleted_messages: MessageDeleteEvent[]
+  truncated: boolean // too much happened - loaded history can't be patched up
+}
+
 export interface FriendRequestCreateEvent {
   request: FriendRequest
 }
@@ -99,11 +207,30 @@ export interface MessageCreateEvent {
   conversation_id: string
 }
 
+export interface MessageUpdateEvent {
+  message: Message
+  conversation_id: string
+}
+
 export interface MessageDeleteEvent {
   message_id: string
   conversation_id: string
 }
 
+// Read marker moved (possibly from another device/tab)
+export interface MessageAckEvent {
+  conversation_id: string
+  message_id: string
+}
+
+// A message was pinned or unpinned; `user_id` is who did it
+export interface ChannelPinsUpdateEvent {
+  conversation_id: string
+  message_id: string
+  user_id: string
+  pinned: boolean
+}
+
 export interface ReactionAddEvent {
   reaction: Reaction
   message_id: string
@@ -117,6 +244,11 @@ export interface ReactionRemoveEvent {
   emoji: string
 }
 
+export interface TypingStartEvent {
+  conversation_id: string
+  user_id: string
+}
+
 export interface PresenceUpdateEvent {
   user_id: string
   status: 'online' | 'offline' | 'idle' | 'dnd'
@@ -181,18 +313,65 @@ export const messagesApi = {
   getConversation: (id: string) =>
     api.get<Conversation>(`/conversations/${id}`),
 
-  getMessages: (conversationId: string, limit = 50, offset = 0) =>
-    api.get<Message[]>(`/conversations/${conversationId}/messages?limit=${limit}&offset=${offset}`),
+  // Newest page when `before` is omitted, otherwise the page right before that message id
+  getMessages: (conversationId: string, limit = 50, before?: string) =>
+    api.get<Message[]>(
+      `/conversations/${conversationId}/messages?limit=${limit}${before ? `&before=${before}` : ''}`
+    ),
+
+  search: ({ query, author_ids, conversation_ids, has, before, after, cursor, limit = 25 }: MessageSearchParams) => {
+    const params = new URLSearchParams({ q: query, limit: String(limit) })
+    for (const id of author_ids || []) params.append('author_id', id)
+    for (const id of conversation_ids || []) params.append('conversation_id', id)
+    for (const kind of has || []) params.append('has', kind)
+    if (before) params.set('before', before)
+    if (after) params.set('after', after)
+    if (cursor) params.set('cursor', cursor)
+    return api.get<MessageSearchResponse>(`/messages/search?${params}`)
+  },
 
-  sendMessage: (conversationId: string, content: string, attachmentIds?: string[]) =>
+  sendMessage: (
+    conversationId: string,
+    content: string,
+    attachmentIds?: string[],
+    replyToId?: string,
+    nonce?: string,
+    stickerId?: string,
+    // Forwarding: the server copies the original's attachments and sticker
+    forwardFromId?: string
+  ) =>
     api.post<Message>(`/conversations/${conversationId}/messages`, {
       content,
       attachment_ids: attachmentIds,
+      reply_to_id: replyToId,
+      nonce,
+      sticker_id: stickerId,
+      forward_from_id: forwardFromId,
     }),
 
+  editMessage: (conversationId: string, messageId: string, content: string) =>
+    api.patch<Message>(`/conversations/${conversationId}/messages/${messageId}`, { content }),
+
   deleteMessage: (conversationId: string, messageId: string) =>
     api.delete(`/conversations/${conversationId}/messages/${messageId}`),
 
+  // Tell other participants we're composing - server fans out TYPING_START
+  sendTyping: (conversationId: string) =>
+    api.post(`/conversations/${conversationId}/typing`),
+
+  ackConversation: (conversationId: string, messageId: string) =>
+    api.post(`/conversations/${conversationId}/ack`, { message_id: messageId }),
+
+  // Pinned messages, most recently pinned first
+  getPins: (conversationId: string) =>
+    api.get<Message[]>(`/conversations/${conversationId}/pins`),
+
+  pinMessage: (conversationId: string, messageId: string) =>
+    api.put(`/conversations/${conversationId}/pins/${messageId}`),
+
+  unpinMessage: (conversationId: string, messageId: string) =>
+    api.delete(`/conversations/${conversationId}/pins/${messageId}`),
+
   addReaction: (conversationId: string, messageId: string, emoji: string) =>
     api.post<Reaction>(`/conversations/${conversationId}/messages/${messageId}/reactions`, { emoji }),
 
@@ -237,162 +416,44 @@ export const messagesApi = {
     return response.json()
   },
 
-  uploadAttachment: async (file: File): Promise<Attachment> => {
-    const token = localStorage.getItem('access_token')
-    const formData = new FormData()
-    formData.append('file', file)
-
-    const response = await fetch(`${API_BASE_URL}/attachments`, {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${token}`,
-      },
-      body: formData,
-    })
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Upload failed' }))
-      throw new Error(error.error || 'Upload failed')
-    }
-
-    return response.json()
-  },
-}
-
-// Centrifuge connection
-let centrifuge: Centrifuge | null = null
-
-export type EventHandlers = {
-  onReady?: (data: ReadyEvent) => void
-  onFriendRequestCreate?: (data: FriendRequestCreateEvent) => void
-  onFriendRequestDelete?: (data: FriendRequestDeleteEvent) => void
-  onRelationshipAdd?: (data: RelationshipAddEvent) => void
-  onRelationshipRemove?: (data: RelationshipRemoveEvent) => void
-  onMessageCreate?: (data: MessageCreateEvent) => void
-  onMessageDelete?: (data: MessageDeleteEvent) => void
-  onReactionAdd?: (data: ReactionAddEvent) => void
-  onReactionRemove?: (data: ReactionRemoveEvent) => void
-  onPresenceUpdate?: (data: PresenceUpdateEvent) => void
-  onConversationCreate?: (data: Conversation) => void
-  onConversationUpdate?: (data: Conversation) => void
-  onCallState?: (data: CallStateEvent) => void
-  onConnect?: () => void
-  onDisconnect?: () => void
-}
-
-export function connectGateway(handlers: EventHandlers): Centrifuge {
-  const token = localStorage.getItem('access_token')
-  if (!token) {
-    throw new Error('No access token')
-  }
-
-  if (centrifuge) {
-    centrifuge.disconnect()
-  }
-
-  centrifuge = new Centrifuge(WS_URL, {
-    token,
-  })
-
-  centrifuge.on('connected', () => {
-    console.log('Gateway connected')
-    handlers.onConnect?.()
-  })
-
-  centrifuge.on('disconnected', (ctx) => {
-    console.log('Gateway disconnected:', ctx)
-    handlers.onDisconnect?.()
-  })
-
-  centrifuge.on('error', (ctx) => {
-    console.error('Gateway error:', ctx)
-  })
-
-  // Get user ID from token to subscribe to personal channel
-  const payload = JSON.parse(atob(token.split('.')[1]))
-  const userId = payload.user_id
-  const channel = `user:${userId}`
-
-  const sub = centrifuge.newSubscription(channel)
-
-  sub.on('publication', (ctx) => {
-    const event = ctx.data as RealtimeEvent
-    console.log('Gateway event:', event.type, event.data)
-
-    switch (event.type) {
-      case 'READY':
-        handlers.onReady?.(event.data as ReadyEvent)
-        break
-      case 'FRIEND_REQUEST_CREATE':
-        handlers.onFriendRequestCreate?.(event.data as FriendRequestCreateEvent)
-        break
-      case 'FRIEND_REQUEST_DELETE':
-        handlers.onFriendRequestDelete?.(event.data as FriendRequestDeleteEvent)
-        break
-      case 'RELATIONSHIP_ADD':
-        handlers.onRelationshipAdd?.(event.data as RelationshipAddEvent)
-        break
-      case 'RELATIONSHIP_REMOVE':
-        handlers.onRelationshipRemove?.(event.data as RelationshipRemoveEvent)
-        break
-      case 'MESSAGE_CREATE':
-      case 'new_message':
-        handlers.onMessageCreate?.(event.data as MessageCreateEvent)
-        break
-      case 'MESSAGE_DELETE':
-        handlers.onMessageDelete?.(event.data as MessageDeleteEvent)
-        break
-      case 'REACTION_ADD':
-        handlers.onReactionAdd?.(event.data as ReactionAddEvent)
-        break
-      case 'REACTION_REMOVE':
-        handlers.onReactionRemove?.(event.data as ReactionRemoveEvent)
-        break
-      case 'PRESENCE_UPDATE':
-        handlers.onPresenceUpdate?.(event.data as PresenceUpdateEvent)
-        break
-      case 'CONVERSATION_CREATE':
-        handlers.onConversationCreate?.(event.data as Conversation)
-        break
-      case 'CONVERSATION_UPDATE':
-        handlers.onConversationUpdate?.(event.data as Conversation)
-        break
-      case 'CALL_STATE':
-        handlers.onCallState?.(event.data as CallStateEvent)
-        break
-    }
-  })
-
-  sub.on('subscribed', () => {
-    console.log('Subscribed to personal channel')
-  })
-
-  sub.on('error', (ctx) => {
-    console.error('Subscription error:', ctx)
-  })
-
-  sub.subscribe()
-  centrifuge.connect()
-
-  return centrifuge
-}
-
-export function disconnectGateway() {
-  if (centrifuge) {
-    centrifuge.disconnect()
-    centrifuge = null
-  }
+  // XHR rather than fetch - fetch can't report upload progress
+  uploadAttachment: (file: File, metadata?: AttachmentMetadata, options: UploadOptions = {}): Promise<Attachment> =>
+    new Promise((resolve, reject) => {
+      const token = localStorage.getItem('access_token')
+      const formData = new FormData()
+      formData.append('file', file)
+      formData.append('type', attachmentTypeForMime(file.type))
+      if (metadata?.width !== undefined) formData.append('width', String(metadata.width))
+      if (metadata?.height !== undefined) formData.append('height', String(metadata.height))
+      if (metadata?.blurhash) formData.append('blurhash', metadata.blurhash)
+      if (metadata?.duration !== undefined) formData.append('duration', String(metadata.duration))
+      if (metadata?.waveform) formData.append('waveform', JSON.stringify(metadata.waveform))
+      if (metadata?.poster) formData.append('poster', metadata.poster, 'poster.jpg')
+
+      const xhr = new XMLHttpRequest()
+      xhr.open('POST', `${API_BASE_URL}/attachments`)
+      xhr.setRequestHeader('Authorization', `Bearer ${token}`)
+      xhr.responseType = 'json'
+
+      xhr.upload.onprogress = (e) => {
+        if (e.lengthComputable) options.onProgress?.(e.loaded / e.total)
+      }
+      xhr.onload = () => {
+        if (xhr.status >= 200 && xhr.status < 300) {
+          resolve(xhr.response as Attachment)
+        } else {
+          reject(new Error(xhr.response?.error || 'Upload failed'))
+        }
+      }
+      // Same shape as a failed fetch, so isNetworkError() still applies
+      xhr.onerror = () => reject(new TypeError('Network request failed'))
+      xhr.onabort = () => reject(new DOMException('Upload cancelled', 'AbortError'))
+
+      if (options.signal?.aborted) {
+        reject(new DOMException('Upload cancelled', 'AbortError'))
+        return
+      }
+      options.signal?.addEventListener('abort', () => xhr.abort())
+      xhr.send(formData)
+    }),
 }
-
-// Keep old exports for compatibility during transition
-export const connectRealtime = (
-  onMessage: (event: RealtimeEvent) => void,
-  onConnect?: () => void,
-  onDisconnect?: () => void
-) => connectGateway({
-  onMessageCreate: (data) => onMessage({ type: 'new_message', data }),
-  onConnect,
-  onDisconnect,
-})
-
-export const disconnectRealtime = disconnectGateway
@@ -68,3 +68,6 @@ export const stickersApi = {
   // Delete a pack (owner only)
   deletePack: (packId: string) => api.delete(`/stickers/${packId}`),
 }
+
+// Link that opens the pack in the app, for sharing
+export const getStickerPackLink = (packId: string) => `${window.location.origin}/stickers/${packId}`
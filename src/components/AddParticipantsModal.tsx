@@ -1,6 +1,7 @@
 import { useState } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { useFriendsStore } from '../stores/friendsStore'
+import type { User } from '../api/auth'
 
 type Props = {
   isOpen: boolean
@@ -39,13 +40,6 @@ export function AddParticipantsModal({ isOpen, onClose, onAdd, existingParticipa
     onClose()
   }
 
-  const statusColors: Record<string, string> = {
-    online: 'bg-emerald-400',
-    idle: 'bg-amber-400',
-    dnd: 'bg-rose-400',
-    offline: 'bg-white/20',
-  }
-
   return (
     <AnimatePresence>
       {isOpen && (
@@ -97,69 +91,14 @@ export function AddParticipantsModal({ isOpen, onClose, onAdd, existingParticipa
                   </div>
                 ) : (
                   <div className="space-y-1">
-                    {availableFriends.map((friend) => {
-                      const isSelected = selectedIds.includes(friend.user.id)
-                      return (
-                        <motion.button
-                          key={friend.user.id}
-                          onClick={() => toggleUser(friend.user.id)}
-                          whileTap={{ scale: 0.98 }}
-                          className={`w-full flex items-center gap-3 p-3 rounded-xl transition-all ${
-                            isSelected
-                              ? 'bg-white/[0.08] border border-white/[0.1]'
-                              : 'hover:bg-white/[0.04] border border-transparent'
-                          }`}
-                        >
-                          {/* Avatar */}
-                          <div className="relative flex-shrink-0">
-                            <div className="w-10 h-10 rounded-full bg-white/[0.06] flex items-center justify-center text-sm text-white/40 uppercase overflow-hidden">
-                              {friend.user.avatar_url ? (
-                                <img src={friend.user.avatar_url} alt="" className="w-full h-full object-cover" />
-                              ) : (
-                                <span className="font-medium">{friend.user.username?.[0] || '?'}</span>
-                              )}
-                            </div>
-                            <span className={`absolute bottom-0 right-0 w-3 h-3 rounded-full border-2 border-[#0f0f0f] ${
-                              statusColors[friend.user.status || 'offline']
-                            }`} />
-                          </div>
-
-                          {/* Info */}
-                          <div className="flex-1 text-left">
-                            <p className="text-white text-sm font-medium">
-                              {friend.user.username || 'Unknown'}
-                            </p>
-                            <p className="text-white/30 text-xs capitalize">
-                              {friend.user.status === 'online' ? 'В сети' :
-                               friend.user.status === 'idle' ? 'Неактивен' :
-                               friend.user.status === 'dnd' ? 'Не беспокоить' : 'Не в сети'}
-                            </p>
-                          </div>
-
-                          {/* Checkbox */}
-                          <div
-                            className={`w-5 h-5 rounded-md border-2 flex items-center justify-center transition-all ${
-                              isSelected
-                                ? 'bg-white border-white'
-                                : 'border-white/20'
-                            }`}
-                          >
-                            {isSelected && (
-                              <motion.svg
-                                initial={{ scale: 0 }}
-                                animate={{ scale: 1 }}
-                                className="w-3 h-3 text-[#050505]"
-                                fill="none"
-                                viewBox="0 0 24 24"
-                                stroke="currentColor"
-                              >
-                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
-                              </motion.svg>
-                            )}
-                          </div>
-                        </motion.button>
-                      )
-                    })}
+                    {availableFriends.map((friend) => (
+                      <FriendOption
+                        key={friend.user.id}
+                        user={friend.user}
+                        isSelected={selectedIds.includes(friend.user.id)}
+                        onToggle={() => toggleUser(friend.user.id)}
+                      />
+                    ))}
                   </div>
                 )}
               </div>
@@ -196,3 +135,82 @@ export function AddParticipantsModal({ isOpen, onClose, onAdd, existingParticipa
     </AnimatePresence>
   )
 }
+
+const statusColors: Record<string, string> = {
+  online: 'bg-emerald-400',
+  idle: 'bg-amber-400',
+  dnd: 'bg-rose-400',
+  offline: 'bg-white/20',
+}
+
+// Selectable friend row, also used by the forward picker
+export function FriendOption({ user, isSelected, onToggle }: {
+  user: User
+  isSelected: boolean
+  onToggle: () => void
+}) {
+  return (
+    <motion.button
+      onClick={onToggle}
+      whileTap={{ scale: 0.98 }}
+      className={`w-full flex items-center gap-3 p-3 rounded-xl transition-all ${
+        isSelected
+          ? 'bg-white/[0.08] border border-white/[0.1]'
+          : 'hover:bg-white/[0.04] border border-transparent'
+      }`}
+    >
+      {/* Avatar */}
+      <div className="relative flex-shrink-0">
+        <div className="w-10 h-10 rounded-full bg-white/[0.06] flex items-center justify-center text-sm text-white/40 uppercase overflow-hidden">
+          {user.avatar_url ? (
+            <img src={user.avatar_url} alt="" className="w-full h-full object-cover" />
+          ) : (
+            <span className="font-medium">{user.username?.[0] || '?'}</span>
+          )}
+        </div>
+        <span className={`absolute bottom-0 right-0 w-3 h-3 rounded-full border-2 border-[#0f0f0f] ${
+          statusColors[user.status || 'offline']
+        }`} />
+      </div>
+
+      {/* Info */}
+      <div className="flex-1 text-left">
+        <p className="text-white text-sm font-medium">
+          {user.username || 'Unknown'}
+        </p>
+        <p className="text-white/30 text-xs capitalize">
+          {user.status === 'online' ? 'В сети' :
+           user.status === 'idle' ? 'Неактивен' :
+           user.status === 'dnd' ? 'Не беспокоить' : 'Не в сети'}
+        </p>
+      </div>
+
+      <SelectionCheck isSelected={isSelected} />
+    </motion.button>
+  )
+}
+
+export function SelectionCheck({ isSelected }: { isSelected: boolean }) {
+  return (
+    <div
+      className={`w-5 h-5 rounded-md border-2 flex items-center justify-center transition-all ${
+        isSelected
+          ? 'bg-white border-white'
+          : 'border-white/20'
+      }`}
+    >
+      {isSelected && (
+        <motion.svg
+          initial={{ scale: 0 }}
+          animate={{ scale: 1 }}
+          className="w-3 h-3 text-[#050505]"
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
+        </motion.svg>
+      )}
+    </div>
+  )
+}
@@ -3,7 +3,11 @@ import { motion, AnimatePresence } from 'framer-motion'
 import { useAuthStore } from '../stores/authStore'
 import { useFriendsStore } from '../stores/friendsStore'
 import { useMessagesStore } from '../stores/messagesStore'
+import { useTypingStore } from '../stores/typingStore'
 import { SearchModal } from './SearchModal'
+import { toPlainText } from '../lib/markdown'
+import { attachmentLabel } from '../lib/attachments'
+import { parseLegacySticker } from '../lib/legacyStickers'
 
 type Props = {
   onSelectConversation: (conversationId: string) => void
@@ -25,6 +29,7 @@ type ConversationItem = {
   lastMessageTime?: string
   conversationId?: string
   unread?: number
+  mentions?: number
   participantCount?: number
   ownerId?: string | null
   participants?: { username: string; avatar_url?: string | null }[]
@@ -46,6 +51,7 @@ export function ChannelList({
   const { user } = useAuthStore()
   const { friends, incomingRequests, removeFriend } = useFriendsStore()
   const { conversations, openDM, leaveGroup } = useMessagesStore()
+  const typing = useTypingStore((state) => state.typing)
   const [contextMenu, setContextMenu] = useState<ContextMenu>(null)
   const [showSearch, setShowSearch] = useState(false)
 
@@ -97,15 +103,19 @@ export function ChannelList({
   }
 
   const conversationList = useMemo(() => {
-    const getMessagePreview = (msg: typeof conversations[0]['last_message'] | undefined) => {
+    const getMessagePreview = (conv: typeof conversations[0] | undefined) => {
+      const msg = conv?.last_message
       if (!msg) return undefined
-      if (msg.content) return msg.content
+      // System message - content is JSON, not text
+      if (msg.type === 'pin') return 'Закреплено сообщение'
+      if (msg.type === 'sticker') return msg.sticker ? `${msg.sticker.emoji} Стикер` : 'Стикер'
+      const legacySticker = parseLegacySticker(msg)
+      if (legacySticker) return `${legacySticker.emoji} Стикер`
+      if (msg.content) {
+        return toPlainText(msg.content, (id) => conv.participants.find((p) => p.id === id)?.username)
+      }
       if (msg.attachments && msg.attachments.length > 0) {
-        const firstAttachment = msg.attachments[0]
-        if (firstAttachment.type === 'image') {
-          return 'Фото'
-        }
-        return 'Файл'
+        return attachmentLabel(msg.attachments[0])
       }
       return 'Медиа'
     }
@@ -131,10 +141,11 @@ export function ChannelList({
         avatarUrl: friend.user.avatar_url,
         status: (friend.user.status as 'online' | 'offline' | 'idle' | 'dnd') || 'offline',
         isOwnMessage: conv?.last_message?.sender_id === user?.id,
-        lastMessage: getMessagePreview(conv?.last_message),
+        lastMessage: getMessagePreview(conv),
         lastMessageTime: conv?.last_message?.created_at || conv?.updated_at,
         conversationId: conv?.id,
-        unread: 0,
+        unread: conv?.unread_count || 0,
+        mentions: conv?.mention_count || 0,
       })
     }
 
@@ -155,10 +166,11 @@ export function ChannelList({
           name: groupName,
           groupAvatarUrl: conv.avatar_url,
           isOwnMessage: conv.last_message?.sender_id === user?.id,
-          lastMessage: getMessagePreview(conv.last_message),
+          lastMessage: getMessagePreview(conv),
           lastMessageTime: conv.last_message?.created_at || conv.updated_at,
           conversationId: conv.id,
-          unread: 0,
+          unread: conv.unread_count || 0,
+          mentions: conv.mention_count || 0,
           participantCount: conv.participants.length,
           ownerId: conv.owner_id,
           participants: otherParticipants.slice(0, 3).map((p) => ({
@@ -269,6 +281,9 @@ export function ChannelList({
           <div className="space-y-0.5">
             {conversationList.map((item) => {
               const isSelected = selectedConversation === item.conversationId && !showFriends
+              const hasUnread = !isSelected && !!item.unread
+              const isTyping = !!item.conversationId &&
+                !!typing[item.conversationId]?.some((id) => id !== user?.id)
               return (
                 <motion.button
                   key={item.conversationId || item.odnoklasnikBroId}
@@ -340,7 +355,7 @@ export function ChannelList({
                   <div className="flex-1 min-w-0">
                     <div className="flex items-center gap-2">
                       <span className={`text-sm font-medium truncate transition-colors ${
-                        isSelected ? 'text-white' : 'text-white/70 group-hover:text-white/90'
+                        isSelected || hasUnread ? 'text-white' : 'text-white/70 group-hover:text-white/90'
                       }`}>
                         {item.name}
                       </span>
@@ -348,9 +363,23 @@ export function ChannelList({
                         <span className="text-[10px] text-white/20 tabular-nums">{item.participantCount}</span>
                       )}
                     </div>
-                    {item.lastMessage ? (
+                    {isTyping ? (
+                      <p className="text-xs mt-0.5 flex items-center gap-1.5 text-emerald-400/80">
+                        <span className="flex items-center gap-0.5">
+                          {[0, 1, 2].map((i) => (
+                            <motion.span
+                              key={i}
+                              animate={{ opacity: [0.3, 1, 0.3] }}
+                              transition={{ duration: 1, repeat: Infinity, delay: i * 0.15 }}
+                              className="w-1 h-1 rounded-full bg-current"
+                            />
+                          ))}
+                        </span>
+                        печатает…
+                      </p>
+                    ) : item.lastMessage ? (
                       <p className={`text-xs truncate mt-0.5 ${
-                        isSelected ? 'text-white/50' : 'text-white/30'
+                        isSelected ? 'text-white/50' : hasUnread ? 'text-white/60' : 'text-white/30'
                       }`}>
                         {item.isOwnMessage && <span className="text-white/20">Вы: </span>}
                         {item.lastMessage}
@@ -359,6 +388,19 @@ export function ChannelList({
                       <p className="text-xs text-white/20 mt-0.5">Нет сообщений</p>
                     )}
                   </div>
+
+                  {/* Unread / mention badge */}
+                  {hasUnread && (
+                    item.mentions ? (
+                      <span className="flex-shrink-0 min-w-5 h-5 px-1.5 rounded-full bg-rose-500 text-white text-[11px] font-semibold flex items-center justify-center tabular-nums">
+                        @{item.mentions > 99 ? '99+' : item.mentions}
+                      </span>
+                    ) : (
+                      <span className="flex-shrink-0 min-w-5 h-5 px-1.5 rounded-full bg-white/[0.12] text-white/80 text-[11px] font-semibold flex items-center justify-center tabular-nums">
+                        {(item.unread || 0) > 99 ? '99+' : item.unread}
+                      </span>
+                    )
+                  )}
                 </motion.button>
               )
             })}
@@ -1,19 +1,65 @@
-import { useState, useEffect, useRef } from 'react'
+import { Fragment, useState, useEffect, useEffectEvent, useLayoutEffect, useRef } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { useAuthStore } from '../stores/authStore'
-import { useMessagesStore } from '../stores/messagesStore'
+import { useMessagesStore, selectCurrentMessages, selectCurrentCache } from '../stores/messagesStore'
 import { useCallStore } from '../stores/callStore'
-import type { Attachment, Message, CallMessageContent } from '../api/messages'
+import { useTypingStore } from '../stores/typingStore'
+import { usePinsStore } from '../stores/pinsStore'
+import { useUserSettings } from '../stores/settingsStore'
+import { useUploadStore } from '../stores/uploadStore'
+import { useEmojiStore, usableEmojis } from '../stores/emojiStore'
+import { useUsersStore } from '../stores/usersStore'
+import type { Message, CallMessageContent, PinMessageContent, ForwardedFrom } from '../api/messages'
 import type { User } from '../api/auth'
 import { AddParticipantsModal } from './AddParticipantsModal'
 import { GroupSettingsModal } from './GroupSettingsModal'
 import { UserProfilePopup } from './UserProfilePopup'
+import { ReactionsPopover } from './ReactionsPopover'
+import { ForwardMessageModal } from './ForwardMessageModal'
 import { CallOverlay } from './CallOverlay'
 import { CallView } from './CallView'
-import { ImagePreviewModal } from './ImagePreviewModal'
-import { StickerPicker } from './StickerPicker'
-import { TgsPlayer } from './TgsPlayer'
+import { ImagePreviewModal, type PreviewImage } from './ImagePreviewModal'
+import { ImageGallery } from './ImageGallery'
+import { VideoPlayer } from './VideoPlayer'
+import { EmojiPicker } from './EmojiPicker'
+import { StickerImage } from './StickerImage'
+import { StickerPackModal } from './StickerPackModal'
+import { Markdown } from './Markdown'
+import { MessageEmbeds } from './MessageEmbeds'
+import { VoicePlayer } from './VoicePlayer'
+import { PinnedMessagesPanel } from './PinnedMessagesPanel'
+import { UploadTray } from './UploadTray'
+import { CustomEmojiImage, EmojiGlyph } from './CustomEmoji'
+import { toPlainText } from '../lib/markdown'
+import { attachmentLabel } from '../lib/attachments'
+import {
+  EVERYONE,
+  mentionsUser,
+  getMentionQuery,
+  encodeMentions,
+  decodeMentions,
+} from '../lib/mentions'
+import { getEmojiQuery, encodeCustomEmoji, decodeCustomEmoji } from '../lib/customEmoji'
+import { parseLegacySticker } from '../lib/legacyStickers'
 import type { Sticker } from '../api/stickers'
+import { VoiceRecorder, formatVoiceDuration } from '../lib/voice/VoiceRecorder'
+
+// Minimum gap between TYPING_START pings while the user keeps typing
+const TYPING_THROTTLE_MS = 5000
+
+// Shorter voice recordings are treated as an accidental tap
+const MIN_VOICE_DURATION_S = 0.5
+
+// Ack the conversation only when the user can actually see its latest messages
+function markReadIfVisible(container: HTMLElement | null, conversationId: string | null) {
+  if (!conversationId || !container) return
+  if (document.visibilityState !== 'visible' || !document.hasFocus()) return
+
+  const isNearBottom = container.scrollHeight - container.scrollTop - container.clientHeight < 150
+  if (isNearBottom) {
+    useMessagesStore.getState().markAsRead(conversationId)
+  }
+}
 
 type Props = {
   conversationId: string | null
@@ -22,36 +68,94 @@ type Props = {
 
 export function ChatArea({ conversationId, onConversationChange }: Props) {
   const [message, setMessage] = useState('')
-  const [pendingAttachments, setPendingAttachments] = useState<Attachment[]>([])
-  const [isUploading, setIsUploading] = useState(false)
+  // Only covers voice messages - files go through the upload queue
+  const [isSendingVoice, setIsSendingVoice] = useState(false)
   const [showAddModal, setShowAddModal] = useState(false)
   const [showGroupSettings, setShowGroupSettings] = useState(false)
   const [showParticipants, setShowParticipants] = useState(false)
-  const [showFullCallView, setShowFullCallView] = useState(false)
+  const [showPins, setShowPins] = useState(false)
+  // Call the user shrank to the bar - every newly joined call opens full
+  const [minimizedCallId, setMinimizedCallId] = useState<string | null>(null)
   const [selectedUser, setSelectedUser] = useState<User | null>(null)
   const [popupPosition, setPopupPosition] = useState({ top: 0, left: 0 })
-  const [newMessagesCount, setNewMessagesCount] = useState(0)
+  // Last message seen at the bottom of the list; the badge counts others' messages after it
+  const [seenMessageId, setSeenMessageId] = useState<string | null>(null)
+  const [isNearBottom, setIsNearBottom] = useState(true)
   const [messageMenuId, setMessageMenuId] = useState<string | null>(null)
   const [menuPosition, setMenuPosition] = useState<'bottom' | 'top'>('bottom')
-  const [previewImage, setPreviewImage] = useState<{ attachment: Attachment; message: Message } | null>(null)
+  const [previewImage, setPreviewImage] = useState<PreviewImage | null>(null)
   const [isDragging, setIsDragging] = useState(false)
-  const [showStickerPicker, setShowStickerPicker] = useState(false)
+  // Hold-to-record voice message in progress
+  const [isRecording, setIsRecording] = useState(false)
+  const [recordingElapsed, setRecordingElapsed] = useState(0)
+  const [showEmojiPicker, setShowEmojiPicker] = useState(false)
+  // Full emoji picker for a message's reactions, placed next to its button.
+  // The position outlives the message id so the panel doesn't jump while closing
+  const [reactionPicker, setReactionPicker] = useState<{ messageId: string | null; style: React.CSSProperties }>({
+    messageId: null,
+    style: {},
+  })
+  // Who reacted to a message, opened on one emoji's tab or on all of them
+  const [reactionsPopover, setReactionsPopover] = useState<{
+    messageId: string | null
+    emoji: string | null
+    style: React.CSSProperties
+  }>({ messageId: null, emoji: null, style: {} })
+  const [forwardingMessage, setForwardingMessage] = useState<Message | null>(null)
+  const [openStickerPackId, setOpenStickerPackId] = useState<string | null>(null)
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null)
+  const [editContent, setEditContent] = useState('')
+  // @username -> userId picked from autocomplete, encoded as <@userId> on send
+  const [composerMentions, setComposerMentions] = useState<Record<string, string>>({})
+  const [editMentions, setEditMentions] = useState<Record<string, string>>({})
+  const [mentionQuery, setMentionQuery] = useState<{ query: string; start: number } | null>(null)
+  const [mentionIndex, setMentionIndex] = useState(0)
+  const [emojiQuery, setEmojiQuery] = useState<{ query: string; start: number } | null>(null)
+  const [emojiIndex, setEmojiIndex] = useState(0)
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null)
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null)
+  // Jump target that wasn't within the pages loadUntilMessage walks; tied to its conversation
+  const [farJump, setFarJump] = useState<{ conversationId: string; messageId: string } | null>(null)
+  // Read state snapshot taken when the conversation is opened, drives the "new messages" divider
+  const [unreadMarker, setUnreadMarker] = useState<{
+    lastReadId: string | null
+    lastMessageId: string | null
+    count: number
+  } | null>(null)
   const dragCounterRef = useRef(0)
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const messagesContainerRef = useRef<HTMLDivElement>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const composerRef = useRef<HTMLInputElement>(null)
+  const highlightTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const recorderRef = useRef<VoiceRecorder | null>(null)
+  const recordingTimerRef = useRef<ReturnType<typeof setInterval> | null>(null)
+  // Live input level is written straight to the DOM - too frequent for React state
+  const recordingLevelRef = useRef<HTMLDivElement>(null)
+  const lastTypingSentRef = useRef(0)
   const prevMessagesLengthRef = useRef<number>(0)
+  const prevLastMessageIdRef = useRef<string | null>(null)
+  // Scroll metrics captured before an older page is prepended, used to keep the view anchored
+  const scrollAnchorRef = useRef<{ height: number; top: number; firstId: string } | null>(null)
   const prevConversationIdRef = useRef<string | null>(null)
   const { user } = useAuthStore()
   const {
+    conversations,
     currentConversation,
-    messages,
     isLoading,
     selectConversation,
     sendMessage,
+    retryMessage,
+    discardMessage,
+    sendTyping,
+    editMessage,
     deleteMessage,
     addReaction,
     removeReaction,
+    loadOlderMessages,
+    loadUntilMessage,
+    setPendingJump,
+    markAsRead,
     uploadAttachment,
     uploadGroupAvatar,
     updateGroupName,
@@ -59,24 +163,52 @@ export function ChatArea({ conversationId, onConversationChange }: Props) {
     addParticipants,
     openDM,
   } = useMessagesStore()
+  const messages = useMessagesStore(selectCurrentMessages)
+  const currentCache = useMessagesStore(selectCurrentCache)
+  const typingUserIds = useTypingStore((state) =>
+    conversationId ? state.typing[conversationId] : undefined
+  )
+  const { showLinkPreviews, compressImages } = useUserSettings()
+  const allUploads = useUploadStore((s) => s.uploads)
+  const addFiles = useUploadStore((s) => s.addFiles)
+  const uploads = allUploads.filter((u) => u.conversationId === conversationId)
+  const hasActiveUploads = uploads.some((u) => u.status === 'queued' || u.status === 'uploading')
+  const hasCompletedUploads = uploads.some((u) => u.status === 'done')
+  const pinnedCount = usePinsStore((state) =>
+    conversationId ? state.pins[conversationId]?.length : undefined
+  )
+  const { pins, loadPins, pinMessage, unpinMessage } = usePinsStore()
+  const customEmojis = useEmojiStore((s) => s.emojis)
+  const knownUsers = useUsersStore((s) => s.users)
+  // What `:name:` can refer to here, this group's emoji first
+  const availableEmojis = usableEmojis(customEmojis, conversationId)
+  const hasMore = currentCache?.hasMore ?? false
+  const isLoadingOlder = currentCache?.isLoadingOlder ?? false
 
   // Owner can edit, or if no owner is set (legacy groups), any participant can edit
   const isGroupOwner = currentConversation?.type === 'group' &&
     (currentConversation?.owner_id === user?.id || !currentConversation?.owner_id)
 
+  // Anyone in a DM; in groups the owner or the message's author
+  const canPin = (msg: Message) =>
+    currentConversation?.type !== 'group' || isGroupOwner || msg.sender_id === user?.id
+
   const { myCall, calls, startCall } = useCallStore()
   const isInCall = myCall?.conversationId === conversationId
   const callInfo = conversationId ? calls[conversationId] : null
   const hasActiveCall = !!callInfo
+  const showFullCallView = isInCall && myCall?.id !== minimizedCallId
 
-  // Auto-open full call view when joining a call, close when leaving
+  // Needed for :name: autocomplete and the picker
   useEffect(() => {
-    if (isInCall) {
-      setShowFullCallView(true)
-    } else {
-      setShowFullCallView(false)
-    }
-  }, [isInCall])
+    const { isLoaded, loadEmojis } = useEmojiStore.getState()
+    if (!isLoaded) loadEmojis()
+  }, [])
+
+  // Reactions name people by id - participants are the ones we already have
+  useEffect(() => {
+    if (currentConversation) useUsersStore.getState().remember(currentConversation.participants)
+  }, [currentConversation])
 
   // Load conversation when ID changes
   useEffect(() => {
@@ -85,43 +217,100 @@ export function ChatArea({ conversationId, onConversationChange }: Props) {
     }
   }, [conversationId, selectConversation])
 
-  // Clear badge when scrolled to bottom
-  useEffect(() => {
+  // Clear badge when scrolled to bottom, load history when scrolled near the top
+  const handleMessagesScroll = () => {
     const container = messagesContainerRef.current
     if (!container) return
 
-    const handleScroll = () => {
-      const isNearBottom = container.scrollHeight - container.scrollTop - container.clientHeight < 150
-      if (isNearBottom) {
-        setNewMessagesCount(0)
+    const nearBottom = container.scrollHeight - container.scrollTop - container.clientHeight < 150
+    setIsNearBottom(nearBottom)
+    if (nearBottom) {
+      setSeenMessageId(messages[messages.length - 1]?.id ?? null)
+      markReadIfVisible(container, conversationId)
+    }
+
+    if (container.scrollTop < 200 && hasMore && !isLoadingOlder && messages.length > 0) {
+      scrollAnchorRef.current = {
+        height: container.scrollHeight,
+        top: container.scrollTop,
+        firstId: messages[0].id,
       }
+      loadOlderMessages()
     }
+  }
 
-    container.addEventListener('scroll', handleScroll)
-    return () => container.removeEventListener('scroll', handleScroll)
-  }, [])
+  // Keep the viewport on the same messages after an older page is prepended
+  useLayoutEffect(() => {
+    const container = messagesContainerRef.current
+    const anchor = scrollAnchorRef.current
+    if (!container || !anchor || messages.length === 0) return
+    if (messages[0].id === anchor.firstId) return
+
+    container.scrollTop = anchor.top + (container.scrollHeight - anchor.height)
+    scrollAnchorRef.current = null
+  }, [messages])
+
+  // Per-conversation UI state starts over when another conversation opens.
+  // Done while rendering, keyed on the id, so the old state never paints
+  const [shownConversationId, setShownConversationId] = useState<string | null>(null)
+  if (conversationId && conversationId !== shownConversationId) {
+    setShownConversationId(conversationId)
+    setSeenMessageId(null)
+    setIsNearBottom(true)
+    setReplyingTo(null)
+    setEditingMessageId(null)
+    setShowPins(false)
+
+    const conv = conversations.find((c) => c.id === conversationId)
+    setUnreadMarker(conv?.unread_count
+      ? {
+          lastReadId: conv.last_read_message_id || null,
+          lastMessageId: conv.last_message?.id || null,
+          count: conv.unread_count,
+        }
+      : null)
+  }
 
   // Scroll to bottom when conversation changes
   useEffect(() => {
     if (conversationId && prevConversationIdRef.current !== conversationId) {
       prevConversationIdRef.current = conversationId
       prevMessagesLengthRef.current = 0
-      setNewMessagesCount(0)
+      prevLastMessageIdRef.current = null
+      scrollAnchorRef.current = null
+      lastTypingSentRef.current = 0
     }
   }, [conversationId])
 
+  // Pinned count for the header button
+  useEffect(() => {
+    if (conversationId && !usePinsStore.getState().pins[conversationId]) {
+      loadPins(conversationId)
+    }
+  }, [conversationId, loadPins])
+
   // Scroll to bottom when messages load/change
   useEffect(() => {
     const container = messagesContainerRef.current
     if (!container || messages.length === 0) return
 
     const isInitialLoad = prevMessagesLengthRef.current === 0
-    const newCount = messages.length - prevMessagesLengthRef.current
+    // Older pages are prepended, so only count what landed after the previous last message
+    const prevLastIndex = messages.findIndex((m) => m.id === prevLastMessageIdRef.current)
+    const newCount = prevLastIndex === -1
+      ? messages.length - prevMessagesLengthRef.current
+      : messages.length - prevLastIndex - 1
 
     if (isInitialLoad) {
-      // Initial load - always scroll to bottom instantly
+      // Initial load - jump to the unread divider if there is one, otherwise to the bottom
       setTimeout(() => {
-        container.scrollTop = container.scrollHeight
+        const divider = container.querySelector('[data-unread-divider]')
+        if (divider) {
+          divider.scrollIntoView({ block: 'center' })
+        } else {
+          container.scrollTop = container.scrollHeight
+        }
+        markReadIfVisible(container, conversationId)
       }, 0)
     } else if (newCount > 0) {
       // New messages arrived
@@ -129,53 +318,358 @@ export function ChatArea({ conversationId, onConversationChange }: Props) {
       const isOwnMessage = lastMessage?.sender_id === user?.id
       const isNearBottom = container.scrollHeight - container.scrollTop - container.clientHeight < 150
 
+      // Otherwise the badge picks them up - see newMessagesCount
       if (isOwnMessage || isNearBottom) {
         container.scrollTo({ top: container.scrollHeight, behavior: 'smooth' })
-        setNewMessagesCount(0)
-      } else {
-        setNewMessagesCount(prev => prev + newCount)
+        markReadIfVisible(container, conversationId)
       }
     }
 
     prevMessagesLengthRef.current = messages.length
-  }, [messages, user?.id])
+    prevLastMessageIdRef.current = messages[messages.length - 1].id
+  }, [messages, user?.id, conversationId])
+
+  // Catch up on the read marker when the window regains focus
+  useEffect(() => {
+    const handleFocus = () => markReadIfVisible(messagesContainerRef.current, conversationId)
+    window.addEventListener('focus', handleFocus)
+    document.addEventListener('visibilitychange', handleFocus)
+    return () => {
+      window.removeEventListener('focus', handleFocus)
+      document.removeEventListener('visibilitychange', handleFocus)
+    }
+  }, [conversationId])
+
+  // Clear pending highlight timer and drop an unfinished recording on unmount
+  useEffect(() => {
+    return () => {
+      if (highlightTimeoutRef.current) clearTimeout(highlightTimeoutRef.current)
+      if (recordingTimerRef.current) clearInterval(recordingTimerRef.current)
+      recorderRef.current?.cancel()
+    }
+  }, [])
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
-    setNewMessagesCount(0)
+    setSeenMessageId(messages[messages.length - 1]?.id ?? null)
+    if (conversationId) markAsRead(conversationId)
   }
 
+  // Own messages scroll the list down themselves, so only others' count
+  const seenIndex = messages.findIndex((m) => m.id === seenMessageId)
+  const newMessagesCount = isNearBottom || seenIndex === -1
+    ? 0
+    : messages.slice(seenIndex + 1).filter((m) => m.sender_id !== user?.id).length
+
+  // Every loaded image and video in the conversation, for stepping through in the preview
+  const galleryImages: PreviewImage[] = messages.flatMap((m) =>
+    (m.attachments || [])
+      .filter((a) => a.type === 'image' || a.type === 'video')
+      .map((attachment) => ({ attachment, sender: m.sender, sentAt: m.created_at }))
+  )
+
+  // Index of the first unread message, -1 when there's nothing to mark
+  const unreadDividerIndex = (() => {
+    if (!unreadMarker) return -1
+    const lastReadIndex = unreadMarker.lastReadId
+      ? messages.findIndex((m) => m.id === unreadMarker.lastReadId)
+      : -1
+    if (lastReadIndex !== -1) {
+      return lastReadIndex + 1 < messages.length ? lastReadIndex + 1 : -1
+    }
+    // Read marker is older than the loaded page - count back from the last message at open time
+    const lastIndex = messages.findIndex((m) => m.id === unreadMarker.lastMessageId)
+    if (lastIndex === -1) return -1
+    return Math.max(0, lastIndex - unreadMarker.count + 1)
+  })()
+
   const handleSend = async () => {
-    if (!message.trim() && pendingAttachments.length === 0) return
-    const content = message
-    const attachmentIds = pendingAttachments.map((a) => a.id)
+    if (!conversationId || hasActiveUploads) return
+    if (!message.trim() && !hasCompletedUploads) return
+    const content = encodeCustomEmoji(encodeMentions(message, composerMentions), availableEmojis)
+    const attachments = useUploadStore.getState().takeCompleted(conversationId)
+    const replyToId = replyingTo?.id
     setMessage('')
-    setPendingAttachments([])
-    await sendMessage(content, attachmentIds.length > 0 ? attachmentIds : undefined)
+    setReplyingTo(null)
+    setComposerMentions({})
+    setMentionQuery(null)
+    setEmojiQuery(null)
+    lastTypingSentRef.current = 0
+    await sendMessage(content, attachments.length > 0 ? attachments : undefined, replyToId)
   }
 
-  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = e.target.files
-    if (!files || files.length === 0) return
+  const startRecording = async () => {
+    if (recorderRef.current || isSendingVoice) return
+
+    const recorder = new VoiceRecorder(useCallStore.getState().noiseSuppression)
+    recorder.onLevel = (level) => {
+      if (recordingLevelRef.current) recordingLevelRef.current.style.transform = `scale(${1 + level * 0.8})`
+    }
+    recorderRef.current = recorder
+
+    setIsRecording(true)
+    setRecordingElapsed(0)
+    recordingTimerRef.current = setInterval(() => setRecordingElapsed(recorder.elapsed), 250)
 
-    setIsUploading(true)
     try {
-      for (const file of Array.from(files)) {
-        const attachment = await uploadAttachment(file)
-        if (attachment) {
-          setPendingAttachments((prev) => [...prev, attachment])
-        }
+      await recorder.start()
+    } catch (err) {
+      console.error('Failed to start voice recording:', err)
+      finishRecording(false)
+    }
+  }
+
+  // Released - send it; pointer slid off the button - throw it away
+  const finishRecording = async (send: boolean) => {
+    const recorder = recorderRef.current
+    if (!recorder) return
+    recorderRef.current = null
+    if (recordingTimerRef.current) {
+      clearInterval(recordingTimerRef.current)
+      recordingTimerRef.current = null
+    }
+    setIsRecording(false)
+
+    if (!send) {
+      recorder.cancel()
+      return
+    }
+
+    const recording = await recorder.stop()
+    if (!recording || recording.duration < MIN_VOICE_DURATION_S) return
+
+    setIsSendingVoice(true)
+    const file = new File([recording.blob], `voice-message-${Date.now()}.ogg`, { type: recording.blob.type })
+    const metadata = { duration: recording.duration, waveform: recording.waveform }
+    const attachment = await uploadAttachment(file, metadata)
+    setIsSendingVoice(false)
+    if (!attachment) {
+      // Keep the recording in the upload tray - retry there, then send like any file
+      if (conversationId) useUploadStore.getState().addFailed(conversationId, file, metadata)
+      return
+    }
+
+    const replyToId = replyingTo?.id
+    setReplyingTo(null)
+    await sendMessage('', [attachment], replyToId)
+  }
+
+  const startForward = (msg: Message) => {
+    setForwardingMessage(msg)
+    setMessageMenuId(null)
+  }
+
+  const startReply = (msg: Message) => {
+    setReplyingTo(msg)
+    setMessageMenuId(null)
+    composerRef.current?.focus()
+  }
+
+  // Scroll to a message and flash it, pulling older history in if it isn't loaded yet
+  const jumpToMessage = async (messageId: string) => {
+    const result = await loadUntilMessage(messageId)
+    if (result === 'too_far' && conversationId) setFarJump({ conversationId, messageId })
+    if (result !== 'loaded') return
+    setFarJump(null)
+
+    // Wait a frame so freshly loaded pages are in the DOM
+    requestAnimationFrame(() => {
+      const el = messagesContainerRef.current?.querySelector(`[data-message-id="${messageId}"]`)
+      el?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    })
+
+    setHighlightedMessageId(messageId)
+    if (highlightTimeoutRef.current) clearTimeout(highlightTimeoutRef.current)
+    highlightTimeoutRef.current = setTimeout(() => setHighlightedMessageId(null), 2000)
+  }
+
+  // Scroll to a message picked elsewhere (search) once its conversation has loaded
+  const pendingJump = useMessagesStore((state) => state.pendingJump)
+  const isCurrentLoaded = !!currentCache?.isLoaded
+  const onPendingJump = useEffectEvent((messageId: string) => jumpToMessage(messageId))
+  useEffect(() => {
+    if (!pendingJump || pendingJump.conversationId !== conversationId || !isCurrentLoaded) return
+    useMessagesStore.getState().setPendingJump(null)
+    onPendingJump(pendingJump.messageId)
+  }, [pendingJump, conversationId, isCurrentLoaded])
+
+  const startEditing = (msg: Message) => {
+    // Edit box shows @username, tokens go back in on save
+    const decoded = decodeMentions(msg.content, currentConversation?.participants || [])
+    setEditingMessageId(msg.id)
+    setEditContent(decodeCustomEmoji(decoded.text))
+    setEditMentions(decoded.picked)
+    setMessageMenuId(null)
+  }
+
+  const cancelEditing = () => {
+    setEditingMessageId(null)
+    setEditContent('')
+    setEditMentions({})
+  }
+
+  const handleSaveEdit = async () => {
+    if (!editingMessageId) return
+    const original = messages.find((m) => m.id === editingMessageId)
+    const content = encodeCustomEmoji(encodeMentions(editContent.trim(), editMentions), availableEmojis)
+    // Empty edit or no changes - just leave edit mode
+    if (!content || content === original?.content) {
+      cancelEditing()
+      return
+    }
+    const success = await editMessage(editingMessageId, content)
+    if (success) {
+      cancelEditing()
+    }
+  }
+
+  // Autocomplete entries for the @query under the caret
+  const mentionCandidates = (() => {
+    if (!mentionQuery || !currentConversation) return []
+    const query = mentionQuery.query.toLowerCase()
+    const users = currentConversation.participants
+      .filter((p) => p.id !== user?.id && p.username?.toLowerCase().startsWith(query))
+      .map((p) => ({ id: p.id, username: p.username!, user: p as User | null }))
+    if (currentConversation.type === 'group' && EVERYONE.startsWith(query)) {
+      users.push({ id: EVERYONE, username: EVERYONE, user: null })
+    }
+    return users.slice(0, 8)
+  })()
+
+  const selectMention = (candidate: (typeof mentionCandidates)[number]) => {
+    if (!mentionQuery) return
+    const caret = composerRef.current?.selectionStart ?? message.length
+    const inserted = `@${candidate.username} `
+    const next = message.slice(0, mentionQuery.start) + inserted + message.slice(caret)
+    setMessage(next)
+    if (candidate.user) {
+      setComposerMentions((prev) => ({ ...prev, [candidate.username]: candidate.id }))
+    }
+    setMentionQuery(null)
+
+    // Put the caret right after the inserted mention
+    const position = mentionQuery.start + inserted.length
+    requestAnimationFrame(() => {
+      composerRef.current?.focus()
+      composerRef.current?.setSelectionRange(position, position)
+    })
+  }
+
+  // Autocomplete entries for the :query under the caret
+  const emojiCandidates = emojiQuery
+    ? availableEmojis.filter((e) => e.name.toLowerCase().includes(emojiQuery.query.toLowerCase())).slice(0, 8)
+    : []
+
+  const selectEmoji = (emoji: (typeof emojiCandidates)[number]) => {
+    if (!emojiQuery) return
+    const caret = composerRef.current?.selectionStart ?? message.length
+    const inserted = `:${emoji.name}: `
+    setMessage(message.slice(0, emojiQuery.start) + inserted + message.slice(caret))
+    setEmojiQuery(null)
+
+    const position = emojiQuery.start + inserted.length
+    requestAnimationFrame(() => {
+      composerRef.current?.focus()
+      composerRef.current?.setSelectionRange(position, position)
+    })
+  }
+
+  const handleMentionClick = (mentioned: User, event: React.MouseEvent<HTMLElement>) => {
+    if (mentioned.id === user?.id) return
+    const rect = event.currentTarget.getBoundingClientRect()
+    setPopupPosition({ top: rect.bottom + 4, left: rect.left })
+    setSelectedUser(mentioned)
+  }
+
+  const handleComposerChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setMessage(e.target.value)
+    setMentionQuery(getMentionQuery(e.target.value, e.target.selectionStart ?? e.target.value.length))
+    setMentionIndex(0)
+    setEmojiQuery(getEmojiQuery(e.target.value, e.target.selectionStart ?? e.target.value.length))
+    setEmojiIndex(0)
+
+    // Throttled TYPING_START while there's something in the composer
+    const now = Date.now()
+    if (e.target.value.trim() && now - lastTypingSentRef.current > TYPING_THROTTLE_MS) {
+      lastTypingSentRef.current = now
+      sendTyping()
+    }
+  }
+
+  const handleComposerKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    // Autocomplete owns navigation keys while it's open
+    if (mentionCandidates.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault()
+        const step = e.key === 'ArrowDown' ? 1 : -1
+        setMentionIndex((i) => (i + step + mentionCandidates.length) % mentionCandidates.length)
+        return
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault()
+        selectMention(mentionCandidates[Math.min(mentionIndex, mentionCandidates.length - 1)])
+        return
       }
-    } finally {
-      setIsUploading(false)
-      if (fileInputRef.current) {
-        fileInputRef.current.value = ''
+      if (e.key === 'Escape') {
+        setMentionQuery(null)
+        return
+      }
+    }
+    if (emojiCandidates.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault()
+        const step = e.key === 'ArrowDown' ? 1 : -1
+        setEmojiIndex((i) => (i + step + emojiCandidates.length) % emojiCandidates.length)
+        return
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault()
+        selectEmoji(emojiCandidates[Math.min(emojiIndex, emojiCandidates.length - 1)])
+        return
+      }
+      if (e.key === 'Escape') {
+        setEmojiQuery(null)
+        return
+      }
+    }
+    if (e.key === 'Enter' && !e.shiftKey) {
+      handleSend()
+      return
+    }
+    if (e.key === 'Escape' && replyingTo) {
+      setReplyingTo(null)
+      return
+    }
+    // Up in an empty composer edits the last own message
+    if (e.key === 'ArrowUp' && !message && uploads.length === 0) {
+      const lastOwn = [...messages].reverse().find((m) => isEditable(m))
+      if (lastOwn) {
+        e.preventDefault()
+        startEditing(lastOwn)
       }
     }
   }
 
-  const removePendingAttachment = (id: string) => {
-    setPendingAttachments((prev) => prev.filter((a) => a.id !== id))
+  const queueFiles = (files: File[]) => {
+    if (!conversationId || files.length === 0) return
+    addFiles(conversationId, files, { compressImages })
+  }
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files
+    if (!files || files.length === 0) return
+    queueFiles(Array.from(files))
+    if (fileInputRef.current) {
+      fileInputRef.current.value = ''
+    }
+  }
+
+  // Screenshots and copied images go straight into the queue
+  const handleComposerPaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+    const images = Array.from(e.clipboardData.files).filter((f) => f.type.startsWith('image/'))
+    if (images.length === 0) return
+    e.preventDefault()
+    queueFiles(images)
   }
 
   const handleDragEnter = (e: React.DragEvent) => {
@@ -201,7 +695,7 @@ export function ChatArea({ conversationId, onConversationChange }: Props) {
     e.stopPropagation()
   }
 
-  const handleDrop = async (e: React.DragEvent) => {
+  const handleDrop = (e: React.DragEvent) => {
     e.preventDefault()
     e.stopPropagation()
     setIsDragging(false)
@@ -209,18 +703,7 @@ export function ChatArea({ conversationId, onConversationChange }: Props) {
 
     const files = e.dataTransfer.files
     if (!files || files.length === 0) return
-
-    setIsUploading(true)
-    try {
-      for (const file of Array.from(files)) {
-        const attachment = await uploadAttachment(file)
-        if (attachment) {
-          setPendingAttachments((prev) => [...prev, attachment])
-        }
-      }
-    } finally {
-      setIsUploading(false)
-    }
+    queueFiles(Array.from(files))
   }
 
   const handleAddParticipants = async (userIds: string[]) => {
@@ -262,23 +745,152 @@ export function ChatArea({ conversationId, onConversationChange }: Props) {
   }
 
   const handleStickerSelect = async (sticker: Sticker) => {
-    // Send sticker as a message with sticker info including CDN URL
-    // Format: [sticker|file_url|file_type|emoji]
-    const stickerContent = `[sticker|${sticker.file_url}|${sticker.file_type}|${sticker.emoji}]`
-    await sendMessage(stickerContent)
+    const replyToId = replyingTo?.id
+    setReplyingTo(null)
+    await sendMessage('', undefined, replyToId, sticker)
+  }
+
+  // Insert at the caret, picker stays open for more
+  const insertEmoji = (value: string) => {
+    // Custom emoji go in as `:name:` like typed ones
+    const emoji = decodeCustomEmoji(value)
+    const input = composerRef.current
+    const start = input?.selectionStart ?? message.length
+    const end = input?.selectionEnd ?? message.length
+    setMessage(message.slice(0, start) + emoji + message.slice(end))
+
+    const position = start + emoji.length
+    requestAnimationFrame(() => composerRef.current?.setSelectionRange(position, position))
+  }
+
+  const openReactionPicker = (messageId: string, event: React.MouseEvent<HTMLElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    const right = window.innerWidth - rect.right
+    // Open upwards unless the message is near the top of the screen
+    const style = rect.top > 440 ? { bottom: window.innerHeight - rect.top + 8, right } : { top: rect.bottom + 8, right }
+    setReactionPicker({ messageId, style })
+  }
+
+  const openReactionsPopover = (messageId: string, emoji: string | null, event: React.MouseEvent<HTMLElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    const left = Math.min(rect.left, window.innerWidth - 296)
+    // Open upwards unless the message is near the top of the screen
+    const style = rect.top > 380 ? { bottom: window.innerHeight - rect.top + 8, left } : { top: rect.bottom + 8, left }
+    setMessageMenuId(null)
+    setReactionsPopover({ messageId, emoji, style })
+  }
+
+  const closeReactionsPopover = () => setReactionsPopover((p) => ({ ...p, messageId: null }))
+
+  // Chip tooltip - people still being looked up (ids) or gone (null) are just counted
+  const reactionTooltip = (people: (User | null | string)[]) => {
+    const names = people.flatMap((p) => (p && typeof p !== 'string' ? [p.username] : []))
+    const rest = people.length - names.length
+    return rest > 0 ? [...names, `ещё ${rest}`].join(', ') : names.join(', ')
   }
 
-  // Parse sticker from message content
-  const parseStickerContent = (content: string) => {
-    const match = content.match(/^\[sticker\|(.+)\|(tgs|webm|webp|png)\|([^\]]+)\]$/)
-    if (match) {
-      return {
-        file_url: match[1],
-        file_type: match[2] as 'tgs' | 'webp' | 'png' | 'webm',
-        emoji: match[3],
+  // Only own plain text messages can be edited (not calls, pins or stickers)
+  const isEditable = (msg: Message) =>
+    !msg.local_status &&
+    msg.sender_id === user?.id &&
+    msg.type !== 'call' &&
+    msg.type !== 'pin' &&
+    msg.type !== 'sticker' &&
+    !msg.forwarded_from &&
+    !!msg.content &&
+    !parseLegacySticker(msg)
+
+  // When the content was last edited, if ever. Servers without edited_at only
+  // bump updated_at - allow a little slack there for the insert itself
+  const getEditedAt = (msg: Message) => {
+    if (msg.edited_at !== undefined) return msg.edited_at || undefined
+    return new Date(msg.updated_at).getTime() - new Date(msg.created_at).getTime() > 1000 ? msg.updated_at : undefined
+  }
+
+  const formatEditedAt = (timestamp: string) =>
+    new Date(timestamp).toLocaleString('ru-RU', {
+      day: '2-digit',
+      month: '2-digit',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+
+  // Short one-line description of a message for reply previews
+  const resolveUsername = (userId: string) =>
+    currentConversation?.participants.find((p) => p.id === userId)?.username
+
+  const getReplyPreview = (msg: Message) => {
+    if (msg.type === 'call') return 'Звонок'
+    if (msg.type === 'pin') return 'Закреплено сообщение'
+    if (msg.type === 'sticker' || parseLegacySticker(msg)) return 'Стикер'
+    if (msg.content) return toPlainText(msg.content, resolveUsername)
+    if (msg.attachments && msg.attachments.length > 0) return attachmentLabel(msg.attachments[0])
+    return 'Сообщение'
+  }
+
+  // Compact quote of the parent shown above a reply
+  const renderReplyQuote = (msg: Message) => {
+    if (!msg.reply_to_id) return null
+    const parent = messages.find((m) => m.id === msg.reply_to_id) || msg.reply_to
+
+    if (!parent) {
+      return (
+        <div className="flex items-center gap-2 mb-1 text-xs text-white/25 italic">
+          <span className="w-6 h-3 border-l-2 border-t-2 border-white/10 rounded-tl-md flex-shrink-0 translate-y-1" />
+          Сообщение удалено
+        </div>
+      )
+    }
+
+    return (
+      <button
+        onClick={() => jumpToMessage(parent.id)}
+        className="flex items-center gap-2 mb-1 max-w-full text-left text-xs group/quote"
+      >
+        <span className="w-6 h-3 border-l-2 border-t-2 border-white/10 rounded-tl-md flex-shrink-0 translate-y-1" />
+        <span className="w-4 h-4 rounded-full bg-white/[0.06] flex-shrink-0 flex items-center justify-center text-[9px] text-white/40 uppercase overflow-hidden">
+          {parent.sender?.avatar_url ? (
+            <img src={parent.sender.avatar_url} alt="" className="w-full h-full object-cover" />
+          ) : (
+            parent.sender?.username?.[0] || '?'
+          )}
+        </span>
+        <span className="text-white/50 font-medium flex-shrink-0">
+          {parent.sender?.username || 'Unknown'}
+        </span>
+        <span className="text-white/35 truncate group-hover/quote:text-white/60 transition-colors">
+          {getReplyPreview(parent)}
+        </span>
+      </button>
+    )
+  }
+
+  // "Переслано от X" above a forwarded copy; jumps to the original if we can see it
+  const renderForwardedFrom = (origin: ForwardedFrom) => {
+    const canOpen = conversations.some((c) => c.id === origin.conversation_id)
+    const openOriginal = () => {
+      if (origin.conversation_id === conversationId) {
+        jumpToMessage(origin.message_id)
+      } else {
+        setPendingJump({ conversationId: origin.conversation_id, messageId: origin.message_id })
+        onConversationChange?.(origin.conversation_id)
       }
     }
-    return null
+
+    return (
+      <button
+        onClick={openOriginal}
+        disabled={!canOpen}
+        className="flex items-center gap-1.5 mb-1 text-xs text-white/35 enabled:hover:text-white/60 transition-colors"
+      >
+        <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M15 15l6-6m0 0l-6-6m6 6H9a6 6 0 000 12h3" />
+        </svg>
+        Переслано от
+        <span className="font-medium text-white/50">{origin.sender?.username || 'удалённого пользователя'}</span>
+      </button>
+    )
   }
 
   // Format call duration
@@ -341,49 +953,91 @@ export function ChatArea({ conversationId, onConversationChange }: Props) {
     )
   }
 
-  const renderMessageContent = (content: string) => {
-    const sticker = parseStickerContent(content)
-    if (sticker) {
-      if (sticker.file_type === 'tgs') {
-        return (
-          <TgsPlayer
-            src={sticker.file_url}
-            size={160}
-            loop={true}
-            autoplay={true}
-            className="rounded-lg"
-          />
-        )
-      }
-      if (sticker.file_type === 'webm') {
-        return (
-          <video
-            src={sticker.file_url}
-            width={160}
-            height={160}
-            autoPlay
-            loop
-            muted
-            playsInline
-            className="w-40 h-40 object-contain rounded-lg"
-          />
-        )
-      }
-      return (
-        <img
-          src={sticker.file_url}
-          alt={sticker.emoji}
-          className="w-40 h-40 object-contain"
-        />
-      )
+  // Render "pinned a message" system message
+  const renderPinMessage = (msg: Message) => {
+    let pinData: PinMessageContent | null = null
+    try {
+      pinData = JSON.parse(msg.content) as PinMessageContent
+    } catch {
+      return null
     }
+    const messageId = pinData.message_id
+    // Whatever copy we have - the pinned message may be long out of the loaded history
+    const pinned =
+      messages.find((m) => m.id === messageId) ||
+      (conversationId ? pins[conversationId]?.find((m) => m.id === messageId) : undefined)
+
     return (
-      <p className="text-[15px] text-white/80 leading-relaxed whitespace-pre-wrap break-words">
-        {content}
-      </p>
+      <div className="flex items-center gap-2 text-sm text-white/40 min-w-0">
+        <svg className="w-4 h-4 text-white/30 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M14.25 3.75l6 6-2.25.75-3.75 3.75.75 3-1.5 1.5-8.25-8.25 1.5-1.5 3 .75 3.75-3.75.75-2.25zM9 15l-5.25 5.25" />
+        </svg>
+        {pinned ? (
+          <span className="min-w-0 truncate">закрепил(а) «{getReplyPreview(pinned)}».</span>
+        ) : (
+          <span>закрепил(а) сообщение.</span>
+        )}
+        <button onClick={() => jumpToMessage(messageId)} className="flex-shrink-0 text-blue-400 hover:underline">
+          Перейти
+        </button>
+      </div>
     )
   }
 
+  // Click opens the pack so it can be added to the collection
+  const renderStickerMessage = (msg: Message) => {
+    const legacy = parseLegacySticker(msg)
+    if (legacy) {
+      return <StickerImage sticker={legacy} size={160} className="rounded-lg" />
+    }
+    if (!msg.sticker) {
+      return <p className="text-sm text-white/30 italic">Стикер удалён</p>
+    }
+    const { sticker } = msg
+    return (
+      <button
+        onClick={() => setOpenStickerPackId(sticker.pack_id)}
+        className="block rounded-lg"
+        title={`${sticker.emoji} — открыть набор`}
+      >
+        <StickerImage sticker={sticker} size={160} className="rounded-lg" />
+      </button>
+    )
+  }
+
+  const renderMessageContent = (content: string, editedAt?: string) => {
+    return (
+      <Markdown
+        content={content}
+        users={currentConversation?.participants}
+        currentUserId={user?.id}
+        onMentionClick={handleMentionClick}
+        suffix={editedAt && (
+          <span
+            className="ml-1.5 text-[11px] text-white/25 select-none"
+            title={`Изменено ${formatEditedAt(editedAt)}`}
+          >
+            (изменено)
+          </span>
+        )}
+      />
+    )
+  }
+
+  // "X is typing…" line above the composer
+  const getTypingText = () => {
+    const names = (typingUserIds || [])
+      .filter((id) => id !== user?.id)
+      .map((id) => currentConversation?.participants.find((p) => p.id === id)?.username || 'Кто-то')
+    if (names.length === 0) return null
+    if (names.length === 1) return <><b className="text-white/60 font-medium">{names[0]}</b> печатает…</>
+    if (names.length === 2) {
+      return <><b className="text-white/60 font-medium">{names[0]}</b> и <b className="text-white/60 font-medium">{names[1]}</b> печатают…</>
+    }
+    return <>Несколько человек печатают…</>
+  }
+  const typingText = getTypingText()
+
   // Get the other participant for DM
   const otherUser = currentConversation?.participants.find((p) => p.id !== user?.id)
 
@@ -557,6 +1211,41 @@ export function ChatArea({ conversationId, onConversationChange }: Props) {
               </svg>
             </motion.button>
           )}
+          {conversationId && (
+            <div className="relative">
+              <motion.button
+                onClick={() => setShowPins(!showPins)}
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                className={`relative w-9 h-9 flex items-center justify-center rounded-xl transition-colors ${
+                  showPins
+                    ? 'text-white bg-white/[0.08]'
+                    : 'text-white/40 hover:text-white hover:bg-white/[0.06]'
+                }`}
+                title="Закреплённые сообщения"
+              >
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M14.25 3.75l6 6-2.25.75-3.75 3.75.75 3-1.5 1.5-8.25-8.25 1.5-1.5 3 .75 3.75-3.75.75-2.25zM9 15l-5.25 5.25" />
+                </svg>
+                {!!pinnedCount && (
+                  <span className="absolute top-1 right-1 min-w-[14px] h-[14px] px-0.5 rounded-full bg-white/20 text-[9px] leading-[14px] text-white font-medium tabular-nums">
+                    {pinnedCount}
+                  </span>
+                )}
+              </motion.button>
+              <AnimatePresence>
+                {showPins && (
+                  <PinnedMessagesPanel
+                    conversationId={conversationId}
+                    onClose={() => setShowPins(false)}
+                    onJump={jumpToMessage}
+                    canUnpin={canPin}
+                    getPreview={getReplyPreview}
+                  />
+                )}
+              </AnimatePresence>
+            </div>
+          )}
           <motion.button
             onClick={() => setShowAddModal(true)}
             whileHover={{ scale: 1.05 }}
@@ -594,7 +1283,7 @@ export function ChatArea({ conversationId, onConversationChange }: Props) {
         {showFullCallView && isInCall && conversationId ? (
           <CallView
             conversationId={conversationId}
-            onMinimize={() => setShowFullCallView(false)}
+            onMinimize={() => setMinimizedCallId(myCall?.id ?? null)}
           />
         ) : (
         <>
@@ -605,13 +1294,38 @@ export function ChatArea({ conversationId, onConversationChange }: Props) {
             {(isInCall || hasActiveCall) && conversationId && (
               <CallOverlay
                 conversationId={conversationId}
-                onExpand={() => setShowFullCallView(true)}
+                onExpand={() => setMinimizedCallId(null)}
               />
             )}
           </AnimatePresence>
 
+          {/* Jump target is further back than we load in one go */}
+          {farJump && farJump.conversationId === conversationId && (
+            <div className="flex items-center gap-3 px-6 py-2 border-b border-white/[0.04] bg-white/[0.02] text-xs text-white/50">
+              <span className="flex-1">Сообщение далеко в истории и ещё не загружено</span>
+              <button
+                onClick={() => jumpToMessage(farJump.messageId)}
+                disabled={isLoadingOlder}
+                className="text-blue-400 hover:underline disabled:opacity-40"
+              >
+                Искать дальше
+              </button>
+              <button onClick={() => setFarJump(null)} className="text-white/40 hover:text-white">
+                Скрыть
+              </button>
+            </div>
+          )}
+
           {/* Messages */}
-          <div ref={messagesContainerRef} className="flex-1 overflow-y-auto px-6 py-6">
+          <div ref={messagesContainerRef} onScroll={handleMessagesScroll} className="flex-1 overflow-y-auto px-6 py-6">
+            {/* History loading / start of conversation */}
+            {messages.length > 0 && (isLoadingOlder ? (
+              <div className="flex justify-center pb-4">
+                <div className="w-5 h-5 border-2 border-white/[0.06] border-t-white/40 rounded-full animate-spin" />
+              </div>
+            ) : !hasMore && (
+              <p className="text-center text-xs text-white/15 pb-6">Начало переписки</p>
+            ))}
             {messages.length === 0 ? (
               <motion.div
                 initial={{ opacity: 0, y: 10 }}
@@ -634,17 +1348,36 @@ export function ChatArea({ conversationId, onConversationChange }: Props) {
                   const timeDiff = prevMsg
                     ? new Date(msg.created_at).getTime() - new Date(prevMsg.created_at).getTime()
                     : Infinity
-                  const isGrouped = isSameSender && timeDiff < 5 * 60 * 1000 // 5 minutes
+                  const isGrouped = isSameSender && timeDiff < 5 * 60 * 1000 && !msg.reply_to_id && // 5 minutes
+                    msg.type !== 'pin' && prevMsg?.type !== 'pin'
                   const isOwnMessage = msg.sender_id === user?.id
                   const isAdmin = currentConversation?.owner_id === user?.id
 
                   return (
+                    <Fragment key={msg.nonce || msg.id}>
+                    {index === unreadDividerIndex && (
+                      <div data-unread-divider className="flex items-center gap-3 my-3">
+                        <div className="flex-1 h-px bg-rose-500/40" />
+                        <span className="text-[11px] font-medium uppercase tracking-wider text-rose-400">
+                          Новые сообщения
+                        </span>
+                        <div className="flex-1 h-px bg-rose-500/40" />
+                      </div>
+                    )}
                     <motion.div
-                      key={msg.id}
+                      data-message-id={msg.id}
                       initial={{ opacity: 0, y: 5 }}
                       animate={{ opacity: 1, y: 0 }}
                       transition={{ duration: 0.15 }}
-                      className={`group/message flex gap-3 relative -mx-3 px-3 py-1 rounded-lg hover:bg-white/[0.02] transition-colors ${isGrouped ? '' : 'mt-4'} ${index === 0 ? '!mt-0' : ''}`}
+                      className={`group/message flex gap-3 relative -mx-3 px-3 py-1 rounded-lg transition-colors ${
+                        msg.local_status === 'sending' || msg.local_status === 'queued' ? 'opacity-60' : ''
+                      } ${
+                        highlightedMessageId === msg.id
+                          ? 'bg-blue-500/10'
+                          : mentionsUser(msg, user)
+                            ? 'bg-amber-400/[0.06] hover:bg-amber-400/[0.08] shadow-[inset_2px_0_0] shadow-amber-400/60'
+                            : 'hover:bg-white/[0.02]'
+                      } ${isGrouped ? '' : 'mt-4'} ${index === 0 ? '!mt-0' : ''}`}
                     >
                       {/* Avatar - only show for first message in group */}
                       {!isGrouped ? (
@@ -659,6 +1392,7 @@ export function ChatArea({ conversationId, onConversationChange }: Props) {
                         <div className="w-9 flex-shrink-0" />
                       )}
                       <div className="min-w-0 flex-1">
+                        {renderReplyQuote(msg)}
                         {/* Header - only show for first message in group */}
                         {!isGrouped && (
                           <div className="flex items-baseline gap-3 mb-1">
@@ -673,24 +1407,62 @@ export function ChatArea({ conversationId, onConversationChange }: Props) {
                                 minute: '2-digit',
                               })}
                             </span>
+                            {msg.pinned && (
+                              <svg className="w-3.5 h-3.5 text-white/25 self-center" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+                                <title>Закреплено</title>
+                                <path strokeLinecap="round" strokeLinejoin="round" d="M14.25 3.75l6 6-2.25.75-3.75 3.75.75 3-1.5 1.5-8.25-8.25 1.5-1.5 3 .75 3.75-3.75.75-2.25zM9 15l-5.25 5.25" />
+                              </svg>
+                            )}
+                          </div>
+                        )}
+                        {msg.forwarded_from && renderForwardedFrom(msg.forwarded_from)}
+                        {editingMessageId === msg.id ? (
+                          <div>
+                            <input
+                              type="text"
+                              value={editContent}
+                              onChange={(e) => setEditContent(e.target.value)}
+                              onKeyDown={(e) => {
+                                if (e.key === 'Enter' && !e.shiftKey) {
+                                  e.preventDefault()
+                                  handleSaveEdit()
+                                } else if (e.key === 'Escape') {
+                                  cancelEditing()
+                                }
+                              }}
+                              autoFocus
+                              className="w-full bg-white/[0.04] border border-white/[0.1] rounded-lg px-3 py-2 text-[15px] text-white focus:outline-none focus:border-white/[0.2] transition-colors"
+                            />
+                            <p className="mt-1 text-[11px] text-white/30">
+                              Esc — <button onClick={cancelEditing} className="text-blue-400 hover:underline">отмена</button>
+                              {' • '}
+                              Enter — <button onClick={handleSaveEdit} className="text-blue-400 hover:underline">сохранить</button>
+                            </p>
                           </div>
+                        ) : msg.type === 'call' ? renderCallMessage(msg) : msg.type === 'pin' ? renderPinMessage(msg) : msg.type === 'sticker' || parseLegacySticker(msg) ? renderStickerMessage(msg) : msg.content && renderMessageContent(msg.content, getEditedAt(msg))}
+                        {showLinkPreviews && editingMessageId !== msg.id && msg.embeds && msg.embeds.length > 0 && (
+                          <MessageEmbeds
+                            embeds={msg.embeds}
+                            messageId={msg.id}
+                            createdAt={msg.created_at}
+                            onImageClick={(attachment) => setPreviewImage({ attachment, sender: msg.sender, sentAt: msg.created_at })}
+                          />
                         )}
-                        {msg.type === 'call' ? renderCallMessage(msg) : msg.content && renderMessageContent(msg.content)}
                         {msg.attachments && msg.attachments.length > 0 && (
                           <div className="mt-3 flex flex-wrap gap-2">
-                            {msg.attachments.map((attachment) => (
-                              attachment.type === 'image' ? (
-                                <button
+                            <ImageGallery
+                              images={msg.attachments.filter((a) => a.type === 'image')}
+                              onOpen={(attachment) => setPreviewImage({ attachment, sender: msg.sender, sentAt: msg.created_at })}
+                            />
+                            {msg.attachments.filter((a) => a.type !== 'image').map((attachment) => (
+                              attachment.type === 'audio' ? (
+                                <VoicePlayer key={attachment.id} attachment={attachment} />
+                              ) : attachment.type === 'video' ? (
+                                <VideoPlayer
                                   key={attachment.id}
-                                  onClick={() => setPreviewImage({ attachment, message: msg })}
-                                  className="block max-w-md group text-left"
-                                >
-                                  <img
-                                    src={attachment.url}
-                                    alt={attachment.filename}
-                                    className="rounded-xl max-h-80 object-contain border border-white/[0.04] group-hover:border-white/[0.1] transition-colors cursor-pointer"
-                                  />
-                                </button>
+                                  attachment={attachment}
+                                  onExpand={(video) => setPreviewImage({ attachment: video, sender: msg.sender, sentAt: msg.created_at })}
+                                />
                               ) : (
                                 <a
                                   key={attachment.id}
@@ -716,6 +1488,49 @@ export function ChatArea({ conversationId, onConversationChange }: Props) {
                           </div>
                         )}
 
+                        {/* Optimistic send state */}
+                        {msg.local_status === 'sending' && (
+                          <div className="mt-1 flex items-center gap-1.5 text-[11px] text-white/25">
+                            <div className="w-3 h-3 border-[1.5px] border-white/10 border-t-white/40 rounded-full animate-spin" />
+                            Отправка…
+                          </div>
+                        )}
+                        {msg.local_status === 'queued' && msg.nonce && (
+                          <div className="mt-1 flex items-center gap-1.5 text-[11px] text-white/25">
+                            <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                              <path strokeLinecap="round" strokeLinejoin="round" d="M12 6v6h4.5m4.5 0a9 9 0 11-18 0 9 9 0 0118 0z" />
+                            </svg>
+                            В очереди — отправится при подключении ·
+                            <button
+                              onClick={() => discardMessage(msg.conversation_id, msg.nonce!)}
+                              className="text-white/50 hover:text-white hover:underline"
+                            >
+                              отменить
+                            </button>
+                          </div>
+                        )}
+                        {msg.local_status === 'failed' && msg.nonce && (
+                          <div className="mt-1 flex items-center gap-2 text-[11px] text-rose-400">
+                            <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                              <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v3.75m9-.75a9 9 0 11-18 0 9 9 0 0118 0zm-9 3.75h.008v.008H12v-.008z" />
+                            </svg>
+                            Не отправлено —
+                            <button
+                              onClick={() => retryMessage(msg.conversation_id, msg.nonce!)}
+                              className="text-white/60 hover:text-white hover:underline"
+                            >
+                              повторить
+                            </button>
+                            /
+                            <button
+                              onClick={() => discardMessage(msg.conversation_id, msg.nonce!)}
+                              className="text-white/60 hover:text-white hover:underline"
+                            >
+                              удалить
+                            </button>
+                          </div>
+                        )}
+
                         {/* Reactions display */}
                         {msg.reactions && msg.reactions.length > 0 && (
                           <div className="mt-2 flex flex-wrap gap-1">
@@ -726,12 +1541,12 @@ export function ChatArea({ conversationId, onConversationChange }: Props) {
                                   acc[r.emoji] = { count: 0, users: [], hasOwn: false }
                                 }
                                 acc[r.emoji].count++
-                                acc[r.emoji].users.push(r.user?.username || 'Unknown')
+                                acc[r.emoji].users.push(r.user || knownUsers[r.user_id] || r.user_id)
                                 if (r.user_id === user?.id) {
                                   acc[r.emoji].hasOwn = true
                                 }
                                 return acc
-                              }, {} as Record<string, { count: number; users: string[]; hasOwn: boolean }>)
+                              }, {} as Record<string, { count: number; users: (User | null | string)[]; hasOwn: boolean }>)
                             ).map(([emoji, data]) => (
                               <motion.button
                                 key={emoji}
@@ -742,6 +1557,16 @@ export function ChatArea({ conversationId, onConversationChange }: Props) {
                                     addReaction(msg.id, emoji)
                                   }
                                 }}
+                                onContextMenu={(e) => {
+                                  e.preventDefault()
+                                  openReactionsPopover(msg.id, emoji, e)
+                                }}
+                                // Ids are people we haven't seen yet - look them up for the tooltip
+                                onMouseEnter={() => {
+                                  for (const u of data.users) {
+                                    if (typeof u === 'string') useUsersStore.getState().resolve(u)
+                                  }
+                                }}
                                 whileHover={{ scale: 1.1 }}
                                 whileTap={{ scale: 0.9 }}
                                 className={`flex items-center gap-1.5 px-2 py-1 rounded-lg text-sm transition-colors ${
@@ -749,9 +1574,9 @@ export function ChatArea({ conversationId, onConversationChange }: Props) {
                                     ? 'bg-blue-500/20 border border-blue-500/30 text-blue-300'
                                     : 'bg-white/[0.04] border border-transparent hover:bg-white/[0.08] text-white/60'
                                 }`}
-                                title={data.users.join(', ')}
+                                title={reactionTooltip(data.users)}
                               >
-                                <span>{emoji}</span>
+                                <EmojiGlyph value={emoji} size={18} />
                                 <span className="text-xs tabular-nums">{data.count}</span>
                               </motion.button>
                             ))}
@@ -759,6 +1584,9 @@ export function ChatArea({ conversationId, onConversationChange }: Props) {
                         )}
                       </div>
 
+                      {/* Hover actions - not available until the server confirms the message */}
+                      {!msg.local_status && (
+                      <>
                       {/* Quick reactions */}
                       <div className="absolute right-1/2 top-0 opacity-0 group-hover/message:opacity-100 transition-opacity">
                         <div className="flex items-center gap-0.5 p-1 bg-[#0a0a0a] border border-white/[0.06] rounded-lg">
@@ -773,6 +1601,17 @@ export function ChatArea({ conversationId, onConversationChange }: Props) {
                               {emoji}
                             </motion.button>
                           ))}
+                          <motion.button
+                            onClick={(e) => openReactionPicker(msg.id, e)}
+                            whileHover={{ scale: 1.2 }}
+                            whileTap={{ scale: 0.9 }}
+                            className="w-7 h-7 rounded-md flex items-center justify-center text-white/40 hover:text-white/70 hover:bg-white/[0.08] transition-colors"
+                            title="Другая реакция"
+                          >
+                            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                              <path strokeLinecap="round" strokeLinejoin="round" d="M12 4.5v15m7.5-7.5h-15" />
+                            </svg>
+                          </motion.button>
                         </div>
                       </div>
 
@@ -831,6 +1670,73 @@ export function ChatArea({ conversationId, onConversationChange }: Props) {
                                     Копировать ID
                                   </button>
 
+                                  {msg.type !== 'call' && msg.type !== 'pin' && (
+                                    <button
+                                      onClick={() => startReply(msg)}
+                                      className="w-full flex items-center gap-3 px-3 py-2 text-sm text-white/60 hover:text-white hover:bg-white/[0.04] transition-colors text-left"
+                                    >
+                                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+                                        <path strokeLinecap="round" strokeLinejoin="round" d="M9 15L3 9m0 0l6-6M3 9h12a6 6 0 010 12h-3" />
+                                      </svg>
+                                      Ответить
+                                    </button>
+                                  )}
+
+                                  {msg.type !== 'call' && msg.type !== 'pin' && (
+                                    <button
+                                      onClick={() => startForward(msg)}
+                                      className="w-full flex items-center gap-3 px-3 py-2 text-sm text-white/60 hover:text-white hover:bg-white/[0.04] transition-colors text-left"
+                                    >
+                                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+                                        <path strokeLinecap="round" strokeLinejoin="round" d="M15 15l6-6m0 0l-6-6m6 6H9a6 6 0 000 12h3" />
+                                      </svg>
+                                      Переслать
+                                    </button>
+                                  )}
+
+                                  {!msg.local_status && msg.type !== 'pin' && canPin(msg) && conversationId && (
+                                    <button
+                                      onClick={async () => {
+                                        setMessageMenuId(null)
+                                        if (msg.pinned) {
+                                          await unpinMessage(conversationId, msg.id)
+                                        } else {
+                                          await pinMessage(conversationId, msg)
+                                        }
+                                      }}
+                                      className="w-full flex items-center gap-3 px-3 py-2 text-sm text-white/60 hover:text-white hover:bg-white/[0.04] transition-colors text-left"
+                                    >
+                                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+                                        <path strokeLinecap="round" strokeLinejoin="round" d="M14.25 3.75l6 6-2.25.75-3.75 3.75.75 3-1.5 1.5-8.25-8.25 1.5-1.5 3 .75 3.75-3.75.75-2.25zM9 15l-5.25 5.25" />
+                                      </svg>
+                                      {msg.pinned ? 'Открепить' : 'Закрепить'}
+                                    </button>
+                                  )}
+
+                                  {msg.reactions && msg.reactions.length > 0 && (
+                                    <button
+                                      onClick={(e) => openReactionsPopover(msg.id, null, e)}
+                                      className="w-full flex items-center gap-3 px-3 py-2 text-sm text-white/60 hover:text-white hover:bg-white/[0.04] transition-colors text-left"
+                                    >
+                                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+                                        <path strokeLinecap="round" strokeLinejoin="round" d="M15.182 15.182a4.5 4.5 0 01-6.364 0M21 12a9 9 0 11-18 0 9 9 0 0118 0zM9.75 9.75c0 .414-.168.75-.375.75S9 10.164 9 9.75 9.168 9 9.375 9s.375.336.375.75zm-.375 0h.008v.015h-.008V9.75zm5.625 0c0 .414-.168.75-.375.75s-.375-.336-.375-.75.168-.75.375-.75.375.336.375.75zm-.375 0h.008v.015h-.008V9.75z" />
+                                      </svg>
+                                      Реакции
+                                    </button>
+                                  )}
+
+                                  {isEditable(msg) && (
+                                    <button
+                                      onClick={() => startEditing(msg)}
+                                      className="w-full flex items-center gap-3 px-3 py-2 text-sm text-white/60 hover:text-white hover:bg-white/[0.04] transition-colors text-left"
+                                    >
+                                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+                                        <path strokeLinecap="round" strokeLinejoin="round" d="M16.862 4.487l1.687-1.688a1.875 1.875 0 112.652 2.652L10.582 16.07a4.5 4.5 0 01-1.897 1.13L6 18l.8-2.685a4.5 4.5 0 011.13-1.897l8.932-8.931zm0 0L19.5 7.125M18 14v4.75A2.25 2.25 0 0115.75 21H5.25A2.25 2.25 0 013 18.75V8.25A2.25 2.25 0 015.25 6H10" />
+                                      </svg>
+                                      Редактировать
+                                    </button>
+                                  )}
+
                                   {!isOwnMessage && (
                                     <button
                                       onClick={() => {
@@ -865,7 +1771,10 @@ export function ChatArea({ conversationId, onConversationChange }: Props) {
                           </AnimatePresence>
                         </div>
                       </div>
+                      </>
+                      )}
                     </motion.div>
+                    </Fragment>
                   )
                 })}
               </div>
@@ -898,124 +1807,278 @@ export function ChatArea({ conversationId, onConversationChange }: Props) {
           </AnimatePresence>
 
           {/* Input */}
-          <div className="p-4 border-t border-white/[0.04]">
-            {/* Pending attachments preview */}
+          <div className="p-4 border-t border-white/[0.04] relative">
+            {/* Typing indicator */}
+            <AnimatePresence>
+              {typingText && (
+                <motion.div
+                  initial={{ opacity: 0, y: 4 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: 4 }}
+                  className="absolute -top-6 left-6 flex items-center gap-2 text-xs text-white/40"
+                >
+                  <span className="flex items-center gap-0.5">
+                    {[0, 1, 2].map((i) => (
+                      <motion.span
+                        key={i}
+                        animate={{ opacity: [0.3, 1, 0.3] }}
+                        transition={{ duration: 1, repeat: Infinity, delay: i * 0.15 }}
+                        className="w-1 h-1 rounded-full bg-white/60"
+                      />
+                    ))}
+                  </span>
+                  <span>{typingText}</span>
+                </motion.div>
+              )}
+            </AnimatePresence>
+
+            {/* Reply preview */}
             <AnimatePresence>
-              {pendingAttachments.length > 0 && (
+              {replyingTo && (
                 <motion.div
                   initial={{ opacity: 0, height: 0 }}
                   animate={{ opacity: 1, height: 'auto' }}
                   exit={{ opacity: 0, height: 0 }}
-                  className="flex flex-wrap gap-2 mb-3"
+                  className="flex items-center gap-3 mb-3 px-3 py-2 bg-white/[0.03] border-l-2 border-blue-400/60 rounded-lg"
                 >
-                  {pendingAttachments.map((attachment) => (
-                    <motion.div
-                      key={attachment.id}
-                      initial={{ opacity: 0, scale: 0.8 }}
-                      animate={{ opacity: 1, scale: 1 }}
-                      exit={{ opacity: 0, scale: 0.8 }}
-                      className="relative group"
-                    >
-                      {attachment.type === 'image' ? (
-                        <img
-                          src={attachment.url}
-                          alt={attachment.filename}
-                          className="h-20 w-20 object-cover rounded-xl border border-white/[0.06]"
-                        />
-                      ) : (
-                        <div className="h-20 w-20 bg-white/[0.03] border border-white/[0.06] rounded-xl flex items-center justify-center">
-                          <svg className="w-8 h-8 text-white/20" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
-                            <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 14.25v-2.625a3.375 3.375 0 00-3.375-3.375h-1.5A1.125 1.125 0 0113.5 7.125v-1.5a3.375 3.375 0 00-3.375-3.375H8.25m2.25 0H5.625c-.621 0-1.125.504-1.125 1.125v17.25c0 .621.504 1.125 1.125 1.125h12.75c.621 0 1.125-.504 1.125-1.125V11.25a9 9 0 00-9-9z" />
-                          </svg>
-                        </div>
-                      )}
-                      <motion.button
-                        onClick={() => removePendingAttachment(attachment.id)}
-                        whileHover={{ scale: 1.1 }}
-                        whileTap={{ scale: 0.9 }}
-                        className="absolute -top-2 -right-2 w-6 h-6 bg-rose-500 rounded-full flex items-center justify-center text-white text-xs opacity-0 group-hover:opacity-100 transition-opacity shadow-lg"
-                      >
-                        <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-                          <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
-                        </svg>
-                      </motion.button>
-                    </motion.div>
-                  ))}
+                  <svg className="w-4 h-4 text-white/30 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M9 15L3 9m0 0l6-6M3 9h12a6 6 0 010 12h-3" />
+                  </svg>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs text-white/40">
+                      Ответ <span className="text-white/70 font-medium">{replyingTo.sender?.username || 'Unknown'}</span>
+                    </p>
+                    <p className="text-sm text-white/50 truncate">{getReplyPreview(replyingTo)}</p>
+                  </div>
+                  <motion.button
+                    onClick={() => setReplyingTo(null)}
+                    whileHover={{ scale: 1.1 }}
+                    whileTap={{ scale: 0.9 }}
+                    className="w-6 h-6 rounded-full flex items-center justify-center text-white/30 hover:text-white/70 hover:bg-white/[0.06] transition-colors flex-shrink-0"
+                    title="Отменить ответ"
+                  >
+                    <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </motion.button>
                 </motion.div>
               )}
             </AnimatePresence>
 
+            {/* Upload queue */}
+            {conversationId && <UploadTray conversationId={conversationId} />}
+
             <div className="relative flex items-center">
               <input
                 type="file"
                 ref={fileInputRef}
                 onChange={handleFileSelect}
-                accept="image/*"
                 multiple
                 className="hidden"
               />
               <div className="absolute left-3 flex items-center gap-1">
                 <motion.button
                   onClick={() => fileInputRef.current?.click()}
-                  disabled={isUploading}
                   whileHover={{ scale: 1.05 }}
                   whileTap={{ scale: 0.95 }}
-                  className="w-8 h-8 flex items-center justify-center rounded-lg text-white/30 hover:text-white/60 hover:bg-white/[0.04] disabled:opacity-50 transition-colors"
+                  className="w-8 h-8 flex items-center justify-center rounded-lg text-white/30 hover:text-white/60 hover:bg-white/[0.04] transition-colors"
+                  title="Прикрепить файлы"
                 >
-                  {isUploading ? (
-                    <div className="w-5 h-5 border-2 border-white/10 border-t-white/40 rounded-full animate-spin" />
-                  ) : (
-                    <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
-                      <path strokeLinecap="round" strokeLinejoin="round" d="M2.25 15.75l5.159-5.159a2.25 2.25 0 013.182 0l5.159 5.159m-1.5-1.5l1.409-1.409a2.25 2.25 0 013.182 0l2.909 2.909m-18 3.75h16.5a1.5 1.5 0 001.5-1.5V6a1.5 1.5 0 00-1.5-1.5H3.75A1.5 1.5 0 002.25 6v12a1.5 1.5 0 001.5 1.5zm10.5-11.25h.008v.008h-.008V8.25zm.375 0a.375.375 0 11-.75 0 .375.375 0 01.75 0z" />
-                    </svg>
-                  )}
+                  <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M2.25 15.75l5.159-5.159a2.25 2.25 0 013.182 0l5.159 5.159m-1.5-1.5l1.409-1.409a2.25 2.25 0 013.182 0l2.909 2.909m-18 3.75h16.5a1.5 1.5 0 001.5-1.5V6a1.5 1.5 0 00-1.5-1.5H3.75A1.5 1.5 0 002.25 6v12a1.5 1.5 0 001.5 1.5zm10.5-11.25h.008v.008h-.008V8.25zm.375 0a.375.375 0 11-.75 0 .375.375 0 01.75 0z" />
+                  </svg>
                 </motion.button>
                 <div className="relative">
                   <motion.button
-                    onClick={() => setShowStickerPicker(!showStickerPicker)}
+                    onClick={() => setShowEmojiPicker(!showEmojiPicker)}
                     whileHover={{ scale: 1.05 }}
                     whileTap={{ scale: 0.95 }}
                     className={`w-8 h-8 flex items-center justify-center rounded-lg transition-colors ${
-                      showStickerPicker
+                      showEmojiPicker
                         ? 'text-white/70 bg-white/[0.08]'
                         : 'text-white/30 hover:text-white/60 hover:bg-white/[0.04]'
                     }`}
-                    title="Стикеры"
+                    title="Эмодзи и стикеры"
                   >
                     <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
                       <path strokeLinecap="round" strokeLinejoin="round" d="M15.182 15.182a4.5 4.5 0 01-6.364 0M21 12a9 9 0 11-18 0 9 9 0 0118 0zM9.75 9.75c0 .414-.168.75-.375.75S9 10.164 9 9.75 9.168 9 9.375 9s.375.336.375.75zm-.375 0h.008v.015h-.008V9.75zm5.625 0c0 .414-.168.75-.375.75s-.375-.336-.375-.75.168-.75.375-.75.375.336.375.75zm-.375 0h.008v.015h-.008V9.75z" />
                     </svg>
                   </motion.button>
-                  <StickerPicker
-                    isOpen={showStickerPicker}
-                    onClose={() => setShowStickerPicker(false)}
-                    onSelect={handleStickerSelect}
+                  <EmojiPicker
+                    isOpen={showEmojiPicker}
+                    onClose={() => setShowEmojiPicker(false)}
+                    onEmojiSelect={insertEmoji}
+                    conversationId={conversationId}
+                    onStickerSelect={handleStickerSelect}
                   />
                 </div>
               </div>
+              {/* @mention autocomplete */}
+              <AnimatePresence>
+                {mentionCandidates.length > 0 && (
+                  <motion.div
+                    initial={{ opacity: 0, y: 4 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0, y: 4 }}
+                    transition={{ duration: 0.1 }}
+                    className="absolute bottom-full left-0 right-0 mb-2 py-1.5 bg-[#111]/95 backdrop-blur-xl border border-white/[0.08] rounded-xl shadow-2xl z-20"
+                  >
+                    <div className="px-3 pt-1 pb-1.5 text-[11px] font-semibold tracking-widest text-white/30 uppercase">
+                      Участники
+                    </div>
+                    {mentionCandidates.map((candidate, i) => (
+                      <button
+                        key={candidate.id}
+                        // Keep focus in the composer
+                        onMouseDown={(e) => e.preventDefault()}
+                        onClick={() => selectMention(candidate)}
+                        onMouseEnter={() => setMentionIndex(i)}
+                        className={`w-full flex items-center gap-3 px-3 py-1.5 text-left transition-colors ${
+                          i === mentionIndex ? 'bg-white/[0.06]' : ''
+                        }`}
+                      >
+                        <div className="w-6 h-6 rounded-full bg-white/[0.06] flex items-center justify-center text-[10px] text-white/40 uppercase overflow-hidden flex-shrink-0">
+                          {candidate.user?.avatar_url ? (
+                            <img src={candidate.user.avatar_url} alt="" className="w-full h-full object-cover" />
+                          ) : candidate.user ? (
+                            candidate.username[0]
+                          ) : (
+                            '@'
+                          )}
+                        </div>
+                        <span className="text-sm text-white/80">
+                          {candidate.user ? candidate.username : '@everyone'}
+                        </span>
+                        {!candidate.user && (
+                          <span className="ml-auto text-xs text-white/30">Уведомить всех участников</span>
+                        )}
+                      </button>
+                    ))}
+                  </motion.div>
+                )}
+              </AnimatePresence>
+              {/* :emoji: autocomplete */}
+              <AnimatePresence>
+                {emojiCandidates.length > 0 && (
+                  <motion.div
+                    initial={{ opacity: 0, y: 4 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0, y: 4 }}
+                    transition={{ duration: 0.1 }}
+                    className="absolute bottom-full left-0 right-0 mb-2 py-1.5 bg-[#111]/95 backdrop-blur-xl border border-white/[0.08] rounded-xl shadow-2xl z-20"
+                  >
+                    <div className="px-3 pt-1 pb-1.5 text-[11px] font-semibold tracking-widest text-white/30 uppercase">
+                      Эмодзи
+                    </div>
+                    {emojiCandidates.map((candidate, i) => (
+                      <button
+                        key={candidate.id}
+                        // Keep focus in the composer
+                        onMouseDown={(e) => e.preventDefault()}
+                        onClick={() => selectEmoji(candidate)}
+                        onMouseEnter={() => setEmojiIndex(i)}
+                        className={`w-full flex items-center gap-3 px-3 py-1.5 text-left transition-colors ${
+                          i === emojiIndex ? 'bg-white/[0.06]' : ''
+                        }`}
+                      >
+                        <CustomEmojiImage id={candidate.id} name={candidate.name} size={24} />
+                        <span className="text-sm text-white/80">:{candidate.name}:</span>
+                        {candidate.conversation_id && (
+                          <span className="ml-auto text-xs text-white/30">Эмодзи группы</span>
+                        )}
+                      </button>
+                    ))}
+                  </motion.div>
+                )}
+              </AnimatePresence>
               <input
+                ref={composerRef}
                 type="text"
                 value={message}
-                onChange={(e) => setMessage(e.target.value)}
-                onKeyDown={(e) => e.key === 'Enter' && !e.shiftKey && handleSend()}
+                onChange={handleComposerChange}
+                onKeyDown={handleComposerKeyDown}
+                onPaste={handleComposerPaste}
+                onBlur={() => {
+                  setMentionQuery(null)
+                  setEmojiQuery(null)
+                }}
                 placeholder={`Сообщение ${currentConversation?.type === 'dm' ? '@' : '#'}${channelName}`}
                 className="w-full bg-white/[0.03] border border-white/[0.06] rounded-xl pl-[88px] pr-12 py-3.5 text-[15px] text-white placeholder-white/20 focus:outline-none focus:border-white/[0.12] focus:bg-white/[0.04] transition-all"
               />
+              {/* Recording indicator over the input */}
               <AnimatePresence>
-                {(message.trim() || pendingAttachments.length > 0) && (
+                {isRecording && (
+                  <motion.div
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    transition={{ duration: 0.1 }}
+                    className="absolute inset-0 pl-4 pr-14 flex items-center gap-3 bg-[#0c0c0c] border border-rose-500/30 rounded-xl pointer-events-none"
+                  >
+                    <span className="w-2.5 h-2.5 rounded-full bg-rose-500 animate-pulse flex-shrink-0" />
+                    <span className="text-sm text-white/80 tabular-nums">{formatVoiceDuration(recordingElapsed)}</span>
+                    <span className="flex-1 text-sm text-white/30 truncate text-right">
+                      Отпустите, чтобы отправить, уведите курсор — отменить
+                    </span>
+                  </motion.div>
+                )}
+              </AnimatePresence>
+              <AnimatePresence mode="popLayout">
+                {(message.trim() || uploads.length > 0) ? (
                   <motion.button
+                    key="send"
                     initial={{ opacity: 0, scale: 0.8 }}
                     animate={{ opacity: 1, scale: 1 }}
                     exit={{ opacity: 0, scale: 0.8 }}
                     onClick={handleSend}
+                    disabled={hasActiveUploads}
                     whileHover={{ scale: 1.05 }}
                     whileTap={{ scale: 0.95 }}
-                    className="absolute right-3 w-8 h-8 rounded-lg bg-white flex items-center justify-center text-[#050505]"
+                    className="absolute right-3 w-8 h-8 rounded-lg bg-white flex items-center justify-center text-[#050505] disabled:opacity-50"
+                    title={hasActiveUploads ? 'Дождитесь окончания загрузки' : 'Отправить'}
                   >
-                    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-                      <path strokeLinecap="round" strokeLinejoin="round" d="M6 12L3.269 3.126A59.768 59.768 0 0121.485 12 59.77 59.77 0 013.27 20.876L5.999 12zm0 0h7.5" />
-                    </svg>
+                    {hasActiveUploads ? (
+                      <div className="w-4 h-4 border-2 border-black/10 border-t-black/60 rounded-full animate-spin" />
+                    ) : (
+                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                        <path strokeLinecap="round" strokeLinejoin="round" d="M6 12L3.269 3.126A59.768 59.768 0 0121.485 12 59.77 59.77 0 013.27 20.876L5.999 12zm0 0h7.5" />
+                      </svg>
+                    )}
                   </motion.button>
+                ) : (
+                  <motion.div
+                    key="voice"
+                    initial={{ opacity: 0, scale: 0.8 }}
+                    animate={{ opacity: 1, scale: 1 }}
+                    exit={{ opacity: 0, scale: 0.8 }}
+                    className="absolute right-3 w-8 h-8"
+                  >
+                    <div
+                      ref={recordingLevelRef}
+                      className={`absolute inset-0 rounded-lg bg-rose-500/25 transition-transform duration-75 ${isRecording ? '' : 'hidden'}`}
+                    />
+                    <button
+                      onPointerDown={(e) => {
+                        if (e.button !== 0) return
+                        e.preventDefault()
+                        startRecording()
+                      }}
+                      onPointerUp={() => finishRecording(true)}
+                      onPointerLeave={() => finishRecording(false)}
+                      onContextMenu={(e) => e.preventDefault()}
+                      disabled={isSendingVoice}
+                      className={`relative w-8 h-8 flex items-center justify-center rounded-lg select-none touch-none transition-colors disabled:opacity-50 ${
+                        isRecording
+                          ? 'bg-rose-500 text-white'
+                          : 'text-white/30 hover:text-white/60 hover:bg-white/[0.04]'
+                      }`}
+                      title="Удерживайте для записи голосового сообщения"
+                    >
+                      <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+                        <path strokeLinecap="round" strokeLinejoin="round" d="M12 18.75a6 6 0 006-6v-1.5m-6 7.5a6 6 0 01-6-6v-1.5m6 7.5v3.75m-3.75 0h7.5M12 15.75a3 3 0 01-3-3V4.5a3 3 0 116 0v8.25a3 3 0 01-3 3z" />
+                      </svg>
+                    </button>
+                  </motion.div>
                 )}
               </AnimatePresence>
             </div>
@@ -1110,6 +2173,34 @@ export function ChatArea({ conversationId, onConversationChange }: Props) {
         />
       )}
 
+      {/* Reaction picker */}
+      <EmojiPicker
+        isOpen={!!reactionPicker.messageId}
+        onClose={() => setReactionPicker((p) => ({ ...p, messageId: null }))}
+        onEmojiSelect={(emoji) => {
+          if (reactionPicker.messageId) addReaction(reactionPicker.messageId, emoji)
+          setReactionPicker((p) => ({ ...p, messageId: null }))
+        }}
+        conversationId={conversationId}
+        className="fixed"
+        style={reactionPicker.style}
+      />
+
+      {/* Forward picker */}
+      <ForwardMessageModal message={forwardingMessage} onClose={() => setForwardingMessage(null)} />
+
+      {/* Who reacted */}
+      <ReactionsPopover
+        reactions={messages.find((m) => m.id === reactionsPopover.messageId)?.reactions || null}
+        initialEmoji={reactionsPopover.emoji}
+        style={reactionsPopover.style}
+        onClose={closeReactionsPopover}
+        onUserClick={(reacted, event) => {
+          closeReactionsPopover()
+          handleMentionClick(reacted, event)
+        }}
+      />
+
       {/* User profile popup */}
       {selectedUser && (
         <UserProfilePopup
@@ -1125,10 +2216,12 @@ export function ChatArea({ conversationId, onConversationChange }: Props) {
       <ImagePreviewModal
         isOpen={!!previewImage}
         onClose={() => setPreviewImage(null)}
-        attachment={previewImage?.attachment || null}
-        sender={previewImage?.message.sender}
-        sentAt={previewImage?.message.created_at}
+        image={previewImage}
+        gallery={galleryImages}
+        onNavigate={setPreviewImage}
       />
+
+      <StickerPackModal packId={openStickerPackId} onClose={() => setOpenStickerPackId(null)} />
     </div>
   )
 }
@@ -0,0 +1,41 @@
+import { useEffect } from 'react'
+import { useEmojiStore } from '../stores/emojiStore'
+import { parseCustomEmojiToken } from '../lib/customEmoji'
+
+type Props = {
+  id: string
+  // Shown as `:name:` while loading or when the emoji was deleted
+  name: string
+  // Pixel size; inline in text it scales with the font instead
+  size?: number
+}
+
+export function CustomEmojiImage({ id, name, size }: Props) {
+  const emoji = useEmojiStore((s) => s.known[id])
+  const resolve = useEmojiStore((s) => s.resolve)
+
+  useEffect(() => {
+    resolve(id)
+  }, [id, resolve])
+
+  if (!emoji) {
+    return <span className="text-white/40 text-sm">:{name}:</span>
+  }
+  return (
+    <img
+      src={emoji.file_url}
+      alt={`:${emoji.name}:`}
+      title={`:${emoji.name}:`}
+      draggable={false}
+      style={size ? { width: size, height: size } : undefined}
+      className={`object-contain ${size ? '' : 'inline-block w-[1.375em] h-[1.375em] align-text-bottom'}`}
+    />
+  )
+}
+
+// A reaction or picker value: Unicode emoji as text, `<:name:id>` as an image
+export function EmojiGlyph({ value, size }: { value: string; size: number }) {
+  const custom = parseCustomEmojiToken(value)
+  if (!custom) return <span style={{ fontSize: size * 0.85, lineHeight: 1 }}>{value}</span>
+  return <CustomEmojiImage id={custom.id} name={custom.name} size={size} />
+}
@@ -0,0 +1,213 @@
+import { useEffect, useRef, useState } from 'react'
+import { motion } from 'framer-motion'
+import type { CustomEmoji } from '../api/emoji'
+import { useEmojiStore } from '../stores/emojiStore'
+import { useAuthStore } from '../stores/authStore'
+import { EMOJI_NAME_PATTERN } from '../lib/customEmoji'
+import { CustomEmojiImage } from './CustomEmoji'
+
+const MAX_EMOJI_BYTES = 256 * 1024
+const EMOJI_FILE_TYPES = ['image/png', 'image/gif', 'image/webp', 'image/jpeg']
+
+type Props = {
+  // Group whose emoji to manage; personal emoji when left out
+  conversationId?: string
+  // Group members can only look
+  canManage?: boolean
+}
+
+// Suggest a name from the file: "Party Parrot.gif" -> "party_parrot"
+const nameFromFile = (file: File) =>
+  file.name
+    .replace(/\.[^.]+$/, '')
+    .toLowerCase()
+    .replace(/[^\w]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 32)
+
+export function CustomEmojiManager({ conversationId, canManage = true }: Props) {
+  const userId = useAuthStore((s) => s.user?.id)
+  const { emojis, isLoaded, loadEmojis, uploadEmoji, renameEmoji, deleteEmoji } = useEmojiStore()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [file, setFile] = useState<File | null>(null)
+  const [preview, setPreview] = useState<string | null>(null)
+  const [name, setName] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isUploading, setIsUploading] = useState(false)
+
+  const list = emojis.filter((e) =>
+    conversationId ? e.conversation_id === conversationId : !e.conversation_id && e.creator_id === userId
+  )
+  const nameTaken = list.some((e) => e.name === name)
+
+  useEffect(() => {
+    loadEmojis()
+  }, [loadEmojis])
+
+  // Free the previous preview when it's replaced or the manager closes
+  useEffect(() => {
+    return () => {
+      if (preview) URL.revokeObjectURL(preview)
+    }
+  }, [preview])
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0] || null
+    e.target.value = ''
+    if (!selected) return
+
+    if (!EMOJI_FILE_TYPES.includes(selected.type)) {
+      setError('Поддерживаются PNG, GIF, WebP и JPEG')
+      return
+    }
+    if (selected.size > MAX_EMOJI_BYTES) {
+      setError('Файл больше 256 КБ')
+      return
+    }
+    setError(null)
+    setFile(selected)
+    setPreview(URL.createObjectURL(selected))
+    if (!name) setName(nameFromFile(selected))
+  }
+
+  const handleUpload = async () => {
+    if (!file) return
+    if (!EMOJI_NAME_PATTERN.test(name)) {
+      setError('Название: от 2 до 32 латинских букв, цифр или _')
+      return
+    }
+    setIsUploading(true)
+    const emoji = await uploadEmoji(file, name, conversationId)
+    setIsUploading(false)
+    if (emoji) {
+      setFile(null)
+      setPreview(null)
+      setName('')
+      setError(null)
+    } else {
+      setError('Сервер не принял эмодзи')
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {canManage && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <input
+              type="file"
+              ref={fileInputRef}
+              onChange={handleFileChange}
+              accept={EMOJI_FILE_TYPES.join(',')}
+              className="hidden"
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="w-12 h-12 flex-shrink-0 bg-white/[0.03] border border-dashed border-white/[0.1] rounded-xl flex items-center justify-center text-white/30 hover:text-white/70 hover:border-white/[0.2] overflow-hidden transition-colors"
+              title="Выбрать картинку"
+            >
+              {preview ? (
+                <img src={preview} alt="" className="w-8 h-8 object-contain" />
+              ) : (
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M12 4.5v15m7.5-7.5h-15" />
+                </svg>
+              )}
+            </button>
+            <div className="flex-1 min-w-0 relative">
+              <span className="absolute left-4 top-1/2 -translate-y-1/2 text-white/30">:</span>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value.replace(/[^\w]/g, ''))}
+                placeholder="название"
+                maxLength={32}
+                className="w-full bg-white/[0.03] border border-white/[0.06] rounded-xl pl-7 pr-7 py-3 text-sm text-white placeholder-white/20 focus:outline-none focus:border-white/[0.15] transition-colors"
+              />
+              <span className="absolute right-4 top-1/2 -translate-y-1/2 text-white/30">:</span>
+            </div>
+            <motion.button
+              onClick={handleUpload}
+              disabled={!file || !name || nameTaken || isUploading}
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              className="px-5 py-3 bg-white text-[#050505] rounded-xl text-sm font-medium disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              {isUploading ? 'Загрузка…' : 'Добавить'}
+            </motion.button>
+          </div>
+          <p className={`text-xs ${error || nameTaken ? 'text-rose-400' : 'text-white/25'}`}>
+            {error || (nameTaken ? 'Такое название уже есть' : 'PNG, GIF, WebP или JPEG до 256 КБ. В сообщении пишется как :название:')}
+          </p>
+        </div>
+      )}
+
+      {!isLoaded ? (
+        <div className="py-6 flex justify-center">
+          <div className="w-6 h-6 border-2 border-white/10 border-t-white/40 rounded-full animate-spin" />
+        </div>
+      ) : list.length === 0 ? (
+        <p className="text-sm text-white/30">Эмодзи пока нет</p>
+      ) : (
+        <div className="grid grid-cols-2 gap-2">
+          {list.map((emoji) => (
+            <EmojiRow
+              key={emoji.id}
+              emoji={emoji}
+              canManage={canManage}
+              onRename={(value) => renameEmoji(emoji.id, value)}
+              onDelete={() => deleteEmoji(emoji.id)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function EmojiRow({ emoji, canManage, onRename, onDelete }: {
+  emoji: CustomEmoji
+  canManage: boolean
+  onRename: (name: string) => void
+  onDelete: () => void
+}) {
+  const [name, setName] = useState(emoji.name)
+
+  const commitName = () => {
+    if (!EMOJI_NAME_PATTERN.test(name)) setName(emoji.name)
+    else if (name !== emoji.name) onRename(name)
+  }
+
+  return (
+    <div className="group flex items-center gap-2 px-3 py-2 rounded-xl bg-white/[0.02] border border-white/[0.04]">
+      <CustomEmojiImage id={emoji.id} name={emoji.name} size={28} />
+      {canManage ? (
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value.replace(/[^\w]/g, ''))}
+          onBlur={commitName}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') e.currentTarget.blur()
+          }}
+          maxLength={32}
+          className="flex-1 min-w-0 bg-transparent text-sm text-white/80 focus:outline-none focus:bg-white/[0.04] rounded-md px-1"
+          title="Название"
+        />
+      ) : (
+        <span className="flex-1 min-w-0 text-sm text-white/60 truncate">:{emoji.name}:</span>
+      )}
+      {canManage && (
+        <button
+          onClick={onDelete}
+          className="w-6 h-6 rounded-md flex items-center justify-center text-white/20 hover:text-rose-400 hover:bg-rose-500/10 opacity-0 group-hover:opacity-100 transition-all"
+          title="Удалить эмодзи"
+        >
+          <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,415 @@
+import { useState, useEffect, useRef } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import type { Sticker } from '../api/stickers'
+import { useStickersStore } from '../stores/stickersStore'
+import { useEmojiStore, usableEmojis } from '../stores/emojiStore'
+import { usePickerStore, usePickerHistory } from '../stores/pickerStore'
+import { EMOJI_CATEGORIES, SKIN_TONES, searchEmoji, withSkinTone, type SkinTone } from '../lib/emoji'
+import { customEmojiToken, decodeCustomEmoji, parseCustomEmojiToken } from '../lib/customEmoji'
+import { StickerImage } from './StickerImage'
+import { EmojiGlyph } from './CustomEmoji'
+
+type Props = {
+  isOpen: boolean
+  onClose: () => void
+  // Unicode emoji, or a `<:name:id>` token for custom emoji
+  onEmojiSelect: (emoji: string) => void
+  // Leave out to hide the sticker tab (e.g. for reactions)
+  onStickerSelect?: (sticker: Sticker) => void
+  // Offers this group's custom emoji besides personal ones
+  conversationId?: string | null
+  // Panel placement - above the composer button by default
+  className?: string
+  style?: React.CSSProperties
+}
+
+type Tab = 'emoji' | 'stickers'
+
+type PickerItem = { kind: 'emoji'; char: string } | { kind: 'sticker'; sticker: Sticker }
+
+type Section = { id: string; label: string; items: PickerItem[] }
+
+const EMOJI_COLUMNS = 8
+const STICKER_COLUMNS = 5
+
+const emojiItems = (chars: string[]): PickerItem[] => chars.map((char) => ({ kind: 'emoji', char }))
+const stickerItems = (stickers: Sticker[]): PickerItem[] => stickers.map((sticker) => ({ kind: 'sticker', sticker }))
+
+export function EmojiPicker({ isOpen, onClose, onEmojiSelect, onStickerSelect, conversationId, className, style }: Props) {
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <div className="fixed inset-0 z-40" onClick={onClose} />
+
+          <motion.div
+            initial={{ opacity: 0, y: 10, scale: 0.95 }}
+            animate={{ opacity: 1, y: 0, scale: 1 }}
+            exit={{ opacity: 0, y: 10, scale: 0.95 }}
+            transition={{ duration: 0.15 }}
+            style={style}
+            className={`${className ?? 'absolute bottom-full mb-2 left-0'} z-50 w-[360px] bg-[#0f0f0f] border border-white/[0.08] rounded-2xl shadow-2xl overflow-hidden`}
+          >
+            <PickerPanel
+              onClose={onClose}
+              onEmojiSelect={onEmojiSelect}
+              onStickerSelect={onStickerSelect}
+              conversationId={conversationId}
+            />
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  )
+}
+
+// Mounted only while open, so search and highlight start fresh every time
+function PickerPanel({
+  onClose,
+  onEmojiSelect,
+  onStickerSelect,
+  conversationId,
+}: Pick<Props, 'onClose' | 'onEmojiSelect' | 'onStickerSelect' | 'conversationId'>) {
+  const { packs, isLoaded, isLoading: isFetching, loadPacks } = useStickersStore()
+  const customEmojis = useEmojiStore((s) => s.emojis)
+  const history = usePickerHistory()
+  const { recordEmoji, recordSticker, toggleFavoriteEmoji, toggleFavoriteSticker, setSkinTone } = usePickerStore()
+  const [tab, setTab] = useState<Tab>('emoji')
+  const [query, setQuery] = useState('')
+  const [activeIndex, setActiveIndex] = useState(0)
+  const [showTones, setShowTones] = useState(false)
+  const scrollRef = useRef<HTMLDivElement>(null)
+
+  const tone = history.skinTone
+  const columns = tab === 'emoji' ? EMOJI_COLUMNS : STICKER_COLUMNS
+  // Spinner only on the first load - later opens refresh in the background
+  const isLoadingStickers = tab === 'stickers' && !isLoaded && isFetching
+
+  useEffect(() => {
+    if (onStickerSelect) loadPacks()
+  }, [onStickerSelect, loadPacks])
+
+  const custom = usableEmojis(customEmojis, conversationId)
+  const customTokens = custom.map(customEmojiToken)
+  // Custom emoji from history only while they can be used here
+  const usable = (values: string[]) => values.filter((v) => !parseCustomEmojiToken(v) || customTokens.includes(v))
+
+  const sections = ((): Section[] => {
+    const trimmed = query.trim()
+
+    if (tab === 'emoji') {
+      if (trimmed) {
+        const matchingCustom = custom.filter((e) => e.name.toLowerCase().includes(trimmed.toLowerCase()))
+        return [{
+          id: 'results',
+          label: 'Результаты',
+          items: emojiItems([...matchingCustom.map(customEmojiToken), ...searchEmoji(trimmed).map((e) => e.char)]),
+        }]
+      }
+      return [
+        { id: 'favorites', label: 'Избранное', items: emojiItems(usable(history.favoriteEmoji)) },
+        { id: 'recent', label: 'Недавние', items: emojiItems(usable(history.recentEmoji)) },
+        { id: 'custom', label: 'Свои', items: emojiItems(customTokens) },
+        ...EMOJI_CATEGORIES.map((c) => ({ id: c.id, label: c.label, items: emojiItems(c.emoji.map((e) => e.char)) })),
+      ].filter((s) => s.items.length > 0)
+    }
+
+    if (trimmed) {
+      // Match the sticker's emoji directly or through emoji keywords
+      const matching = new Set(searchEmoji(trimmed).map((e) => e.char))
+      const seen = new Set<string>()
+      const results = packs
+        .flatMap((p) => p.stickers || [])
+        .filter((s) => {
+          if (seen.has(s.id)) return false
+          seen.add(s.id)
+          return (!!s.emoji && trimmed.includes(s.emoji)) || Array.from(matching).some((char) => s.emoji.includes(char))
+        })
+      return [{ id: 'results', label: 'Результаты', items: stickerItems(results) }]
+    }
+    return [
+      { id: 'favorites', label: 'Избранное', items: stickerItems(history.favoriteStickers) },
+      { id: 'recent', label: 'Недавние', items: stickerItems(history.recentStickers) },
+      ...packs.map((p) => ({ id: p.id, label: p.name, items: stickerItems(p.stickers || []) })),
+    ].filter((s) => s.items.length > 0)
+  })()
+
+  // Rows per section for up/down navigation - sections start on a new row
+  const rows: { start: number; length: number }[] = []
+  const sectionStarts: number[] = []
+  let itemCount = 0
+  for (const section of sections) {
+    sectionStarts.push(itemCount)
+    for (let i = 0; i < section.items.length; i += columns) {
+      rows.push({ start: itemCount + i, length: Math.min(columns, section.items.length - i) })
+    }
+    itemCount += section.items.length
+  }
+  const items = sections.flatMap((s) => s.items)
+  const active = Math.min(activeIndex, items.length - 1)
+
+  // Highlight from the keyboard and keep it in view
+  const moveTo = (index: number) => {
+    setActiveIndex(index)
+    requestAnimationFrame(() => {
+      scrollRef.current?.querySelector('[data-active="true"]')?.scrollIntoView({ block: 'nearest' })
+    })
+  }
+
+  const selectItem = (item: PickerItem) => {
+    if (item.kind === 'emoji') {
+      recordEmoji(item.char)
+      onEmojiSelect(withSkinTone(item.char, tone))
+    } else if (onStickerSelect) {
+      recordSticker(item.sticker)
+      onStickerSelect(item.sticker)
+      onClose()
+    }
+  }
+
+  const toggleFavorite = (item: PickerItem) => {
+    if (item.kind === 'emoji') toggleFavoriteEmoji(item.char)
+    else toggleFavoriteSticker(item.sticker)
+  }
+
+  const isFavorite = (item: PickerItem) =>
+    item.kind === 'emoji'
+      ? history.favoriteEmoji.includes(item.char)
+      : history.favoriteStickers.some((s) => s.id === item.sticker.id)
+
+  const switchTab = (next: Tab) => {
+    setTab(next)
+    setActiveIndex(0)
+    setShowTones(false)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      e.preventDefault()
+      onClose()
+      return
+    }
+    if (items.length === 0) return
+
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      selectItem(items[active])
+      return
+    }
+    if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+      // Leave the caret alone while the query is being edited
+      if (query && e.currentTarget.selectionStart !== query.length) return
+      e.preventDefault()
+      const step = e.key === 'ArrowRight' ? 1 : -1
+      moveTo(Math.max(0, Math.min(items.length - 1, active + step)))
+      return
+    }
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault()
+      const row = rows.findIndex((r) => active >= r.start && active < r.start + r.length)
+      const target = rows[row + (e.key === 'ArrowDown' ? 1 : -1)]
+      if (!target) return
+      const column = active - rows[row].start
+      moveTo(target.start + Math.min(column, target.length - 1))
+      return
+    }
+    if (e.key === 'Tab' && onStickerSelect) {
+      e.preventDefault()
+      switchTab(tab === 'emoji' ? 'stickers' : 'emoji')
+    }
+  }
+
+  const jumpTo = (sectionId: string) => {
+    scrollRef.current?.querySelector(`[data-section="${sectionId}"]`)?.scrollIntoView({ block: 'start' })
+  }
+
+  return (
+    <>
+      {/* Header */}
+      <div className="px-3 pt-3 pb-2 space-y-2 border-b border-white/[0.06]">
+        <div className="flex items-center gap-1">
+          {(['emoji', 'stickers'] as const)
+            .filter((t) => t === 'emoji' || onStickerSelect)
+            .map((t) => (
+              <button
+                key={t}
+                onClick={() => switchTab(t)}
+                className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${
+                  tab === t ? 'bg-white/[0.1] text-white' : 'text-white/40 hover:text-white/70 hover:bg-white/[0.04]'
+                }`}
+              >
+                {t === 'emoji' ? 'Эмодзи' : 'Стикеры'}
+              </button>
+            ))}
+          <div className="flex-1" />
+
+          {/* Skin tone */}
+          {tab === 'emoji' && (
+            <div className="relative">
+              <button
+                onClick={() => setShowTones(!showTones)}
+                className="w-7 h-7 rounded-md flex items-center justify-center hover:bg-white/[0.06] transition-colors"
+                title="Оттенок кожи"
+              >
+                {withSkinTone('👋', tone)}
+              </button>
+              {showTones && (
+                <div className="absolute right-0 top-full mt-1 z-10 flex gap-0.5 p-1 bg-[#0a0a0a] border border-white/[0.08] rounded-lg shadow-xl">
+                  {SKIN_TONES.map((_, i) => (
+                    <button
+                      key={i}
+                      onClick={() => {
+                        setSkinTone(i as SkinTone)
+                        setShowTones(false)
+                      }}
+                      className={`w-7 h-7 rounded-md flex items-center justify-center transition-colors ${
+                        i === tone ? 'bg-white/[0.1]' : 'hover:bg-white/[0.06]'
+                      }`}
+                    >
+                      {withSkinTone('👋', i as SkinTone)}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          <button
+            onClick={onClose}
+            className="w-7 h-7 rounded-md flex items-center justify-center text-white/30 hover:text-white/60 hover:bg-white/[0.06] transition-colors"
+          >
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value)
+            setActiveIndex(0)
+          }}
+          onKeyDown={handleKeyDown}
+          placeholder={tab === 'emoji' ? 'Найти эмодзи' : 'Найти стикер по эмодзи или слову'}
+          autoFocus
+          className="w-full bg-white/[0.03] border border-white/[0.06] rounded-lg px-3 py-2 text-sm text-white placeholder-white/25 focus:outline-none focus:border-white/[0.15] transition-colors"
+        />
+      </div>
+
+      {/* Grid */}
+      <div ref={scrollRef} className="h-[300px] overflow-y-auto p-2">
+        {isLoadingStickers ? (
+          <div className="h-full flex items-center justify-center">
+            <div className="w-6 h-6 border-2 border-white/10 border-t-white/40 rounded-full animate-spin" />
+          </div>
+        ) : items.length === 0 ? (
+          <div className="h-full flex flex-col items-center justify-center text-center text-white/30">
+            <p className="text-sm">{query.trim() ? 'Ничего не найдено' : 'Нет стикеров'}</p>
+            {!query.trim() && <p className="text-xs text-white/20 mt-1">Создайте свой набор в настройках</p>}
+          </div>
+        ) : (
+          sections.map((section, sectionIndex) => {
+            const start = sectionStarts[sectionIndex]
+            return (
+              <div key={section.id} data-section={section.id} className="mb-2">
+                <div className="px-1.5 py-1 text-[11px] font-medium text-white/30 truncate">{section.label}</div>
+                <div
+                  className="grid gap-0.5"
+                  style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}
+                >
+                  {section.items.map((item, i) => {
+                    const index = start + i
+                    const key = item.kind === 'emoji' ? item.char : item.sticker.id
+                    return (
+                      <button
+                        key={key}
+                        data-active={index === active}
+                        onClick={() => selectItem(item)}
+                        onMouseEnter={() => setActiveIndex(index)}
+                        onContextMenu={(e) => {
+                          e.preventDefault()
+                          toggleFavorite(item)
+                        }}
+                        className={`relative aspect-square rounded-lg flex items-center justify-center transition-colors ${
+                          index === active ? 'bg-white/[0.08]' : ''
+                        }`}
+                        title={`${item.kind === 'emoji' ? decodeCustomEmoji(item.char) : item.sticker.emoji} — ПКМ, чтобы ${
+                          isFavorite(item) ? 'убрать из избранного' : 'добавить в избранное'
+                        }`}
+                      >
+                        {item.kind === 'emoji' ? (
+                          <EmojiGlyph value={withSkinTone(item.char, tone)} size={28} />
+                        ) : (
+                          <LazySticker sticker={item.sticker} rootRef={scrollRef} />
+                        )}
+                      </button>
+                    )
+                  })}
+                </div>
+              </div>
+            )
+          })
+        )}
+      </div>
+
+      {/* Section shortcuts */}
+      {!query.trim() && items.length > 0 && (
+        <div className="px-2 py-1.5 border-t border-white/[0.06] flex gap-0.5 overflow-x-auto">
+          {sections.map((section) => (
+            <button
+              key={section.id}
+              onClick={() => jumpTo(section.id)}
+              className="flex-shrink-0 w-8 h-8 rounded-md flex items-center justify-center text-base text-white/50 hover:bg-white/[0.06] transition-colors"
+              title={section.label}
+            >
+              {section.id === 'favorites' ? (
+                '★'
+              ) : section.id === 'recent' ? (
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M12 6v6h4.5m4.5 0a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+              ) : tab === 'emoji' && section.id === 'custom' ? (
+                <EmojiGlyph value={customTokens[0]} size={20} />
+              ) : tab === 'emoji' ? (
+                EMOJI_CATEGORIES.find((c) => c.id === section.id)?.icon
+              ) : section.items[0]?.kind === 'sticker' ? (
+                <StickerImage sticker={section.items[0].sticker} size={24} animate={false} />
+              ) : null}
+            </button>
+          ))}
+        </div>
+      )}
+    </>
+  )
+}
+
+// Mount the sticker only while it's near the viewport - big packs would
+// otherwise start hundreds of players at once
+function LazySticker({ sticker, rootRef }: { sticker: Sticker; rootRef: React.RefObject<HTMLDivElement | null> }) {
+  const ref = useRef<HTMLDivElement>(null)
+  const [isVisible, setIsVisible] = useState(false)
+
+  useEffect(() => {
+    const element = ref.current
+    if (!element) return
+    const observer = new IntersectionObserver(
+      ([entry]) => setIsVisible(entry.isIntersecting),
+      { root: rootRef.current, rootMargin: '120px 0px' }
+    )
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [rootRef])
+
+  return (
+    <div ref={ref} className="w-full h-full p-1 flex items-center justify-center">
+      {isVisible ? (
+        <StickerImage sticker={sticker} size={56} animate={false} className="max-w-full max-h-full" />
+      ) : (
+        <div className="w-full h-full bg-white/[0.04] rounded-lg animate-pulse" />
+      )}
+    </div>
+  )
+}
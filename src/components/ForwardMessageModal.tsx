@@ -0,0 +1,252 @@
+import { useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import type { Conversation, Message } from '../api/messages'
+import { useMessagesStore, conversationTitle } from '../stores/messagesStore'
+import { useFriendsStore } from '../stores/friendsStore'
+import { useAuthStore } from '../stores/authStore'
+import { toPlainText } from '../lib/markdown'
+import { attachmentLabel } from '../lib/attachments'
+import { FriendOption, SelectionCheck } from './AddParticipantsModal'
+
+type Props = {
+  // Message to forward, null when closed
+  message: Message | null
+  onClose: () => void
+}
+
+export function ForwardMessageModal({ message, onClose }: Props) {
+  return (
+    <AnimatePresence>
+      {message && (
+        <>
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 bg-black/70 backdrop-blur-sm z-50"
+          />
+
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            transition={{ duration: 0.2 }}
+            className="fixed inset-0 z-50 flex items-center justify-center p-4"
+          >
+            <ForwardForm key={message.id} message={message} onClose={onClose} />
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  )
+}
+
+function ForwardForm({ message, onClose }: { message: Message; onClose: () => void }) {
+  const [query, setQuery] = useState('')
+  const [conversationIds, setConversationIds] = useState<string[]>([])
+  const [userIds, setUserIds] = useState<string[]>([])
+  const [comment, setComment] = useState('')
+  const [isSending, setIsSending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const { conversations, forwardMessage } = useMessagesStore()
+  const { friends } = useFriendsStore()
+  const { user } = useAuthStore()
+
+  const search = query.trim().toLowerCase()
+  const matches = (title: string) => !search || title.toLowerCase().includes(search)
+
+  // Friends we already have a DM with are listed as that conversation
+  const dmUserIds = new Set(
+    conversations.flatMap((c) => (c.type === 'dm' ? c.participants.filter((p) => p.id !== user?.id).map((p) => p.id) : []))
+  )
+  const shownConversations = conversations.filter((c) => matches(conversationTitle(c, user?.id)))
+  const shownFriends = friends.filter((f) => !dmUserIds.has(f.user.id) && matches(f.user.username || ''))
+  const selectedCount = conversationIds.length + userIds.length
+
+  const toggle = (setIds: typeof setConversationIds, id: string) =>
+    setIds((prev) => (prev.includes(id) ? prev.filter((i) => i !== id) : [...prev, id]))
+
+  const handleForward = async () => {
+    // Enter in the comment box can fire again while the first forward is going out
+    if (selectedCount === 0 || isSending) return
+    setIsSending(true)
+    setError(null)
+    const unreachedUserIds = await forwardMessage(message, { conversationIds, userIds }, comment)
+    setIsSending(false)
+    // Failed copies wait in their chats with a retry - only friends without a chat are left to try
+    if (unreachedUserIds.length === 0) return onClose()
+    setConversationIds([])
+    setUserIds(unreachedUserIds)
+    setError('Не удалось открыть чат с некоторыми друзьями')
+  }
+
+  // One line about what's being forwarded
+  const source = conversations.find((c) => c.id === message.conversation_id)
+  const preview =
+    message.type === 'sticker' ? 'Стикер'
+      : message.content ? toPlainText(message.content, (id) => source?.participants.find((p) => p.id === id)?.username)
+      : message.attachments && message.attachments.length > 0 ? attachmentLabel(message.attachments[0])
+      : 'Сообщение'
+  const author = message.forwarded_from ? message.forwarded_from.sender : message.sender
+
+  return (
+    <div
+      className="bg-[#0f0f0f] rounded-2xl w-full max-w-md border border-white/[0.06] shadow-2xl overflow-hidden"
+      onClick={(e) => e.stopPropagation()}
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between px-6 py-5 border-b border-white/[0.04]">
+        <h2 className="text-lg font-medium text-white">Переслать сообщение</h2>
+        <motion.button
+          onClick={onClose}
+          whileHover={{ scale: 1.1 }}
+          whileTap={{ scale: 0.9 }}
+          className="w-8 h-8 rounded-lg flex items-center justify-center text-white/30 hover:bg-white/[0.06] hover:text-white/60 transition-colors"
+        >
+          <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </motion.button>
+      </div>
+
+      {/* What's being forwarded */}
+      <div className="px-6 pt-4">
+        <div className="px-3 py-2 rounded-xl bg-white/[0.03] border-l-2 border-white/[0.15]">
+          <p className="text-xs text-white/50 font-medium">{author?.username || 'Удалённый пользователь'}</p>
+          <p className="text-sm text-white/40 truncate">{preview}</p>
+        </div>
+      </div>
+
+      {/* Search */}
+      <div className="px-6 pt-3">
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Поиск чатов и друзей"
+          autoFocus
+          className="w-full bg-white/[0.03] border border-white/[0.06] rounded-xl px-4 py-2.5 text-sm text-white placeholder-white/20 focus:outline-none focus:border-white/[0.15] transition-colors"
+        />
+      </div>
+
+      {/* Targets */}
+      <div className="max-h-80 overflow-y-auto p-3">
+        {shownConversations.length === 0 && shownFriends.length === 0 ? (
+          <p className="text-center py-12 text-white/30">Ничего не найдено</p>
+        ) : (
+          <div className="space-y-1">
+            {shownConversations.length > 0 && (
+              <p className="px-3 pt-1 pb-1 text-[11px] uppercase tracking-wider text-white/25">Чаты</p>
+            )}
+            {shownConversations.map((conversation) => (
+              <ConversationOption
+                key={conversation.id}
+                conversation={conversation}
+                title={conversationTitle(conversation, user?.id)}
+                userId={user?.id}
+                isSelected={conversationIds.includes(conversation.id)}
+                onToggle={() => toggle(setConversationIds, conversation.id)}
+              />
+            ))}
+
+            {shownFriends.length > 0 && (
+              <p className="px-3 pt-3 pb-1 text-[11px] uppercase tracking-wider text-white/25">Друзья</p>
+            )}
+            {shownFriends.map((friend) => (
+              <FriendOption
+                key={friend.user.id}
+                user={friend.user}
+                isSelected={userIds.includes(friend.user.id)}
+                onToggle={() => toggle(setUserIds, friend.user.id)}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Comment */}
+      <div className="px-6 pb-1">
+        <input
+          type="text"
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleForward()
+          }}
+          placeholder="Комментарий (необязательно)"
+          className="w-full bg-white/[0.03] border border-white/[0.06] rounded-xl px-4 py-2.5 text-sm text-white placeholder-white/20 focus:outline-none focus:border-white/[0.15] transition-colors"
+        />
+        {error && <p className="mt-2 text-xs text-rose-400">{error}</p>}
+      </div>
+
+      {/* Footer */}
+      <div className="px-6 py-4 border-t border-white/[0.04] mt-3 flex justify-end gap-3">
+        <motion.button
+          onClick={onClose}
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+          className="px-5 py-2.5 text-sm text-white/50 hover:text-white transition-colors"
+        >
+          Отмена
+        </motion.button>
+        <motion.button
+          onClick={handleForward}
+          disabled={selectedCount === 0 || isSending}
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+          className="px-5 py-2.5 bg-white text-[#050505] rounded-xl text-sm font-medium hover:bg-white/90 disabled:opacity-30 disabled:cursor-not-allowed transition-all flex items-center gap-2"
+        >
+          {isSending ? 'Отправка…' : 'Переслать'}
+          {selectedCount > 0 && (
+            <span className="bg-[#050505]/20 px-1.5 py-0.5 rounded text-xs">
+              {selectedCount}
+            </span>
+          )}
+        </motion.button>
+      </div>
+    </div>
+  )
+}
+
+function ConversationOption({ conversation, title, userId, isSelected, onToggle }: {
+  conversation: Conversation
+  title: string
+  userId: string | undefined
+  isSelected: boolean
+  onToggle: () => void
+}) {
+  const other = conversation.type === 'dm' ? conversation.participants.find((p) => p.id !== userId) : null
+  const avatarUrl = other ? other.avatar_url : conversation.avatar_url
+
+  return (
+    <motion.button
+      onClick={onToggle}
+      whileTap={{ scale: 0.98 }}
+      className={`w-full flex items-center gap-3 p-3 rounded-xl transition-all ${
+        isSelected
+          ? 'bg-white/[0.08] border border-white/[0.1]'
+          : 'hover:bg-white/[0.04] border border-transparent'
+      }`}
+    >
+      <div className={`w-10 h-10 flex-shrink-0 bg-white/[0.06] flex items-center justify-center text-sm text-white/40 uppercase overflow-hidden ${
+        other ? 'rounded-full' : 'rounded-xl'
+      }`}>
+        {avatarUrl ? (
+          <img src={avatarUrl} alt="" className="w-full h-full object-cover" />
+        ) : (
+          <span className="font-medium">{title[0] || '?'}</span>
+        )}
+      </div>
+
+      <div className="flex-1 min-w-0 text-left">
+        <p className="text-white text-sm font-medium truncate">{title}</p>
+        <p className="text-white/30 text-xs">
+          {other ? 'Личные сообщения' : `${conversation.participants.length} участников`}
+        </p>
+      </div>
+
+      <SelectionCheck isSelected={isSelected} />
+    </motion.button>
+  )
+}
@@ -1,6 +1,7 @@
 import { useState, useRef, useEffect } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import type { Conversation } from '../api/messages'
+import { CustomEmojiManager } from './CustomEmojiManager'
 
 type Props = {
   isOpen: boolean
@@ -110,7 +111,7 @@ export function GroupSettingsModal({
               </div>
 
               {/* Content */}
-              <div className="p-6 space-y-6">
+              <div className="p-6 space-y-6 max-h-[70vh] overflow-y-auto">
                 {/* Avatar */}
                 <div className="flex flex-col items-center gap-4">
                   <input
@@ -205,6 +206,14 @@ export function GroupSettingsModal({
                     <span className="text-sm text-white/30">{conversation.participants.length} участников</span>
                   </div>
                 </div>
+
+                {/* Group emoji */}
+                <div>
+                  <label className="block text-[11px] font-medium tracking-widest text-white/30 uppercase mb-3">
+                    Эмодзи группы
+                  </label>
+                  <CustomEmojiManager conversationId={conversation.id} canManage={isOwner} />
+                </div>
               </div>
 
               {/* Footer */}
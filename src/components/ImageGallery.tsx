@@ -0,0 +1,98 @@
+import { useState } from 'react'
+import type { Attachment } from '../api/messages'
+import { blurhashToDataUrl } from '../lib/blurhash'
+
+type Props = {
+  images: Attachment[]
+  onOpen: (attachment: Attachment) => void
+}
+
+// Bounding box for a single image, matches the old max-w-md / max-h-80
+const MAX_WIDTH = 448
+const MAX_HEIGHT = 320
+
+// Width of multi-image grids
+const GRID_WIDTH = 400
+
+function GalleryImage({ attachment, onOpen, className, style }: {
+  attachment: Attachment
+  onOpen: (attachment: Attachment) => void
+  className: string
+  style?: React.CSSProperties
+}) {
+  const [loaded, setLoaded] = useState(false)
+  const placeholder = attachment.blurhash ? blurhashToDataUrl(attachment.blurhash) : null
+
+  return (
+    <button
+      onClick={() => onOpen(attachment)}
+      style={{
+        ...style,
+        backgroundImage: placeholder && !loaded ? `url(${placeholder})` : undefined,
+      }}
+      className={`relative block overflow-hidden bg-white/[0.03] bg-cover bg-center border border-white/[0.04] hover:border-white/[0.1] transition-colors cursor-pointer ${className}`}
+    >
+      <img
+        src={attachment.url}
+        alt={attachment.filename}
+        loading="lazy"
+        onLoad={() => setLoaded(true)}
+        className={`w-full h-full object-cover transition-opacity duration-300 ${loaded ? 'opacity-100' : 'opacity-0'}`}
+      />
+    </button>
+  )
+}
+
+// One image keeps its proportions, several are cropped into a grid
+export function ImageGallery({ images, onOpen }: Props) {
+  if (images.length === 0) return null
+
+  if (images.length === 1) {
+    const image = images[0]
+
+    // Old uploads have no dimensions - nothing to reserve, let the image size itself
+    if (!image.width || !image.height) {
+      return (
+        <button onClick={() => onOpen(image)} className="block max-w-md group text-left">
+          <img
+            src={image.url}
+            alt={image.filename}
+            className="rounded-xl max-h-80 object-contain border border-white/[0.04] group-hover:border-white/[0.1] transition-colors cursor-pointer"
+          />
+        </button>
+      )
+    }
+
+    const scale = Math.min(1, MAX_WIDTH / image.width, MAX_HEIGHT / image.height)
+    return (
+      <GalleryImage
+        attachment={image}
+        onOpen={onOpen}
+        className="rounded-xl max-w-full"
+        style={{
+          width: Math.round(image.width * scale),
+          aspectRatio: `${image.width} / ${image.height}`,
+        }}
+      />
+    )
+  }
+
+  const columns = images.length <= 4 ? 2 : 3
+
+  return (
+    <div
+      className="grid gap-1 max-w-full rounded-xl overflow-hidden"
+      style={{ width: GRID_WIDTH, gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}
+    >
+      {images.map((image, i) => (
+        <GalleryImage
+          key={image.id}
+          attachment={image}
+          onOpen={onOpen}
+          // Three images: a wide one on top, two below
+          className={images.length === 3 && i === 0 ? 'col-span-2 aspect-[2/1]' : 'aspect-square'}
+        />
+      ))}
+    </div>
+  )
+}
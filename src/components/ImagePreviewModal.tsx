@@ -1,22 +1,56 @@
-import { useState } from 'react'
+import { useEffect, useEffectEvent, useState } from 'react'
 import { createPortal } from 'react-dom'
 import { motion, AnimatePresence } from 'framer-motion'
 import type { Attachment } from '../api/messages'
 import type { User } from '../api/auth'
 
+export type PreviewImage = {
+  attachment: Attachment
+  sender?: User | null
+  sentAt?: string
+}
+
 type Props = {
   isOpen: boolean
   onClose: () => void
-  attachment: Attachment | null
-  sender?: User | null
-  sentAt?: string
+  image: PreviewImage | null
+  // Everything the arrow keys can step through, in timeline order
+  gallery?: PreviewImage[]
+  onNavigate?: (image: PreviewImage) => void
 }
 
-export function ImagePreviewModal({ isOpen, onClose, attachment, sender, sentAt }: Props) {
+export function ImagePreviewModal({ isOpen, onClose, image, gallery = [], onNavigate }: Props) {
   const [zoom, setZoom] = useState(1)
   const [menuOpen, setMenuOpen] = useState(false)
 
-  if (!attachment) return null
+  // Embed images aren't part of the gallery - show them on their own
+  const galleryIndex = image ? gallery.findIndex((g) => g.attachment.id === image.attachment.id) : -1
+  const items = galleryIndex === -1 ? (image ? [image] : []) : gallery
+  const index = Math.max(0, galleryIndex)
+
+  const navigate = (delta: number) => {
+    const next = items[index + delta]
+    if (!next || !onNavigate) return
+    setZoom(1)
+    setMenuOpen(false)
+    onNavigate(next)
+  }
+
+  const onKeyDown = useEffectEvent((e: KeyboardEvent) => {
+    if (e.key === 'ArrowLeft') navigate(-1)
+    else if (e.key === 'ArrowRight') navigate(1)
+    else if (e.key === 'Escape') onClose()
+  })
+
+  useEffect(() => {
+    if (!isOpen) return
+    window.addEventListener('keydown', onKeyDown)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  }, [isOpen])
+
+  if (!image) return null
+  const { attachment, sender, sentAt } = image
+  const isVideo = attachment.type === 'video'
 
   const handleZoomIn = () => setZoom((z) => Math.min(z + 0.25, 3))
   const handleZoomOut = () => setZoom((z) => Math.max(z - 0.25, 0.5))
@@ -95,8 +129,8 @@ export function ImagePreviewModal({ isOpen, onClose, attachment, sender, sentAt
 
             {/* Right - Controls */}
             <div className="flex items-center gap-1">
-              {/* Zoom controls */}
-              <div className="flex items-center gap-1 mr-2 px-2 py-1 bg-white/[0.04] rounded-lg">
+              {/* Zoom controls - videos use the player's own fullscreen */}
+              <div className={`flex items-center gap-1 mr-2 px-2 py-1 bg-white/[0.04] rounded-lg ${isVideo ? 'hidden' : ''}`}>
                 <motion.button
                   onClick={handleZoomOut}
                   whileHover={{ scale: 1.1 }}
@@ -225,23 +259,66 @@ export function ImagePreviewModal({ isOpen, onClose, attachment, sender, sentAt
 
           {/* Image container - click outside closes */}
           <div
-            className="flex-1 flex items-center justify-center p-8 overflow-auto"
+            className="relative flex-1 flex items-center justify-center p-8 overflow-auto"
             onClick={onClose}
           >
+            {index > 0 && (
+              <motion.button
+                onClick={(e) => {
+                  e.stopPropagation()
+                  navigate(-1)
+                }}
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                className="absolute left-5 top-1/2 -translate-y-1/2 z-10 w-11 h-11 rounded-full flex items-center justify-center bg-white/[0.06] text-white/60 hover:text-white hover:bg-white/[0.12] transition-colors"
+                title="Предыдущее (←)"
+              >
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M15.75 19.5L8.25 12l7.5-7.5" />
+                </svg>
+              </motion.button>
+            )}
+            {index < items.length - 1 && (
+              <motion.button
+                onClick={(e) => {
+                  e.stopPropagation()
+                  navigate(1)
+                }}
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                className="absolute right-5 top-1/2 -translate-y-1/2 z-10 w-11 h-11 rounded-full flex items-center justify-center bg-white/[0.06] text-white/60 hover:text-white hover:bg-white/[0.12] transition-colors"
+                title="Следующее (→)"
+              >
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M8.25 4.5l7.5 7.5-7.5 7.5" />
+                </svg>
+              </motion.button>
+            )}
             <motion.div
+              key={attachment.id}
               initial={{ scale: 0.9, opacity: 0 }}
               animate={{ scale: 1, opacity: 1 }}
               transition={{ type: 'spring', damping: 25, stiffness: 300 }}
               onClick={(e) => e.stopPropagation()}
               className="flex items-center justify-center"
             >
-              <img
-                src={attachment.url}
-                alt={attachment.filename}
-                style={{ transform: `scale(${zoom})` }}
-                className="max-w-full max-h-[calc(100vh-200px)] object-contain rounded-lg shadow-2xl transition-transform duration-200 cursor-default"
-                draggable={false}
-              />
+              {isVideo ? (
+                <video
+                  src={attachment.url}
+                  poster={attachment.poster_url}
+                  controls
+                  autoPlay
+                  className="max-w-full max-h-[calc(100vh-200px)] rounded-lg shadow-2xl bg-black"
+                />
+              ) : (
+                <img
+                  src={attachment.url}
+                  alt={attachment.filename}
+                  style={{ transform: `scale(${zoom})` }}
+                  className="max-w-full max-h-[calc(100vh-200px)] object-contain rounded-lg shadow-2xl transition-transform duration-200 cursor-default"
+                  draggable={false}
+                />
+              )}
             </motion.div>
           </div>
 
@@ -252,7 +329,14 @@ export function ImagePreviewModal({ isOpen, onClose, attachment, sender, sentAt
             transition={{ delay: 0.1 }}
             className="px-5 py-3 bg-black/50 backdrop-blur-sm border-t border-white/[0.06] text-center"
           >
-            <p className="text-sm text-white/40 truncate">{attachment.filename}</p>
+            <p className="text-sm text-white/40 truncate">
+              {attachment.filename}
+              {items.length > 1 && (
+                <span className="ml-2 text-white/25 tabular-nums">
+                  {index + 1} / {items.length}
+                </span>
+              )}
+            </p>
           </motion.div>
         </motion.div>
       )}
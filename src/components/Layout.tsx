@@ -8,17 +8,25 @@ import { ChatArea } from './ChatArea'
 import { FriendsView } from './FriendsView'
 import { ActiveCallBar } from './ActiveCallBar'
 import { CommunitiesPage } from './CommunitiesPage'
+import { StickerPackModal } from './StickerPackModal'
 import { useGatewayStore } from '../stores/gatewayStore'
 import { useCallStore } from '../stores/callStore'
+import { useMessagesStore } from '../stores/messagesStore'
+
+// Title from index.html, prefixed with the unread count
+const BASE_TITLE = document.title
 
 export function Layout() {
-  const { conversationId: urlConversationId } = useParams()
+  const { conversationId: urlConversationId, packId: sharedPackId } = useParams()
   const navigate = useNavigate()
   const [isDM, setIsDM] = useState(true)
   const [showFriends, setShowFriends] = useState(false)
   const [showCommunities, setShowCommunities] = useState(false)
   const { connect, disconnect, isReady } = useGatewayStore()
   const { myCall } = useCallStore()
+  const totalUnread = useMessagesStore((state) =>
+    state.conversations.reduce((sum, c) => sum + (c.unread_count || 0), 0)
+  )
 
   // Derive selectedConversation from URL
   const selectedConversation = urlConversationId || null
@@ -27,6 +35,11 @@ export function Layout() {
   const isInCallButDifferentConversation = myCall &&
     myCall.conversationId !== selectedConversation
 
+  // Show total unread count in the browser tab
+  useEffect(() => {
+    document.title = totalUnread > 0 ? `(${totalUnread}) ${BASE_TITLE}` : BASE_TITLE
+  }, [totalUnread])
+
   // Connect to gateway on mount
   useEffect(() => {
     connect()
@@ -142,6 +155,8 @@ export function Layout() {
         {!showCommunities && <UserPanel />}
       </div>
 
+      {/* Shared sticker pack link */}
+      <StickerPackModal packId={sharedPackId || null} onClose={() => navigate('/')} />
     </div>
   )
 }
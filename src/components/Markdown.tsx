@@ -0,0 +1,159 @@
+import { useMemo, useState, type ReactNode } from 'react'
+import { parseMarkdown, UNKNOWN_USERNAME, type BlockNode, type InlineNode } from '../lib/markdown'
+import { highlightCode, type HighlightTokenType } from '../lib/highlight'
+import type { User } from '../api/auth'
+import { CustomEmojiImage } from './CustomEmoji'
+
+type MentionOptions = {
+  // Users the `<@userId>` tokens can refer to (conversation participants)
+  users?: User[]
+  currentUserId?: string
+  onMentionClick?: (user: User, event: React.MouseEvent<HTMLElement>) => void
+}
+
+type Props = MentionOptions & {
+  content: string
+  // Rendered inline at the end of the last paragraph (e.g. the "edited" marker)
+  suffix?: ReactNode
+}
+
+const tokenColors: Record<HighlightTokenType, string> = {
+  plain: '',
+  keyword: 'text-violet-300',
+  string: 'text-emerald-300',
+  comment: 'text-white/30 italic',
+  number: 'text-amber-300',
+}
+
+function Spoiler({ children }: { children: ReactNode }) {
+  const [revealed, setRevealed] = useState(false)
+
+  return (
+    <span
+      onClick={() => setRevealed(true)}
+      className={`rounded px-0.5 transition-colors ${
+        revealed ? 'bg-white/[0.08]' : 'bg-white/20 text-transparent cursor-pointer select-none [&_*]:invisible'
+      }`}
+      title={revealed ? undefined : 'Спойлер — нажмите, чтобы показать'}
+    >
+      {children}
+    </span>
+  )
+}
+
+function CodeBlock({ lang, code }: { lang: string | null; code: string }) {
+  const tokens = useMemo(() => highlightCode(code, lang), [code, lang])
+
+  return (
+    <div className="relative my-1 max-w-2xl">
+      {lang && (
+        <span className="absolute top-1.5 right-2.5 text-[10px] uppercase tracking-wider text-white/20 select-none">
+          {lang}
+        </span>
+      )}
+      <pre className="p-3 rounded-lg bg-black/40 border border-white/[0.06] overflow-x-auto text-[13px] leading-snug font-mono text-white/80 whitespace-pre">
+        <code>
+          {tokens.map((token, i) =>
+            token.type === 'plain' ? token.text : (
+              <span key={i} className={tokenColors[token.type]}>{token.text}</span>
+            )
+          )}
+        </code>
+      </pre>
+    </div>
+  )
+}
+
+const mentionClass = (isSelf: boolean) =>
+  `px-1 rounded font-medium transition-colors ${
+    isSelf ? 'bg-amber-400/20 text-amber-200' : 'bg-blue-500/15 text-blue-300 hover:bg-blue-500/25'
+  }`
+
+function renderInline(nodes: InlineNode[], mentions: MentionOptions): ReactNode[] {
+  return nodes.map((node, i) => {
+    switch (node.type) {
+      case 'text':
+        return node.text
+      case 'code':
+        return (
+          <code key={i} className="px-1 py-0.5 rounded bg-white/[0.06] font-mono text-[13px] text-white/90">
+            {node.text}
+          </code>
+        )
+      case 'link':
+        return (
+          <a
+            key={i}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-sky-400 hover:underline break-all"
+          >
+            {node.href}
+          </a>
+        )
+      case 'mention': {
+        const mentioned = mentions.users?.find((u) => u.id === node.userId)
+        if (!mentioned) {
+          return <span key={i} className={mentionClass(false)}>@{UNKNOWN_USERNAME}</span>
+        }
+        return (
+          <button
+            key={i}
+            onClick={(e) => mentions.onMentionClick?.(mentioned, e)}
+            className={mentionClass(mentioned.id === mentions.currentUserId)}
+          >
+            @{mentioned.username || UNKNOWN_USERNAME}
+          </button>
+        )
+      }
+      case 'everyone':
+        return <span key={i} className={mentionClass(true)}>@everyone</span>
+      case 'customEmoji':
+        return <CustomEmojiImage key={i} id={node.id} name={node.name} />
+      case 'bold':
+        return <strong key={i} className="font-semibold text-white/90">{renderInline(node.children, mentions)}</strong>
+      case 'italic':
+        return <em key={i}>{renderInline(node.children, mentions)}</em>
+      case 'strike':
+        return <s key={i} className="text-white/50">{renderInline(node.children, mentions)}</s>
+      case 'spoiler':
+        return <Spoiler key={i}>{renderInline(node.children, mentions)}</Spoiler>
+    }
+  })
+}
+
+function renderBlock(block: BlockNode, key: number, mentions: MentionOptions, suffix?: ReactNode) {
+  switch (block.type) {
+    case 'codeBlock':
+      return <CodeBlock key={key} lang={block.lang} code={block.code} />
+    case 'quote':
+      return (
+        <blockquote key={key} className="my-0.5 pl-3 border-l-[3px] border-white/15 text-white/60 whitespace-pre-wrap">
+          {renderInline(block.children, mentions)}
+          {suffix}
+        </blockquote>
+      )
+    case 'paragraph':
+      return (
+        <p key={key} className="whitespace-pre-wrap">
+          {renderInline(block.children, mentions)}
+          {suffix}
+        </p>
+      )
+  }
+}
+
+export function Markdown({ content, suffix, ...mentions }: Props) {
+  const blocks = useMemo(() => parseMarkdown(content), [content])
+  const lastIndex = blocks.length - 1
+  // Code blocks can't host inline content - put the suffix on its own line
+  const suffixInline = blocks[lastIndex]?.type !== 'codeBlock'
+
+  return (
+    <div className="text-[15px] text-white/80 leading-relaxed break-words">
+      {blocks.map((block, i) => renderBlock(block, i, mentions, i === lastIndex && suffixInline ? suffix : undefined))}
+      {!suffixInline && suffix}
+    </div>
+  )
+}
@@ -0,0 +1,123 @@
+import type { Attachment, Embed, EmbedMedia } from '../api/messages'
+
+type Props = {
+  embeds: Embed[]
+  messageId: string
+  createdAt: string
+  onImageClick: (attachment: Attachment) => void
+}
+
+const hostname = (url: string) => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '')
+  } catch {
+    return url
+  }
+}
+
+const fileName = (url: string) => {
+  try {
+    return decodeURIComponent(new URL(url).pathname.split('/').pop() || '') || url
+  } catch {
+    return url
+  }
+}
+
+// Shape an embedded image like an attachment so ImagePreviewModal can show it
+const toAttachment = (media: EmbedMedia, messageId: string, createdAt: string): Attachment => ({
+  id: `embed-${media.url}`,
+  message_id: messageId,
+  type: 'image',
+  url: media.url,
+  filename: fileName(media.url),
+  size: 0,
+  width: media.width,
+  height: media.height,
+  created_at: createdAt,
+})
+
+export function MessageEmbeds({ embeds, messageId, createdAt, onImageClick }: Props) {
+  const openImage = (media: EmbedMedia) => onImageClick(toAttachment(media, messageId, createdAt))
+
+  return (
+    <div className="mt-2 flex flex-col gap-2">
+      {embeds.map((embed, i) => {
+        const key = `${embed.url}-${i}`
+
+        if (embed.type === 'image' && embed.image) {
+          const image = embed.image
+          return (
+            <button key={key} onClick={() => openImage(image)} className="block max-w-md text-left group">
+              <img
+                src={image.url}
+                alt={embed.title || ''}
+                width={image.width}
+                height={image.height}
+                loading="lazy"
+                className="rounded-xl max-h-80 w-auto object-contain border border-white/[0.04] group-hover:border-white/[0.1] transition-colors cursor-pointer"
+              />
+            </button>
+          )
+        }
+
+        if (embed.type === 'video' && embed.video) {
+          return (
+            <video
+              key={key}
+              src={embed.video.url}
+              poster={embed.image?.url}
+              controls
+              preload="metadata"
+              className="max-w-md max-h-80 rounded-xl border border-white/[0.04] bg-black"
+            />
+          )
+        }
+
+        if (embed.type === 'audio' && embed.audio) {
+          return (
+            <div key={key} className="max-w-md px-4 py-3 bg-white/[0.03] border border-white/[0.04] rounded-xl">
+              <p className="text-sm text-white/70 truncate mb-2">{embed.title || hostname(embed.url)}</p>
+              <audio src={embed.audio.url} controls preload="metadata" className="w-full h-9" />
+            </div>
+          )
+        }
+
+        // Nothing worth a card - the link in the text is enough
+        if (!embed.title && !embed.description && !embed.image) return null
+
+        const image = embed.image
+        return (
+          <div
+            key={key}
+            className="max-w-md flex flex-col gap-1.5 pl-3 pr-4 py-3 bg-white/[0.03] border border-white/[0.04] border-l-[3px] border-l-white/15 rounded-lg"
+          >
+            <span className="text-xs text-white/40">{embed.site_name || hostname(embed.url)}</span>
+            {embed.title && (
+              <a
+                href={embed.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-sm font-medium text-sky-400 hover:underline line-clamp-2"
+              >
+                {embed.title}
+              </a>
+            )}
+            {embed.description && (
+              <p className="text-sm text-white/60 leading-snug line-clamp-3 whitespace-pre-line">{embed.description}</p>
+            )}
+            {image && (
+              <button onClick={() => openImage(image)} className="mt-1 block text-left">
+                <img
+                  src={image.url}
+                  alt=""
+                  loading="lazy"
+                  className="rounded-lg max-h-60 w-auto object-contain cursor-pointer"
+                />
+              </button>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
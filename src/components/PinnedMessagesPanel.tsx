@@ -0,0 +1,106 @@
+import { useEffect } from 'react'
+import { motion } from 'framer-motion'
+import { usePinsStore } from '../stores/pinsStore'
+import type { Message } from '../api/messages'
+
+type Props = {
+  conversationId: string
+  onClose: () => void
+  onJump: (messageId: string) => void
+  canUnpin: (message: Message) => boolean
+  // One-line description of a message (same as reply previews)
+  getPreview: (message: Message) => string
+}
+
+const EMPTY_PINS: Message[] = []
+
+export function PinnedMessagesPanel({ conversationId, onClose, onJump, canUnpin, getPreview }: Props) {
+  const pins = usePinsStore((state) => state.pins[conversationId]) || EMPTY_PINS
+  const isLoading = usePinsStore((state) => !!state.loading[conversationId])
+  const { loadPins, unpinMessage } = usePinsStore()
+
+  // Always refresh on open - the list may have changed while we weren't watching
+  useEffect(() => {
+    loadPins(conversationId)
+  }, [conversationId, loadPins])
+
+  return (
+    <>
+      <div className="fixed inset-0 z-40" onClick={onClose} />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: -5 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95, y: -5 }}
+        transition={{ duration: 0.15 }}
+        className="absolute right-0 top-full mt-2 z-50 w-96 max-h-[28rem] flex flex-col bg-[#0f0f0f] border border-white/[0.08] rounded-xl shadow-2xl overflow-hidden"
+      >
+        <div className="px-4 py-3 border-b border-white/[0.06] flex items-center justify-between">
+          <span className="text-sm font-medium text-white/80">Закреплённые сообщения</span>
+          {pins.length > 0 && <span className="text-xs text-white/30 tabular-nums">{pins.length}</span>}
+        </div>
+
+        <div className="flex-1 overflow-y-auto py-1.5">
+          {pins.length === 0 ? (
+            isLoading ? (
+              <div className="flex justify-center py-8">
+                <div className="w-5 h-5 border-2 border-white/[0.06] border-t-white/40 rounded-full animate-spin" />
+              </div>
+            ) : (
+              <p className="px-4 py-8 text-center text-sm text-white/30">
+                Здесь пока ничего нет
+              </p>
+            )
+          ) : (
+            pins.map((msg) => (
+              <div
+                key={msg.id}
+                onClick={() => {
+                  onJump(msg.id)
+                  onClose()
+                }}
+                className="group/pin flex items-start gap-3 px-4 py-2.5 cursor-pointer hover:bg-white/[0.04] transition-colors"
+              >
+                <div className="w-8 h-8 rounded-full bg-white/[0.04] flex-shrink-0 flex items-center justify-center text-xs text-white/30 uppercase overflow-hidden">
+                  {msg.sender?.avatar_url ? (
+                    <img src={msg.sender.avatar_url} alt="" className="w-full h-full object-cover" />
+                  ) : (
+                    msg.sender?.username?.[0] || '?'
+                  )}
+                </div>
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-baseline gap-2">
+                    <span className="text-sm font-medium text-white/70 truncate">
+                      {msg.sender?.username || 'Unknown'}
+                    </span>
+                    <span className="text-[11px] text-white/20 tabular-nums flex-shrink-0">
+                      {new Date(msg.created_at).toLocaleDateString('ru-RU', {
+                        day: '2-digit',
+                        month: '2-digit',
+                        year: 'numeric',
+                      })}
+                    </span>
+                  </div>
+                  <p className="text-sm text-white/50 line-clamp-2 break-words">{getPreview(msg)}</p>
+                </div>
+                {canUnpin(msg) && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      unpinMessage(conversationId, msg.id)
+                    }}
+                    className="w-7 h-7 flex-shrink-0 flex items-center justify-center rounded-lg text-white/30 opacity-0 group-hover/pin:opacity-100 hover:text-rose-400 hover:bg-rose-500/10 transition-all"
+                    title="Открепить"
+                  >
+                    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </motion.div>
+    </>
+  )
+}
@@ -0,0 +1,127 @@
+import { useEffect, useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import type { User } from '../api/auth'
+import type { Reaction } from '../api/messages'
+import { useUsersStore } from '../stores/usersStore'
+import { EmojiGlyph } from './CustomEmoji'
+
+type Props = {
+  // Reactions of the message being inspected, null when closed
+  reactions: Reaction[] | null
+  // Tab to open on; all reactions when null
+  initialEmoji: string | null
+  // Fixed placement next to what opened it
+  style: React.CSSProperties
+  onClose: () => void
+  onUserClick: (user: User, event: React.MouseEvent<HTMLElement>) => void
+}
+
+export function ReactionsPopover({ reactions, initialEmoji, style, onClose, onUserClick }: Props) {
+  return (
+    <AnimatePresence>
+      {reactions && reactions.length > 0 && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={onClose} />
+
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 10 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 10 }}
+            transition={{ duration: 0.15 }}
+            className="fixed z-50 w-72 bg-[#0f0f0f] rounded-2xl border border-white/[0.06] shadow-2xl overflow-hidden"
+            style={style}
+          >
+            <ReactionsList
+              key={initialEmoji ?? ''}
+              reactions={reactions}
+              initialEmoji={initialEmoji}
+              onUserClick={onUserClick}
+            />
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  )
+}
+
+function ReactionsList({ reactions, initialEmoji, onUserClick }: {
+  reactions: Reaction[]
+  initialEmoji: string | null
+  onUserClick: Props['onUserClick']
+}) {
+  const [tab, setTab] = useState<string | null>(initialEmoji)
+  const users = useUsersStore((s) => s.users)
+  const { remember, resolve } = useUsersStore()
+
+  // Emoji in the order they were first used, with their reactions
+  const groups = new Map<string, Reaction[]>()
+  for (const reaction of reactions) {
+    groups.set(reaction.emoji, [...(groups.get(reaction.emoji) || []), reaction])
+  }
+  // The picked emoji may have lost its last reaction while we're open
+  const activeTab = tab && groups.has(tab) ? tab : null
+  const shown = activeTab ? groups.get(activeTab)! : reactions
+
+  // Reactions can come without their user - fill the gaps from the cache
+  useEffect(() => {
+    remember(reactions.flatMap((r) => (r.user ? [r.user] : [])))
+    for (const reaction of reactions) {
+      if (!reaction.user) resolve(reaction.user_id)
+    }
+  }, [reactions, remember, resolve])
+
+  return (
+    <>
+      {/* Tabs */}
+      <div className="flex gap-1 px-2 pt-2 pb-1.5 border-b border-white/[0.06] overflow-x-auto">
+        <button
+          onClick={() => setTab(null)}
+          className={`flex-shrink-0 px-2.5 h-8 rounded-lg text-xs font-medium transition-colors ${
+            activeTab === null ? 'bg-white/[0.1] text-white' : 'text-white/40 hover:text-white/70 hover:bg-white/[0.04]'
+          }`}
+        >
+          Все {reactions.length}
+        </button>
+        {Array.from(groups, ([emoji, list]) => (
+          <button
+            key={emoji}
+            onClick={() => setTab(emoji)}
+            className={`flex-shrink-0 flex items-center gap-1.5 px-2.5 h-8 rounded-lg text-xs transition-colors ${
+              activeTab === emoji ? 'bg-white/[0.1] text-white' : 'text-white/40 hover:text-white/70 hover:bg-white/[0.04]'
+            }`}
+          >
+            <EmojiGlyph value={emoji} size={16} />
+            <span className="tabular-nums">{list.length}</span>
+          </button>
+        ))}
+      </div>
+
+      {/* People */}
+      <div className="max-h-72 overflow-y-auto py-1">
+        {shown.map((reaction) => {
+          const user = reaction.user || users[reaction.user_id]
+          return (
+            <button
+              key={`${reaction.user_id}:${reaction.emoji}`}
+              onClick={(e) => user && onUserClick(user, e)}
+              disabled={!user}
+              className="w-full flex items-center gap-3 px-3 py-2 text-left hover:bg-white/[0.04] disabled:hover:bg-transparent transition-colors"
+            >
+              <div className="w-8 h-8 rounded-full bg-white/[0.06] flex items-center justify-center text-xs text-white/40 uppercase overflow-hidden flex-shrink-0">
+                {user?.avatar_url ? (
+                  <img src={user.avatar_url} alt="" className="w-full h-full object-cover" />
+                ) : (
+                  user?.username?.[0] || '?'
+                )}
+              </div>
+              <span className={`flex-1 min-w-0 truncate text-sm ${user ? 'text-white/80' : 'text-white/30'}`}>
+                {user === undefined ? 'Загрузка…' : user?.username || 'Удалённый пользователь'}
+              </span>
+              {activeTab === null && <EmojiGlyph value={reaction.emoji} size={18} />}
+            </button>
+          )
+        })}
+      </div>
+    </>
+  )
+}
@@ -1,9 +1,20 @@
-import { useState, useEffect, useRef, useMemo } from 'react'
+import { Fragment, useState, useEffect, useEffectEvent, useRef, useMemo } from 'react'
 import { createPortal } from 'react-dom'
 import { motion, AnimatePresence } from 'framer-motion'
 import { useFriendsStore } from '../stores/friendsStore'
-import { useMessagesStore } from '../stores/messagesStore'
+import { useMessagesStore, conversationTitle } from '../stores/messagesStore'
 import { useAuthStore } from '../stores/authStore'
+import { toPlainText } from '../lib/markdown'
+import { attachmentLabel } from '../lib/attachments'
+import {
+  parseSearchQuery,
+  hasFilters,
+  highlightMatches,
+  excerptAround,
+  SEARCH_OPERATORS,
+} from '../lib/searchQuery'
+import { messagesApi } from '../api/messages'
+import type { Conversation, Message, MessageSearchParams } from '../api/messages'
 
 type Props = {
   isOpen: boolean
@@ -23,12 +34,30 @@ type SearchResult = {
   timestamp?: string
 }
 
+// One page-by-page server search; `key` identifies the query it belongs to
+type MessageSearch = {
+  key: string
+  messages: Message[]
+  total: number
+  nextCursor: string | null
+}
+
+// Wait for a pause in typing before hitting the server
+const SEARCH_DEBOUNCE_MS = 300
+
+// Names for <@userId> mentions in previews, looked up among the conversation's participants
+const resolveUsername = (conv: Conversation | undefined) => (userId: string) =>
+  conv?.participants.find((p) => p.id === userId)?.username
+
 export function SearchModal({ isOpen, onClose, onSelectConversation, onSelectUser }: Props) {
   const [query, setQuery] = useState('')
+  const [messageSearch, setMessageSearch] = useState<MessageSearch | null>(null)
+  const [failedKey, setFailedKey] = useState<string | null>(null)
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
   const inputRef = useRef<HTMLInputElement>(null)
   const { user } = useAuthStore()
   const { friends } = useFriendsStore()
-  const { conversations, messages } = useMessagesStore()
+  const { conversations, setPendingJump } = useMessagesStore()
 
   // Focus input when modal opens
   useEffect(() => {
@@ -66,21 +95,21 @@ export function SearchModal({ isOpen, onClose, onSelectConversation, onSelectUse
             type: 'user',
             id: other.id,
             title: other.username || 'Unknown',
-            subtitle: conv.last_message?.content || 'Нет сообщений',
+            subtitle: conv.last_message?.content
+              ? toPlainText(conv.last_message.content, resolveUsername(conv))
+              : 'Нет сообщений',
             avatarUrl: other.avatar_url,
             conversationId: conv.id,
           })
         }
       } else {
-        const groupName = conv.name || conv.participants
-          .filter(p => p.id !== user?.id)
-          .map(p => p.username)
-          .join(', ')
         items.push({
           type: 'group',
           id: conv.id,
-          title: groupName,
-          subtitle: conv.last_message?.content || 'Нет сообщений',
+          title: conversationTitle(conv, user?.id),
+          subtitle: conv.last_message?.content
+              ? toPlainText(conv.last_message.content, resolveUsername(conv))
+              : 'Нет сообщений',
           avatarUrl: conv.avatar_url,
           conversationId: conv.id,
         })
@@ -104,11 +133,118 @@ export function SearchModal({ isOpen, onClose, onSelectConversation, onSelectUse
       }))
   }, [friends])
 
+  const parsedQuery = useMemo(() => parseSearchQuery(query), [query])
+
+  // Turn from:/in: names into ids; names we can't resolve are reported instead of ignored
+  const { searchParams, unresolved } = useMemo(() => {
+    const usersByName = new Map<string, string>()
+    for (const friend of friends) {
+      if (friend.user.username) usersByName.set(friend.user.username.toLowerCase(), friend.user.id)
+    }
+    for (const conv of conversations) {
+      for (const p of conv.participants) {
+        if (p.username) usersByName.set(p.username.toLowerCase(), p.id)
+      }
+    }
+    if (user?.username) usersByName.set(user.username.toLowerCase(), user.id)
+
+    const missing: string[] = []
+    const authorIds: string[] = []
+    for (const name of parsedQuery.from) {
+      const id = name.toLowerCase() === 'me' ? user?.id : usersByName.get(name.toLowerCase())
+      if (id) authorIds.push(id)
+      else missing.push(`from:${name}`)
+    }
+
+    const conversationIds: string[] = []
+    for (const name of parsedQuery.in) {
+      const lower = name.toLowerCase()
+      const titled = conversations.map((c) => ({ id: c.id, title: conversationTitle(c, user?.id).toLowerCase() }))
+      const conv = titled.find((c) => c.title === lower) || titled.find((c) => c.title.includes(lower))
+      if (conv) conversationIds.push(conv.id)
+      else missing.push(`in:${name}`)
+    }
+
+    const text = parsedQuery.text.trim()
+    const params: MessageSearchParams | null = (text || hasFilters(parsedQuery)) && missing.length === 0
+      ? {
+          query: text,
+          author_ids: authorIds,
+          conversation_ids: conversationIds,
+          has: parsedQuery.has,
+          before: parsedQuery.before,
+          after: parsedQuery.after,
+        }
+      : null
+    return { searchParams: params, unresolved: missing }
+  }, [parsedQuery, friends, conversations, user])
+
+  const searchKey = searchParams ? JSON.stringify(searchParams) : null
+
+  // The params object is rebuilt on every message or presence change; only a
+  // different key should search again (and drop pages loaded with "more")
+  const getSearchParams = useEffectEvent(() => searchParams)
+
+  // Server-side message search, debounced; late responses for an old query are dropped
+  useEffect(() => {
+    const params = getSearchParams()
+    if (!searchKey || !params) return
+    const key = searchKey
+    let cancelled = false
+
+    const timer = setTimeout(async () => {
+      try {
+        const page = await messagesApi.search(params)
+        if (cancelled) return
+        setMessageSearch({ key, messages: page.messages, total: page.total, nextCursor: page.next_cursor })
+        setFailedKey(null)
+      } catch (err) {
+        if (cancelled) return
+        console.error('Failed to search messages:', err)
+        setFailedKey(key)
+      }
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [searchKey])
+
+  const currentSearch = messageSearch && messageSearch.key === searchKey ? messageSearch : null
+  const isSearching = !!searchKey && !currentSearch && failedKey !== searchKey
+
+  const loadMoreMessages = async () => {
+    if (!searchParams || !currentSearch?.nextCursor || isLoadingMore) return
+    const { key, nextCursor } = currentSearch
+
+    setIsLoadingMore(true)
+    try {
+      const page = await messagesApi.search({ ...searchParams, cursor: nextCursor })
+      setMessageSearch((prev) =>
+        prev && prev.key === key
+          ? { ...prev, messages: [...prev.messages, ...page.messages], nextCursor: page.next_cursor }
+          : prev
+      )
+    } catch (err) {
+      console.error('Failed to load more search results:', err)
+    }
+    setIsLoadingMore(false)
+  }
+
+  // Fetch the next page when the list is scrolled near its end
+  const handleResultsScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const el = e.currentTarget
+    if (el.scrollHeight - el.scrollTop - el.clientHeight < 200) loadMoreMessages()
+  }
+
   const results = useMemo(() => {
-    if (!query.trim()) return []
+    const text = parsedQuery.text.trim()
+    // Operators only narrow down messages - people and groups match on plain text
+    if (!text || hasFilters(parsedQuery)) return []
 
     const searchResults: SearchResult[] = []
-    const lowerQuery = query.toLowerCase()
+    const lowerQuery = text.toLowerCase()
 
     // Search users (friends)
     for (const friend of friends) {
@@ -126,10 +262,7 @@ export function SearchModal({ isOpen, onClose, onSelectConversation, onSelectUse
     // Search groups
     for (const conv of conversations) {
       if (conv.type === 'group') {
-        const groupName = conv.name || conv.participants
-          .filter(p => p.id !== user?.id)
-          .map(p => p.username)
-          .join(', ')
+        const groupName = conversationTitle(conv, user?.id)
 
         if (groupName.toLowerCase().includes(lowerQuery)) {
           searchResults.push({
@@ -144,34 +277,66 @@ export function SearchModal({ isOpen, onClose, onSelectConversation, onSelectUse
       }
     }
 
-    // Search messages in current conversation
-    for (const msg of messages) {
-      if (msg.content?.toLowerCase().includes(lowerQuery)) {
-        searchResults.push({
-          type: 'message',
-          id: msg.id,
-          title: msg.sender?.username || 'Unknown',
-          subtitle: msg.content.length > 50 ? msg.content.slice(0, 50) + '...' : msg.content,
-          avatarUrl: msg.sender?.avatar_url,
+    return searchResults.slice(0, 20) // Limit results
+  }, [parsedQuery, friends, conversations, user?.id])
+
+  // Message hits grouped by conversation, in the order the server ranked them
+  const messageGroups = useMemo(() => {
+    const groups: { conversationId: string; title: string; results: SearchResult[] }[] = []
+
+    for (const msg of currentSearch?.messages || []) {
+      const conv = conversations.find((c) => c.id === msg.conversation_id)
+      // Match what the user sees, not the markup around it
+      const text = msg.content ? toPlainText(msg.content, resolveUsername(conv)) : ''
+      let group = groups.find((g) => g.conversationId === msg.conversation_id)
+      if (!group) {
+        group = {
           conversationId: msg.conversation_id,
-          messageContent: msg.content,
-          timestamp: msg.created_at,
-        })
+          title: conv ? conversationTitle(conv, user?.id) : 'Неизвестный чат',
+          results: [],
+        }
+        groups.push(group)
       }
+      group.results.push({
+        type: 'message',
+        id: msg.id,
+        title: msg.sender?.username || 'Unknown',
+        subtitle: text
+          ? excerptAround(text, parsedQuery.text)
+          : msg.type === 'sticker' ? 'Стикер'
+          : msg.attachments?.[0] ? attachmentLabel(msg.attachments[0]) : 'Файл',
+        avatarUrl: msg.sender?.avatar_url,
+        conversationId: msg.conversation_id,
+        messageContent: msg.content,
+        timestamp: msg.created_at,
+      })
     }
 
-    return searchResults.slice(0, 20) // Limit results
-  }, [query, friends, conversations, messages, user?.id])
+    return groups
+  }, [currentSearch, conversations, parsedQuery.text, user?.id])
+
+  const resultCount = results.length + (currentSearch?.total || 0)
+  const hasQuery = !!query.trim()
 
   const handleSelect = (result: SearchResult) => {
     if (result.type === 'user') {
       onSelectUser(result.id)
+    } else if (result.type === 'message' && result.conversationId) {
+      // ChatArea scrolls to it once the conversation is open
+      setPendingJump({ conversationId: result.conversationId, messageId: result.id })
+      onSelectConversation(result.conversationId)
     } else if (result.conversationId) {
       onSelectConversation(result.conversationId)
     }
     onClose()
   }
 
+  // Put an operator at the end of the query, ready for its value
+  const insertOperator = (operator: string) => {
+    setQuery((prev) => (prev && !prev.endsWith(' ') ? `${prev} ` : prev) + operator)
+    inputRef.current?.focus()
+  }
+
   const formatTime = (timestamp: string) => {
     const date = new Date(timestamp)
     return date.toLocaleDateString('ru-RU', {
@@ -248,20 +413,40 @@ export function SearchModal({ isOpen, onClose, onSelectConversation, onSelectUse
               transition={{ duration: 0.2, delay: 0.1 }}
               className="mt-2 bg-[#0f0f0f] border border-white/[0.08] rounded-2xl overflow-hidden"
             >
-              {query.trim() ? (
+              {hasQuery ? (
                 <>
-                  {results.length === 0 ? (
+                  {results.length === 0 && messageGroups.length === 0 ? (
+                  isSearching ? (
+                    <div className="flex justify-center py-12">
+                      <div className="w-6 h-6 border-2 border-white/[0.06] border-t-white/40 rounded-full animate-spin" />
+                    </div>
+                  ) : (
                   <div className="px-6 py-10 text-center">
                     <div className="w-14 h-14 mx-auto mb-4 rounded-full bg-white/[0.04] flex items-center justify-center">
                       <svg className="w-7 h-7 text-white/20" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
                         <path strokeLinecap="round" strokeLinejoin="round" d="M21 21l-5.197-5.197m0 0A7.5 7.5 0 105.196 5.196a7.5 7.5 0 0010.607 10.607z" />
                       </svg>
                     </div>
-                    <p className="text-base text-white/40">Ничего не найдено</p>
-                    <p className="text-sm text-white/20 mt-1">Попробуйте другой запрос</p>
+                    {unresolved.length > 0 ? (
+                      <>
+                        <p className="text-base text-white/40">Не удалось применить фильтр</p>
+                        <p className="text-sm text-white/20 mt-1">Не найдено: {unresolved.join(', ')}</p>
+                      </>
+                    ) : failedKey === searchKey ? (
+                      <>
+                        <p className="text-base text-white/40">Не удалось выполнить поиск</p>
+                        <p className="text-sm text-white/20 mt-1">Проверьте подключение и попробуйте ещё раз</p>
+                      </>
+                    ) : (
+                      <>
+                        <p className="text-base text-white/40">Ничего не найдено</p>
+                        <p className="text-sm text-white/20 mt-1">Попробуйте другой запрос</p>
+                      </>
+                    )}
                   </div>
+                  )
                 ) : (
-                    <div className="max-h-[50vh] overflow-y-auto py-2">
+                    <div onScroll={handleResultsScroll} className="max-h-[50vh] overflow-y-auto py-2">
                       {/* Group results by type */}
                       {results.some(r => r.type === 'user') && (
                         <>
@@ -328,39 +513,58 @@ export function SearchModal({ isOpen, onClose, onSelectConversation, onSelectUse
                         </>
                       )}
 
-                      {results.some(r => r.type === 'message') && (
+                      {messageGroups.length > 0 && (
                         <>
                           <div className="px-5 py-2.5 mt-2">
                             <span className="text-xs font-medium tracking-widest text-white/30 uppercase">
                               Сообщения
                             </span>
                           </div>
-                          {results.filter(r => r.type === 'message').map((result) => (
-                            <button
-                              key={result.id}
-                              onClick={() => handleSelect(result)}
-                              className="w-full flex items-center gap-4 px-5 py-3 text-left hover:bg-white/[0.04] transition-colors"
-                            >
-                              <div className="w-11 h-11 rounded-full bg-white/[0.06] flex items-center justify-center overflow-hidden flex-shrink-0">
-                                {result.avatarUrl ? (
-                                  <img src={result.avatarUrl} alt="" className="w-full h-full object-cover" />
-                                ) : (
-                                  <span className="text-base text-white/30 uppercase">{result.title[0]}</span>
-                                )}
+                          {messageGroups.map((group) => (
+                            <Fragment key={group.conversationId}>
+                              <div className="px-5 pt-2 pb-1 flex items-center gap-2 text-xs text-white/40">
+                                <span className="text-white/20">#</span>
+                                <span className="truncate">{group.title}</span>
                               </div>
-                              <div className="flex-1 min-w-0">
-                                <div className="flex items-center justify-between gap-2">
-                                  <p className="text-base font-medium text-white/80 truncate">{result.title}</p>
-                                  {result.timestamp && (
-                                    <span className="text-xs text-white/30 tabular-nums flex-shrink-0">
-                                      {formatTime(result.timestamp)}
-                                    </span>
-                                  )}
-                                </div>
-                                <p className="text-sm text-white/50 truncate">{result.subtitle}</p>
-                              </div>
-                            </button>
+                              {group.results.map((result) => (
+                                <button
+                                  key={result.id}
+                                  onClick={() => handleSelect(result)}
+                                  className="w-full flex items-center gap-4 px-5 py-3 text-left hover:bg-white/[0.04] transition-colors"
+                                >
+                                  <div className="w-11 h-11 rounded-full bg-white/[0.06] flex items-center justify-center overflow-hidden flex-shrink-0">
+                                    {result.avatarUrl ? (
+                                      <img src={result.avatarUrl} alt="" className="w-full h-full object-cover" />
+                                    ) : (
+                                      <span className="text-base text-white/30 uppercase">{result.title[0]}</span>
+                                    )}
+                                  </div>
+                                  <div className="flex-1 min-w-0">
+                                    <div className="flex items-center justify-between gap-2">
+                                      <p className="text-base font-medium text-white/80 truncate">{result.title}</p>
+                                      {result.timestamp && (
+                                        <span className="text-xs text-white/30 tabular-nums flex-shrink-0">
+                                          {formatTime(result.timestamp)}
+                                        </span>
+                                      )}
+                                    </div>
+                                    <p className="text-sm text-white/50 line-clamp-2 break-words">
+                                      {highlightMatches(result.subtitle || '', parsedQuery.text).map((segment, i) =>
+                                        segment.match ? (
+                                          <mark key={i} className="bg-amber-400/20 text-amber-100 rounded-sm">{segment.text}</mark>
+                                        ) : segment.text
+                                      )}
+                                    </p>
+                                  </div>
+                                </button>
+                              ))}
+                            </Fragment>
                           ))}
+                          {isLoadingMore && (
+                            <div className="flex justify-center py-3">
+                              <div className="w-5 h-5 border-2 border-white/[0.06] border-t-white/40 rounded-full animate-spin" />
+                            </div>
+                          )}
                         </>
                       )}
                     </div>
@@ -369,7 +573,7 @@ export function SearchModal({ isOpen, onClose, onSelectConversation, onSelectUse
                   {/* Footer hint */}
                   <div className="px-5 py-3.5 border-t border-white/[0.04] flex items-center justify-between">
                     <span className="text-sm text-white/30">
-                      {results.length} результатов
+                      {isSearching ? 'Поиск...' : `${resultCount} результатов`}
                     </span>
                     <span className="text-sm text-white/30 flex items-center gap-2">
                       <kbd className="px-2 py-1 bg-white/[0.06] rounded text-white/40 text-xs">ESC</kbd>
@@ -381,6 +585,24 @@ export function SearchModal({ isOpen, onClose, onSelectConversation, onSelectUse
                 /* Default content when no query */
                 <>
                   <div className="max-h-[50vh] overflow-y-auto py-2">
+                    {/* Search operators */}
+                    <div className="px-5 py-2.5">
+                      <span className="text-xs font-medium tracking-widest text-white/30 uppercase">
+                        Фильтры
+                      </span>
+                    </div>
+                    <div className="px-3 pb-2 flex flex-wrap gap-2">
+                      {SEARCH_OPERATORS.map((operator) => (
+                        <button
+                          key={operator}
+                          onClick={() => insertOperator(operator)}
+                          className="px-2.5 py-1.5 bg-white/[0.04] hover:bg-white/[0.08] rounded-lg font-mono text-xs text-white/50 hover:text-white/80 transition-colors"
+                        >
+                          {operator}
+                        </button>
+                      ))}
+                    </div>
+
                     {/* Online friends */}
                     {onlineFriends.length > 0 && (
                       <>
@@ -4,13 +4,16 @@ import { motion, AnimatePresence } from 'framer-motion'
 import { useAuthStore } from '../stores/authStore'
 import { useGatewayStore } from '../stores/gatewayStore'
 import { useCallStore } from '../stores/callStore'
+import { useSettingsStore, useUserSettings } from '../stores/settingsStore'
+import { StickerStudio } from './StickerStudio'
+import { CustomEmojiManager } from './CustomEmojiManager'
 
 type Props = {
   isOpen: boolean
   onClose: () => void
 }
 
-type SettingsSection = 'profile' | 'voice' | 'connection'
+type SettingsSection = 'profile' | 'voice' | 'chat' | 'stickers' | 'connection'
 
 type AudioDevice = {
   deviceId: string
@@ -19,8 +22,10 @@ type AudioDevice = {
 
 export function SettingsModal({ isOpen, onClose }: Props) {
   const { user, uploadAvatar, isLoading, logout } = useAuthStore()
-  const { isConnected, isReady } = useGatewayStore()
+  const { isConnected, isReady, diagnostics } = useGatewayStore()
   const { voiceClient, myCall } = useCallStore()
+  const { showLinkPreviews, compressImages } = useUserSettings()
+  const updateSettings = useSettingsStore((s) => s.updateSettings)
 
   const [activeSection, setActiveSection] = useState<SettingsSection>('profile')
   const [dragOver, setDragOver] = useState(false)
@@ -132,6 +137,16 @@ export function SettingsModal({ isOpen, onClose }: Props) {
         <path strokeLinecap="round" strokeLinejoin="round" d="M12 18.75a6 6 0 006-6v-1.5m-6 7.5a6 6 0 01-6-6v-1.5m6 7.5v3.75m-3.75 0h7.5M12 15.75a3 3 0 01-3-3V4.5a3 3 0 116 0v8.25a3 3 0 01-3 3z" />
       </svg>
     )},
+    { id: 'chat' as const, label: 'Текст и медиа', icon: (
+      <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M7.5 8.25h9m-9 3H12m-9.75 1.51c0 1.6 1.123 2.994 2.707 3.227 1.129.166 2.27.293 3.423.379.35.026.67.21.865.501L12 21l2.755-4.133a1.14 1.14 0 01.865-.501 48.172 48.172 0 003.423-.379c1.584-.233 2.707-1.626 2.707-3.228V6.741c0-1.602-1.123-2.995-2.707-3.228A48.394 48.394 0 0012 3c-2.392 0-4.744.175-7.043.513C3.373 3.746 2.25 5.14 2.25 6.741v6.018z" />
+      </svg>
+    )},
+    { id: 'stickers' as const, label: 'Стикеры и эмодзи', icon: (
+      <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M15.182 15.182a4.5 4.5 0 01-6.364 0M21 12a9 9 0 11-18 0 9 9 0 0118 0zM9.75 9.75c0 .414-.168.75-.375.75S9 10.164 9 9.75 9.168 9 9.375 9s.375.336.375.75zm-.375 0h.008v.015h-.008V9.75zm5.625 0c0 .414-.168.75-.375.75s-.375-.336-.375-.75.168-.75.375-.75.375.336.375.75zm-.375 0h.008v.015h-.008V9.75z" />
+      </svg>
+    )},
     { id: 'connection' as const, label: 'Соединение', icon: (
       <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
         <path strokeLinecap="round" strokeLinejoin="round" d="M9.348 14.651a3.75 3.75 0 010-5.303m5.304 0a3.75 3.75 0 010 5.303m-7.425 2.122a6.75 6.75 0 010-9.546m9.546 0a6.75 6.75 0 010 9.546M5.106 18.894c-3.808-3.808-3.808-9.98 0-13.789m13.788 0c3.808 3.808 3.808 9.981 0 13.79M12 12h.008v.007H12V12zm.375 0a.375.375 0 11-.75 0 .375.375 0 01.75 0z" />
@@ -575,6 +590,99 @@ export function SettingsModal({ isOpen, onClose }: Props) {
                       </motion.div>
                     )}
 
+                    {activeSection === 'chat' && (
+                      <motion.div
+                        key="chat"
+                        initial={{ opacity: 0, y: 10 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: -10 }}
+                        className="max-w-2xl space-y-8"
+                      >
+                        {/* Link previews */}
+                        <div>
+                          <h3 className="text-[11px] font-semibold tracking-widest text-white/30 uppercase mb-4">
+                            Встраивание и предпросмотр ссылок
+                          </h3>
+                          <div className="bg-white/[0.02] border border-white/[0.06] rounded-xl p-5">
+                            <button
+                              onClick={() => updateSettings({ showLinkPreviews: !showLinkPreviews })}
+                              className="w-full flex items-center justify-between gap-6 text-left"
+                            >
+                              <div>
+                                <p className="text-white/70">Показывать предпросмотр ссылок</p>
+                                <p className="mt-1 text-sm text-white/30">
+                                  Карточки с заголовком, описанием и картинкой для ссылок в сообщениях
+                                </p>
+                              </div>
+                              <div
+                                className={`relative w-11 h-6 flex-shrink-0 rounded-full transition-colors ${
+                                  showLinkPreviews ? 'bg-emerald-500' : 'bg-white/[0.1]'
+                                }`}
+                              >
+                                <motion.div
+                                  animate={{ x: showLinkPreviews ? 20 : 0 }}
+                                  transition={{ type: 'spring', stiffness: 500, damping: 30 }}
+                                  className="absolute top-1 left-1 w-4 h-4 rounded-full bg-white shadow"
+                                />
+                              </div>
+                            </button>
+                          </div>
+                        </div>
+
+                        {/* Uploads */}
+                        <div>
+                          <h3 className="text-[11px] font-semibold tracking-widest text-white/30 uppercase mb-4">
+                            Загрузка файлов
+                          </h3>
+                          <div className="bg-white/[0.02] border border-white/[0.06] rounded-xl p-5">
+                            <button
+                              onClick={() => updateSettings({ compressImages: !compressImages })}
+                              className="w-full flex items-center justify-between gap-6 text-left"
+                            >
+                              <div>
+                                <p className="text-white/70">Сжимать изображения</p>
+                                <p className="mt-1 text-sm text-white/30">
+                                  Большие фотографии уменьшаются до 2560 пикселей по длинной стороне перед отправкой
+                                </p>
+                              </div>
+                              <div
+                                className={`relative w-11 h-6 flex-shrink-0 rounded-full transition-colors ${
+                                  compressImages ? 'bg-emerald-500' : 'bg-white/[0.1]'
+                                }`}
+                              >
+                                <motion.div
+                                  animate={{ x: compressImages ? 20 : 0 }}
+                                  transition={{ type: 'spring', stiffness: 500, damping: 30 }}
+                                  className="absolute top-1 left-1 w-4 h-4 rounded-full bg-white shadow"
+                                />
+                              </div>
+                            </button>
+                          </div>
+                        </div>
+                      </motion.div>
+                    )}
+
+                    {activeSection === 'stickers' && (
+                      <motion.div
+                        key="stickers"
+                        initial={{ opacity: 0, y: 10 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: -10 }}
+                        className="max-w-2xl space-y-8"
+                      >
+                        <StickerStudio />
+
+                        <div>
+                          <h3 className="text-[11px] font-semibold tracking-widest text-white/30 uppercase mb-4">
+                            Мои эмодзи
+                          </h3>
+                          <div className="bg-white/[0.02] border border-white/[0.06] rounded-xl p-5">
+                            <CustomEmojiManager />
+                          </div>
+                        </div>
+                      </motion.div>
+                    )}
+
                     {activeSection === 'connection' && (
                       <motion.div
                         key="connection"
@@ -673,6 +781,15 @@ export function SettingsModal({ isOpen, onClose }: Props) {
                               <span className="text-white/40">Voice State</span>
                               <span className="text-white/60">{voiceClient ? 'Connected' : '—'}</span>
                             </div>
+                            <div className="flex justify-between">
+                              <span className="text-white/40">Gateway Errors</span>
+                              <span
+                                className={diagnostics.length > 0 ? 'text-amber-400' : 'text-white/60'}
+                                title={diagnostics.length > 0 ? diagnostics.map((d) => `${d.kind}${'type' in d ? ` ${d.type}` : ''}`).join('\n') : undefined}
+                              >
+                                {diagnostics.length}
+                              </span>
+                            </div>
                           </div>
                         </div>
                       </motion.div>
@@ -0,0 +1,46 @@
+import type { Sticker } from '../api/stickers'
+import { TgsPlayer } from './TgsPlayer'
+
+type Props = {
+  sticker: Pick<Sticker, 'file_url' | 'file_type' | 'emoji'>
+  size: number
+  // Animate continuously; otherwise TGS/WebM play on hover
+  animate?: boolean
+  className?: string
+}
+
+export function StickerImage({ sticker, size, animate = true, className = '' }: Props) {
+  if (sticker.file_type === 'tgs') {
+    return <TgsPlayer src={sticker.file_url} size={size} loop={animate} autoplay={animate} className={className} />
+  }
+
+  if (sticker.file_type === 'webm') {
+    return (
+      <video
+        src={sticker.file_url}
+        width={size}
+        height={size}
+        autoPlay={animate}
+        loop
+        muted
+        playsInline
+        style={{ width: size, height: size }}
+        className={`object-contain ${className}`}
+        onMouseEnter={animate ? undefined : (e) => e.currentTarget.play()}
+        onMouseLeave={animate ? undefined : (e) => {
+          e.currentTarget.pause()
+          e.currentTarget.currentTime = 0
+        }}
+      />
+    )
+  }
+
+  return (
+    <img
+      src={sticker.file_url}
+      alt={sticker.emoji}
+      style={{ width: size, height: size }}
+      className={`object-contain ${className}`}
+    />
+  )
+}
@@ -0,0 +1,164 @@
+import { useEffect, useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { stickersApi, getStickerPackLink, type StickerPack } from '../api/stickers'
+import { useStickersStore } from '../stores/stickersStore'
+import { useAuthStore } from '../stores/authStore'
+import { StickerImage } from './StickerImage'
+
+type Props = {
+  // Pack to show, null when closed
+  packId: string | null
+  onClose: () => void
+}
+
+export function StickerPackModal({ packId, onClose }: Props) {
+  return (
+    <AnimatePresence>
+      {packId && <PackDialog key={packId} packId={packId} onClose={onClose} />}
+    </AnimatePresence>
+  )
+}
+
+function PackDialog({ packId, onClose }: { packId: string; onClose: () => void }) {
+  const userId = useAuthStore((s) => s.user?.id)
+  const { packs, addPack, removePack } = useStickersStore()
+  const [fetchedPack, setFetchedPack] = useState<StickerPack | null>(null)
+  const [loadFailed, setLoadFailed] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [linkCopied, setLinkCopied] = useState(false)
+
+  const savedPack = packs.find((p) => p.id === packId)
+  const pack = fetchedPack || savedPack
+  const isOwn = !!pack && pack.creator_id === userId
+
+  // Always fetch - the collection copy may be stale or missing stickers
+  useEffect(() => {
+    let cancelled = false
+    stickersApi
+      .getPack(packId)
+      .then((data) => {
+        if (!cancelled) setFetchedPack(data)
+      })
+      .catch((err) => {
+        console.error('Failed to load sticker pack:', err)
+        if (!cancelled) setLoadFailed(true)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [packId])
+
+  // Needed to tell whether the pack is already saved
+  useEffect(() => {
+    const { isLoaded, loadPacks } = useStickersStore.getState()
+    if (!isLoaded) loadPacks()
+  }, [])
+
+  const handleToggleSaved = async () => {
+    if (!pack) return
+    setIsSaving(true)
+    if (savedPack) await removePack(pack.id)
+    else await addPack(pack)
+    setIsSaving(false)
+  }
+
+  const handleCopyLink = () => {
+    navigator.clipboard.writeText(getStickerPackLink(packId))
+    setLinkCopied(true)
+    setTimeout(() => setLinkCopied(false), 2000)
+  }
+
+  return (
+    <>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="fixed inset-0 bg-black/70 backdrop-blur-sm z-50"
+      />
+
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+        transition={{ duration: 0.2 }}
+        className="fixed inset-0 z-50 flex items-center justify-center p-4 pointer-events-none"
+      >
+        <div className="pointer-events-auto bg-[#0f0f0f] rounded-2xl w-full max-w-md border border-white/[0.06] shadow-2xl overflow-hidden">
+          {/* Header */}
+          <div className="flex items-start justify-between gap-4 px-6 py-5 border-b border-white/[0.04]">
+            <div className="min-w-0">
+              <h2 className="text-lg font-medium text-white truncate">{pack?.name || 'Стикеры'}</h2>
+              {pack?.description && <p className="mt-0.5 text-sm text-white/40 line-clamp-2">{pack.description}</p>}
+            </div>
+            <motion.button
+              onClick={onClose}
+              whileHover={{ scale: 1.1 }}
+              whileTap={{ scale: 0.9 }}
+              className="w-8 h-8 flex-shrink-0 rounded-lg flex items-center justify-center text-white/30 hover:bg-white/[0.06] hover:text-white/60 transition-colors"
+            >
+              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </motion.button>
+          </div>
+
+          {/* Stickers */}
+          <div className="h-80 overflow-y-auto p-3">
+            {!pack ? (
+              <div className="h-full flex items-center justify-center">
+                {loadFailed ? (
+                  <p className="text-sm text-white/30">Набор не найден или был удалён</p>
+                ) : (
+                  <div className="w-6 h-6 border-2 border-white/10 border-t-white/40 rounded-full animate-spin" />
+                )}
+              </div>
+            ) : pack.stickers && pack.stickers.length > 0 ? (
+              <div className="grid grid-cols-5 gap-1">
+                {pack.stickers.map((sticker) => (
+                  <div
+                    key={sticker.id}
+                    className="aspect-square p-1 rounded-lg hover:bg-white/[0.04] flex items-center justify-center"
+                    title={sticker.emoji}
+                  >
+                    <StickerImage sticker={sticker} size={64} animate={false} />
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="h-full flex items-center justify-center text-sm text-white/30">
+                В этом наборе пока нет стикеров
+              </div>
+            )}
+          </div>
+
+          {/* Actions */}
+          <div className="flex items-center gap-2 px-6 py-4 border-t border-white/[0.04]">
+            <button
+              onClick={handleCopyLink}
+              className="px-4 py-2.5 rounded-xl text-sm text-white/60 hover:text-white bg-white/[0.04] hover:bg-white/[0.08] transition-colors"
+            >
+              {linkCopied ? 'Ссылка скопирована' : 'Скопировать ссылку'}
+            </button>
+            {pack && !isOwn && (
+              <motion.button
+                onClick={handleToggleSaved}
+                disabled={isSaving}
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                className={`flex-1 py-2.5 rounded-xl text-sm font-medium transition-colors disabled:opacity-50 ${
+                  savedPack
+                    ? 'bg-rose-500/10 text-rose-400 hover:bg-rose-500/20'
+                    : 'bg-white text-[#050505] hover:bg-white/90'
+                }`}
+              >
+                {savedPack ? 'Убрать из коллекции' : `Добавить набор (${pack.stickers?.length ?? 0})`}
+              </motion.button>
+            )}
+          </div>
+        </div>
+      </motion.div>
+    </>
+  )
+}
@@ -0,0 +1,293 @@
+import { useEffect, useRef, useState } from 'react'
+import { motion } from 'framer-motion'
+import { getStickerPackLink, type StickerPack } from '../api/stickers'
+import { useStickersStore } from '../stores/stickersStore'
+import { useAuthStore } from '../stores/authStore'
+import { STICKER_FILE_ACCEPT, validateStickerFile } from '../lib/stickerFiles'
+import { StickerImage } from './StickerImage'
+
+const inputClassName =
+  'w-full bg-white/[0.03] border border-white/[0.06] rounded-xl px-4 py-3 text-sm text-white placeholder-white/20 focus:outline-none focus:border-white/[0.15] transition-colors'
+
+// Settings section: the user's pack collection and an editor for their own packs
+export function StickerStudio() {
+  const userId = useAuthStore((s) => s.user?.id)
+  const { packs, isLoaded, loadPacks, reorderPacks, removePack, deletePack, createPack } = useStickersStore()
+  const [editingPackId, setEditingPackId] = useState<string | null>(null)
+  const [newName, setNewName] = useState('')
+  const [newDescription, setNewDescription] = useState('')
+  const [isCreating, setIsCreating] = useState(false)
+  // Pack waiting for a second click to confirm removal
+  const [confirmingId, setConfirmingId] = useState<string | null>(null)
+  const [copiedId, setCopiedId] = useState<string | null>(null)
+
+  const editingPack = packs.find((p) => p.id === editingPackId && p.creator_id === userId)
+
+  useEffect(() => {
+    loadPacks()
+  }, [loadPacks])
+
+  const movePack = (index: number, delta: number) => {
+    const ids = packs.map((p) => p.id)
+    const target = index + delta
+    if (target < 0 || target >= ids.length) return
+    ;[ids[index], ids[target]] = [ids[target], ids[index]]
+    reorderPacks(ids)
+  }
+
+  const handleRemove = async (pack: StickerPack) => {
+    if (confirmingId !== pack.id) {
+      setConfirmingId(pack.id)
+      return
+    }
+    setConfirmingId(null)
+    if (pack.creator_id === userId) await deletePack(pack.id)
+    else await removePack(pack.id)
+  }
+
+  const handleShare = (packId: string) => {
+    navigator.clipboard.writeText(getStickerPackLink(packId))
+    setCopiedId(packId)
+    setTimeout(() => setCopiedId((id) => (id === packId ? null : id)), 2000)
+  }
+
+  const handleCreate = async () => {
+    if (!newName.trim()) return
+    setIsCreating(true)
+    const pack = await createPack(newName.trim(), newDescription.trim())
+    setIsCreating(false)
+    if (pack) {
+      setNewName('')
+      setNewDescription('')
+      setEditingPackId(pack.id)
+    }
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* New pack */}
+      <div>
+        <h3 className="text-[11px] font-semibold tracking-widest text-white/30 uppercase mb-4">
+          Новый набор
+        </h3>
+        <div className="bg-white/[0.02] border border-white/[0.06] rounded-xl p-5 space-y-3">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="Название"
+            maxLength={64}
+            className={inputClassName}
+          />
+          <input
+            type="text"
+            value={newDescription}
+            onChange={(e) => setNewDescription(e.target.value)}
+            placeholder="Описание (необязательно)"
+            maxLength={256}
+            className={inputClassName}
+          />
+          <motion.button
+            onClick={handleCreate}
+            disabled={!newName.trim() || isCreating}
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+            className="px-5 py-2.5 bg-white text-[#050505] rounded-xl text-sm font-medium disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {isCreating ? 'Создание…' : 'Создать набор'}
+          </motion.button>
+        </div>
+      </div>
+
+      {/* Collection */}
+      <div>
+        <h3 className="text-[11px] font-semibold tracking-widest text-white/30 uppercase mb-4">
+          Мои наборы
+        </h3>
+        <div className="bg-white/[0.02] border border-white/[0.06] rounded-xl divide-y divide-white/[0.04]">
+          {!isLoaded ? (
+            <div className="p-8 flex justify-center">
+              <div className="w-6 h-6 border-2 border-white/10 border-t-white/40 rounded-full animate-spin" />
+            </div>
+          ) : packs.length === 0 ? (
+            <p className="p-5 text-sm text-white/30">Наборов пока нет</p>
+          ) : (
+            packs.map((pack, index) => {
+              const isOwn = pack.creator_id === userId
+              const cover = pack.stickers?.[0]
+              return (
+                <div key={pack.id} className="flex items-center gap-3 px-4 py-3">
+                  <div className="w-10 h-10 flex-shrink-0 flex items-center justify-center">
+                    {cover ? <StickerImage sticker={cover} size={40} animate={false} /> : <span className="text-lg">📦</span>}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-white/80 truncate">{pack.name}</p>
+                    <p className="text-xs text-white/30">
+                      {pack.stickers?.length ?? 0} шт.
+                      {isOwn && ' · ваш набор'}
+                      {pack.is_official && ' · официальный'}
+                    </p>
+                  </div>
+
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => movePack(index, -1)}
+                      disabled={index === 0}
+                      className="w-7 h-7 rounded-lg flex items-center justify-center text-white/30 hover:text-white/70 hover:bg-white/[0.06] disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+                      title="Выше"
+                    >
+                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                        <path strokeLinecap="round" strokeLinejoin="round" d="M4.5 15.75l7.5-7.5 7.5 7.5" />
+                      </svg>
+                    </button>
+                    <button
+                      onClick={() => movePack(index, 1)}
+                      disabled={index === packs.length - 1}
+                      className="w-7 h-7 rounded-lg flex items-center justify-center text-white/30 hover:text-white/70 hover:bg-white/[0.06] disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+                      title="Ниже"
+                    >
+                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                        <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 8.25l-7.5 7.5-7.5-7.5" />
+                      </svg>
+                    </button>
+                    <button
+                      onClick={() => handleShare(pack.id)}
+                      className="px-2.5 h-7 rounded-lg text-xs text-white/40 hover:text-white/80 hover:bg-white/[0.06] transition-colors"
+                    >
+                      {copiedId === pack.id ? 'Скопировано' : 'Ссылка'}
+                    </button>
+                    {isOwn && (
+                      <button
+                        onClick={() => setEditingPackId(editingPackId === pack.id ? null : pack.id)}
+                        className={`px-2.5 h-7 rounded-lg text-xs transition-colors ${
+                          editingPackId === pack.id
+                            ? 'text-white bg-white/[0.1]'
+                            : 'text-white/40 hover:text-white/80 hover:bg-white/[0.06]'
+                        }`}
+                      >
+                        Изменить
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleRemove(pack)}
+                      onBlur={() => setConfirmingId(null)}
+                      className={`px-2.5 h-7 rounded-lg text-xs transition-colors ${
+                        confirmingId === pack.id
+                          ? 'text-white bg-rose-500'
+                          : 'text-rose-400/70 hover:text-rose-400 hover:bg-rose-500/10'
+                      }`}
+                    >
+                      {confirmingId === pack.id ? 'Точно?' : isOwn ? 'Удалить' : 'Убрать'}
+                    </button>
+                  </div>
+                </div>
+              )
+            })
+          )}
+        </div>
+      </div>
+
+      {editingPack && <PackEditor key={editingPack.id} pack={editingPack} />}
+    </div>
+  )
+}
+
+function PackEditor({ pack }: { pack: StickerPack }) {
+  const { uploadSticker } = useStickersStore()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [file, setFile] = useState<File | null>(null)
+  const [emoji, setEmoji] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isUploading, setIsUploading] = useState(false)
+
+  const stickers = pack.stickers || []
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0] || null
+    e.target.value = ''
+    setFile(null)
+    if (!selected) return
+
+    const problem = await validateStickerFile(selected)
+    setError(problem)
+    if (!problem) setFile(selected)
+  }
+
+  const handleUpload = async () => {
+    if (!file || !emoji.trim()) return
+    setIsUploading(true)
+    const sticker = await uploadSticker(pack.id, file, emoji.trim())
+    setIsUploading(false)
+    if (sticker) {
+      setFile(null)
+      setEmoji('')
+      setError(null)
+    } else {
+      setError('Сервер не принял стикер')
+    }
+  }
+
+  return (
+    <div>
+      <h3 className="text-[11px] font-semibold tracking-widest text-white/30 uppercase mb-4">
+        {pack.name}
+      </h3>
+      <div className="bg-white/[0.02] border border-white/[0.06] rounded-xl p-5 space-y-5">
+        {/* Upload */}
+        <div className="flex items-center gap-2">
+          <input
+            type="file"
+            ref={fileInputRef}
+            onChange={handleFileChange}
+            accept={STICKER_FILE_ACCEPT}
+            className="hidden"
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex-1 min-w-0 px-4 py-3 bg-white/[0.03] border border-dashed border-white/[0.1] rounded-xl text-sm text-left text-white/50 hover:text-white/80 hover:border-white/[0.2] truncate transition-colors"
+          >
+            {file ? file.name : 'Выбрать файл…'}
+          </button>
+          <input
+            type="text"
+            value={emoji}
+            onChange={(e) => setEmoji(e.target.value)}
+            placeholder="😀"
+            maxLength={16}
+            className="w-20 bg-white/[0.03] border border-white/[0.06] rounded-xl px-3 py-3 text-center text-white placeholder-white/20 focus:outline-none focus:border-white/[0.15] transition-colors"
+            title="Эмодзи стикера"
+          />
+          <motion.button
+            onClick={handleUpload}
+            disabled={!file || !emoji.trim() || isUploading}
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+            className="px-5 py-3 bg-white text-[#050505] rounded-xl text-sm font-medium disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {isUploading ? 'Загрузка…' : 'Добавить'}
+          </motion.button>
+        </div>
+        <p className={`text-xs ${error ? 'text-rose-400' : 'text-white/25'}`}>
+          {error || 'PNG или WebP до 512 КБ, TGS до 64 КБ, WebM до 256 КБ. Не больше 512×512, анимация до 3 секунд.'}
+        </p>
+
+        {/* Stickers */}
+        {stickers.length === 0 ? (
+          <p className="text-sm text-white/30">В наборе пока нет стикеров</p>
+        ) : (
+          <div className="grid grid-cols-5 gap-2">
+            {stickers.map((sticker) => (
+              <div
+                key={sticker.id}
+                className="rounded-xl bg-white/[0.02] border border-white/[0.04] p-2 flex flex-col items-center gap-2"
+              >
+                <StickerImage sticker={sticker} size={64} animate={false} />
+                <span className="text-sm">{sticker.emoji}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
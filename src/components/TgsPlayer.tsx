@@ -1,6 +1,6 @@
-import { useEffect, useRef, useState, useCallback } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import lottie, { type AnimationItem } from 'lottie-web'
-import pako from 'pako'
+import { loadTgsAnimation, requestPlayback, releasePlayback, type PlaybackHandle } from '../lib/tgsPool'
 
 type Props = {
   src: string
@@ -13,108 +13,91 @@ type Props = {
 
 export function TgsPlayer({ src, size = 128, loop = true, autoplay = true, className = '', onClick }: Props) {
   const containerRef = useRef<HTMLDivElement>(null)
-  const animationRef = useRef<AnimationItem | null>(null)
-  const mountedRef = useRef(true)
-  const [isLoading, setIsLoading] = useState(true)
-  const [error, setError] = useState(false)
+  const isHoveredRef = useRef(false)
+  // Re-evaluates whether this player should hold a playback slot
+  const syncRef = useRef<(() => void) | null>(null)
+  const [loadedSrc, setLoadedSrc] = useState<string | null>(null)
+  const [failedSrc, setFailedSrc] = useState<string | null>(null)
 
-  const destroyAnimation = useCallback(() => {
-    if (animationRef.current) {
-      try {
-        animationRef.current.destroy()
-      } catch {
-        // Ignore destroy errors
-      }
-      animationRef.current = null
-    }
-    // Clear container manually to avoid React conflicts
-    if (containerRef.current) {
-      containerRef.current.innerHTML = ''
-    }
-  }, [])
+  const isLoading = loadedSrc !== src && failedSrc !== src
 
   useEffect(() => {
-    mountedRef.current = true
-
-    if (!containerRef.current) return
-
     const container = containerRef.current
+    if (!container) return
 
-    const loadAnimation = async () => {
-      try {
-        if (!mountedRef.current) return
-
-        setIsLoading(true)
-        setError(false)
-
-        // Fetch the TGS file
-        const response = await fetch(src)
-        if (!response.ok) throw new Error('Failed to fetch')
-
-        const arrayBuffer = await response.arrayBuffer()
-        const uint8Array = new Uint8Array(arrayBuffer)
-
-        // Decompress gzip
-        let jsonString: string
-        try {
-          const decompressed = pako.inflate(uint8Array)
-          jsonString = new TextDecoder().decode(decompressed)
-        } catch {
-          // Maybe it's not gzipped, try as-is
-          jsonString = new TextDecoder().decode(uint8Array)
-        }
-
-        // Parse JSON
-        const animationData = JSON.parse(jsonString)
+    let cancelled = false
+    let animation: AnimationItem | null = null
+    let isVisible = false
 
-        if (!mountedRef.current) return
-
-        // Clear previous animation
-        destroyAnimation()
+    const handle: PlaybackHandle = {
+      play: () => animation?.play(),
+      pause: () => animation?.pause(),
+    }
 
-        // Create new animation
-        animationRef.current = lottie.loadAnimation({
+    const sync = () => {
+      if (!animation) return
+      if (isHoveredRef.current && !autoplay) {
+        requestPlayback(handle, true)
+      } else if (autoplay && isVisible) {
+        requestPlayback(handle)
+      } else {
+        releasePlayback(handle)
+        // Hover-to-play stickers rest on their first frame
+        if (!autoplay) animation.goToAndStop(0, true)
+      }
+    }
+    syncRef.current = sync
+
+    // Off-screen players give their slot back
+    const observer = new IntersectionObserver(([entry]) => {
+      isVisible = entry.isIntersecting
+      sync()
+    })
+    observer.observe(container)
+
+    loadTgsAnimation(src)
+      .then((animationData) => {
+        if (cancelled) return
+        animation = lottie.loadAnimation({
           container,
           renderer: 'svg',
           loop,
-          autoplay,
+          autoplay: false,
           animationData,
         })
-
-        if (mountedRef.current) {
-          setIsLoading(false)
-        }
-      } catch (err) {
+        // A finished one-shot animation doesn't need its slot any more
+        animation.addEventListener('complete', () => releasePlayback(handle))
+        setLoadedSrc(src)
+        sync()
+      })
+      .catch((err) => {
         console.error('Failed to load TGS:', err)
-        if (mountedRef.current) {
-          setError(true)
-          setIsLoading(false)
-        }
-      }
-    }
-
-    loadAnimation()
+        if (!cancelled) setFailedSrc(src)
+      })
 
     return () => {
-      mountedRef.current = false
-      destroyAnimation()
+      cancelled = true
+      observer.disconnect()
+      releasePlayback(handle)
+      syncRef.current = null
+      animation?.destroy()
+      // Clear container manually to avoid React conflicts
+      container.innerHTML = ''
     }
-  }, [src, loop, autoplay, destroyAnimation])
+  }, [src, loop, autoplay])
 
   // Play on hover
   const handleMouseEnter = () => {
-    if (animationRef.current && !autoplay) {
-      animationRef.current.play()
-    }
+    isHoveredRef.current = true
+    syncRef.current?.()
   }
 
   const handleMouseLeave = () => {
-    if (animationRef.current && !autoplay) {
-      animationRef.current.stop()
-    }
+    isHoveredRef.current = false
+    syncRef.current?.()
   }
 
-  if (error) {
+  if (failedSrc === src) {
     return (
       <div
         className={`flex items-center justify-center bg-white/[0.04] rounded-lg ${className}`}
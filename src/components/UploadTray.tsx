@@ -0,0 +1,92 @@
+import { motion, AnimatePresence } from 'framer-motion'
+import { useUploadStore, MAX_UPLOAD_SIZE } from '../stores/uploadStore'
+
+type Props = {
+  conversationId: string
+}
+
+export function UploadTray({ conversationId }: Props) {
+  const allUploads = useUploadStore((s) => s.uploads)
+  const { cancel, retry } = useUploadStore()
+  const uploads = allUploads.filter((u) => u.conversationId === conversationId)
+
+  return (
+    <AnimatePresence>
+      {uploads.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, height: 0 }}
+          animate={{ opacity: 1, height: 'auto' }}
+          exit={{ opacity: 0, height: 0 }}
+          className="flex flex-wrap gap-2 mb-3"
+        >
+          {uploads.map((upload) => (
+            <motion.div
+              key={upload.id}
+              initial={{ opacity: 0, scale: 0.8 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.8 }}
+              className="relative group w-20"
+              title={upload.error ? `${upload.file.name} — ${upload.error}` : upload.file.name}
+            >
+              <div
+                className={`relative h-20 w-20 rounded-xl overflow-hidden border ${
+                  upload.status === 'failed' ? 'border-rose-500/40' : 'border-white/[0.06]'
+                }`}
+              >
+                {upload.previewUrl ? (
+                  <img src={upload.previewUrl} alt={upload.file.name} className="h-full w-full object-cover" />
+                ) : (
+                  <div className="h-full w-full bg-white/[0.03] flex items-center justify-center">
+                    <svg className="w-8 h-8 text-white/20" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 14.25v-2.625a3.375 3.375 0 00-3.375-3.375h-1.5A1.125 1.125 0 0113.5 7.125v-1.5a3.375 3.375 0 00-3.375-3.375H8.25m2.25 0H5.625c-.621 0-1.125.504-1.125 1.125v17.25c0 .621.504 1.125 1.125 1.125h12.75c.621 0 1.125-.504 1.125-1.125V11.25a9 9 0 00-9-9z" />
+                    </svg>
+                  </div>
+                )}
+
+                {/* Waiting or in flight - dim the thumbnail and show progress */}
+                {(upload.status === 'queued' || upload.status === 'uploading') && (
+                  <div className="absolute inset-0 bg-black/50 flex items-end p-1.5">
+                    <div className="w-full h-1 rounded-full bg-white/20 overflow-hidden">
+                      <div
+                        className="h-full bg-white transition-[width] duration-150"
+                        style={{ width: `${Math.round(upload.progress * 100)}%` }}
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {upload.status === 'failed' && (
+                  <div className="absolute inset-0 bg-rose-950/70 flex flex-col items-center justify-center gap-1 px-1">
+                    <span className="text-[10px] text-rose-200 text-center leading-tight">{upload.error}</span>
+                    {upload.file.size <= MAX_UPLOAD_SIZE && (
+                      <button
+                        onClick={() => retry(upload.id)}
+                        className="text-[10px] font-medium text-white/80 hover:text-white underline"
+                      >
+                        Повторить
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              <p className="mt-1 text-[10px] text-white/30 truncate">{upload.file.name}</p>
+
+              <motion.button
+                onClick={() => cancel(upload.id)}
+                whileHover={{ scale: 1.1 }}
+                whileTap={{ scale: 0.9 }}
+                className="absolute -top-2 -right-2 w-6 h-6 bg-rose-500 rounded-full flex items-center justify-center text-white text-xs opacity-0 group-hover:opacity-100 transition-opacity shadow-lg"
+                title={upload.status === 'done' || upload.status === 'failed' ? 'Убрать' : 'Отменить'}
+              >
+                <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </motion.button>
+            </motion.div>
+          ))}
+        </motion.div>
+      )}
+    </AnimatePresence>
+  )
+}
@@ -5,6 +5,7 @@ import { useFriendsStore } from '../stores/friendsStore'
 import { useMessagesStore } from '../stores/messagesStore'
 import { useGatewayStore } from '../stores/gatewayStore'
 import { useCallStore } from '../stores/callStore'
+import { useOutboxStore } from '../stores/outboxStore'
 import { SettingsModal } from './SettingsModal'
 
 type Status = 'online' | 'idle' | 'dnd' | 'invisible'
@@ -14,6 +15,8 @@ export function UserPanel() {
   const resetFriends = useFriendsStore((s) => s.reset)
   const resetMessages = useMessagesStore((s) => s.reset)
   const disconnectGateway = useGatewayStore((s) => s.disconnect)
+  const queuedCount = useOutboxStore((s) => s.queued.length)
+  const clearOutbox = useOutboxStore((s) => s.clear)
   const { myCall, isMuted, toggleMute } = useCallStore()
   const [isDeafened, setIsDeafened] = useState(false)
   const [status, setStatus] = useState<Status>('online')
@@ -38,6 +41,8 @@ export function UserPanel() {
     disconnectGateway()
     resetMessages()
     resetFriends()
+    // Queued operations belong to this account
+    await clearOutbox()
     await logout()
   }
 
@@ -68,7 +73,16 @@ export function UserPanel() {
 
         <div className="min-w-0">
           <div className="text-sm font-medium text-white truncate">{user?.username || 'User'}</div>
-          <div className="text-xs text-white/30 truncate">{statusLabels[status]}</div>
+          {queuedCount > 0 ? (
+            <div
+              className="text-xs text-amber-400/80 truncate"
+              title="Отправятся, когда соединение восстановится"
+            >
+              В очереди: {queuedCount}
+            </div>
+          ) : (
+            <div className="text-xs text-white/30 truncate">{statusLabels[status]}</div>
+          )}
         </div>
       </div>
 
@@ -0,0 +1,79 @@
+import { useState } from 'react'
+import type { Attachment } from '../api/messages'
+import { blurhashToDataUrl } from '../lib/blurhash'
+import { formatVoiceDuration } from '../lib/voice/VoiceRecorder'
+
+type Props = {
+  attachment: Attachment
+  onExpand: (attachment: Attachment) => void
+}
+
+// Same bounding box as a single image in ImageGallery
+const MAX_WIDTH = 448
+const MAX_HEIGHT = 320
+
+// Videos uploaded before dimensions were recorded
+const FALLBACK_ASPECT = 16 / 9
+
+// Shows the poster until clicked, then plays inline with native controls
+export function VideoPlayer({ attachment, onExpand }: Props) {
+  const [isActive, setIsActive] = useState(false)
+
+  const aspect = attachment.width && attachment.height ? attachment.width / attachment.height : FALLBACK_ASPECT
+  const width = Math.round(Math.min(MAX_WIDTH, MAX_HEIGHT * aspect, attachment.width || MAX_WIDTH))
+  const placeholder = attachment.blurhash ? blurhashToDataUrl(attachment.blurhash) : null
+
+  return (
+    <div
+      style={{
+        width,
+        aspectRatio: `${aspect}`,
+        backgroundImage: placeholder ? `url(${placeholder})` : undefined,
+      }}
+      className="relative max-w-full rounded-xl overflow-hidden bg-black bg-cover bg-center border border-white/[0.04] group"
+    >
+      {isActive ? (
+        <video
+          src={attachment.url}
+          poster={attachment.poster_url}
+          controls
+          autoPlay
+          className="w-full h-full object-contain bg-black"
+        />
+      ) : (
+        <button onClick={() => setIsActive(true)} className="absolute inset-0 w-full h-full" title="Воспроизвести">
+          {attachment.poster_url && (
+            <img
+              src={attachment.poster_url}
+              alt={attachment.filename}
+              loading="lazy"
+              className="w-full h-full object-cover"
+            />
+          )}
+          <span className="absolute inset-0 flex items-center justify-center">
+            <span className="w-12 h-12 rounded-full bg-black/60 backdrop-blur-sm flex items-center justify-center text-white group-hover:bg-black/80 transition-colors">
+              <svg className="w-5 h-5 translate-x-px" fill="currentColor" viewBox="0 0 24 24">
+                <path d="M8 5.14v13.72a1 1 0 001.5.86l11-6.86a1 1 0 000-1.72l-11-6.86a1 1 0 00-1.5.86z" />
+              </svg>
+            </span>
+          </span>
+          {attachment.duration !== undefined && (
+            <span className="absolute left-2 bottom-2 px-1.5 py-0.5 rounded-md bg-black/60 text-[11px] text-white/80 tabular-nums">
+              {formatVoiceDuration(attachment.duration)}
+            </span>
+          )}
+        </button>
+      )}
+
+      <button
+        onClick={() => onExpand(attachment)}
+        className="absolute right-2 top-2 w-8 h-8 rounded-lg bg-black/60 flex items-center justify-center text-white/70 hover:text-white opacity-0 group-hover:opacity-100 transition-opacity"
+        title="Открыть на весь экран"
+      >
+        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M3.75 3.75v4.5m0-4.5h4.5m-4.5 0L9 9M3.75 20.25v-4.5m0 4.5h4.5m-4.5 0L9 15M20.25 3.75h-4.5m4.5 0v4.5m0-4.5L15 9m5.25 11.25h-4.5m4.5 0v-4.5m0 4.5L15 15" />
+        </svg>
+      </button>
+    </div>
+  )
+}
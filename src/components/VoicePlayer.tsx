@@ -0,0 +1,137 @@
+import { useRef, useState } from 'react'
+import type { Attachment } from '../api/messages'
+import { formatVoiceDuration } from '../lib/voice/VoiceRecorder'
+
+type Props = {
+  attachment: Attachment
+}
+
+const PLAYBACK_RATES = [1, 1.5, 2]
+
+// Only one voice message or audio file plays at a time
+let activeAudio: HTMLAudioElement | null = null
+
+// Voice messages get a waveform; other audio files a plain bar and the file name
+export function VoicePlayer({ attachment }: Props) {
+  const audioRef = useRef<HTMLAudioElement>(null)
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [currentTime, setCurrentTime] = useState(0)
+  const [rate, setRate] = useState(1)
+  const [isSeeking, setIsSeeking] = useState(false)
+  const [mediaDuration, setMediaDuration] = useState(0)
+
+  // Ogg streams often report Infinity until fully loaded - trust the upload metadata first
+  const duration = attachment.duration || mediaDuration
+  const waveform = attachment.waveform?.length ? attachment.waveform : null
+  const progress = duration > 0 ? Math.min(1, currentTime / duration) : 0
+
+  const togglePlay = () => {
+    const audio = audioRef.current
+    if (!audio) return
+    if (audio.paused) {
+      if (activeAudio && activeAudio !== audio) activeAudio.pause()
+      activeAudio = audio
+      audio.play().catch((err) => console.error('Failed to play voice message:', err))
+    } else {
+      audio.pause()
+    }
+  }
+
+  const seekTo = (e: React.PointerEvent<HTMLDivElement>) => {
+    const audio = audioRef.current
+    if (!audio || duration <= 0) return
+    const rect = e.currentTarget.getBoundingClientRect()
+    const fraction = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width))
+    audio.currentTime = fraction * duration
+    setCurrentTime(audio.currentTime)
+  }
+
+  const cycleRate = () => {
+    const next = PLAYBACK_RATES[(PLAYBACK_RATES.indexOf(rate) + 1) % PLAYBACK_RATES.length]
+    setRate(next)
+    if (audioRef.current) audioRef.current.playbackRate = next
+  }
+
+  return (
+    <div className="flex items-center gap-3 w-80 max-w-full px-3 py-2.5 bg-white/[0.03] border border-white/[0.04] rounded-2xl">
+      <audio
+        ref={audioRef}
+        src={attachment.url}
+        preload="metadata"
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onEnded={() => {
+          setIsPlaying(false)
+          setCurrentTime(0)
+        }}
+        onTimeUpdate={(e) => {
+          if (!isSeeking) setCurrentTime(e.currentTarget.currentTime)
+        }}
+        onLoadedMetadata={(e) => {
+          if (Number.isFinite(e.currentTarget.duration)) setMediaDuration(e.currentTarget.duration)
+          e.currentTarget.playbackRate = rate
+        }}
+      />
+
+      <button
+        onClick={togglePlay}
+        className="w-9 h-9 flex-shrink-0 rounded-full bg-white/90 hover:bg-white flex items-center justify-center text-black transition-colors"
+        title={isPlaying ? 'Пауза' : 'Воспроизвести'}
+      >
+        {isPlaying ? (
+          <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+            <rect x="6" y="5" width="4" height="14" rx="1" />
+            <rect x="14" y="5" width="4" height="14" rx="1" />
+          </svg>
+        ) : (
+          <svg className="w-4 h-4 translate-x-px" fill="currentColor" viewBox="0 0 24 24">
+            <path d="M8 5.14v13.72a1 1 0 001.5.86l11-6.86a1 1 0 000-1.72l-11-6.86a1 1 0 00-1.5.86z" />
+          </svg>
+        )}
+      </button>
+
+      <div className="flex-1 min-w-0">
+        {!waveform && <p className="text-sm text-white/70 truncate">{attachment.filename}</p>}
+        {/* Waveform - click or drag to seek */}
+        <div
+          onPointerDown={(e) => {
+            e.currentTarget.setPointerCapture(e.pointerId)
+            setIsSeeking(true)
+            seekTo(e)
+          }}
+          onPointerMove={(e) => {
+            if (isSeeking) seekTo(e)
+          }}
+          onPointerUp={() => setIsSeeking(false)}
+          onPointerCancel={() => setIsSeeking(false)}
+          className={`flex items-center gap-[2px] cursor-pointer touch-none ${waveform ? 'h-7' : 'h-4'}`}
+        >
+          {waveform ? waveform.map((value, i) => (
+            <span
+              key={i}
+              style={{ height: `${Math.max(12, value)}%` }}
+              className={`flex-1 rounded-full transition-colors ${
+                i / waveform.length < progress ? 'bg-white/80' : 'bg-white/20'
+              }`}
+            />
+          )) : (
+            <div className="flex-1 h-1 rounded-full bg-white/20 overflow-hidden">
+              <div className="h-full bg-white/80" style={{ width: `${progress * 100}%` }} />
+            </div>
+          )}
+        </div>
+        <p className="mt-0.5 text-[11px] text-white/40 tabular-nums">
+          {formatVoiceDuration(isPlaying || currentTime > 0 ? currentTime : duration)}
+        </p>
+      </div>
+
+      <button
+        onClick={cycleRate}
+        className="h-6 min-w-[2.25rem] px-1.5 flex-shrink-0 rounded-md bg-white/[0.06] hover:bg-white/[0.1] text-[11px] font-medium text-white/60 hover:text-white tabular-nums transition-colors"
+        title="Скорость воспроизведения"
+      >
+        {rate}x
+      </button>
+    </div>
+  )
+}
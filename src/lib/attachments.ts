@@ -0,0 +1,22 @@
+/**
+ * Attachment labels
+ *
+ * One-word descriptions for message previews (channel list, replies, search)
+ * when a message has attachments but no text.
+ */
+
+import type { Attachment } from '../api/messages'
+
+export function attachmentLabel(attachment: Attachment): string {
+  switch (attachment.type) {
+    case 'image':
+      return 'Фото'
+    case 'video':
+      return 'Видео'
+    case 'audio':
+      // Only voice messages carry a waveform
+      return attachment.waveform?.length ? 'Голосовое сообщение' : 'Аудио'
+    default:
+      return 'Файл'
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Batched id lookups
+ *
+ * - Ids asked for within a short window go out as one request
+ * - Components resolve each id once, so when the request doesn't reach the
+ *   server its ids are retried on their own, backing off up to the max.
+ *   Any other failure drops them unresolved - the next resolve asks again
+ * - reset() discards queued ids and whatever is still in flight
+ */
+
+import { isNetworkError } from '../api/client'
+
+const RETRY_BASE_MS = 1000
+const MAX_RETRY_DELAY_MS = 30_000
+
+type LookupOptions<T> = {
+  // How long to collect ids before sending
+  delayMs: number
+  fetch: (ids: string[]) => Promise<T[]>
+  // Called with every id that was asked for and what the server returned
+  onFound: (ids: string[], found: T[]) => void
+  // What's being looked up, for the console
+  label: string
+}
+
+export type BatchedLookup = {
+  // No-op while the id is already queued or in flight
+  request: (id: string) => void
+  reset: () => void
+}
+
+export function createBatchedLookup<T>({ delayMs, fetch, onFound, label }: LookupOptions<T>): BatchedLookup {
+  let queuedIds = new Set<string>()
+  let inFlightIds = new Set<string>()
+  let timer: ReturnType<typeof setTimeout> | null = null
+  let failedLookups = 0
+  // Bumped by reset so lookups started before it are ignored
+  let generation = 0
+
+  const lookup = async () => {
+    const ids = Array.from(queuedIds)
+    const startedIn = generation
+    queuedIds = new Set()
+    for (const id of ids) inFlightIds.add(id)
+    timer = null
+
+    try {
+      const found = (await fetch(ids)) || []
+      if (startedIn !== generation) return
+      for (const id of ids) inFlightIds.delete(id)
+      failedLookups = 0
+      onFound(ids, found)
+    } catch (err) {
+      if (startedIn !== generation) return
+      console.error(`Failed to look up ${label}:`, err)
+      for (const id of ids) inFlightIds.delete(id)
+      if (!isNetworkError(err)) return
+      for (const id of ids) queuedIds.add(id)
+      const delay = Math.min(RETRY_BASE_MS * 2 ** failedLookups++, MAX_RETRY_DELAY_MS)
+      timer ??= setTimeout(lookup, delay)
+    }
+  }
+
+  return {
+    request: (id) => {
+      if (queuedIds.has(id) || inFlightIds.has(id)) return
+      queuedIds.add(id)
+      timer ??= setTimeout(lookup, delayMs)
+    },
+
+    reset: () => {
+      if (timer) clearTimeout(timer)
+      timer = null
+      queuedIds = new Set()
+      inFlightIds = new Set()
+      failedLookups = 0
+      generation++
+    },
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * BlurHash encoder/decoder
+ *
+ * A BlurHash is a short base83 string holding a few DCT components of an
+ * image (https://blurha.sh). We compute it from a tiny thumbnail at upload
+ * time and decode it into a blurry placeholder while the real image loads.
+ */
+
+const BASE83 = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz#$%*+,-.:;=?@[]^_{|}~'
+
+// Placeholders are stretched over the image box, so a tiny bitmap is enough
+const PLACEHOLDER_SIZE = 32
+
+function encode83(value: number, length: number): string {
+  let result = ''
+  for (let i = 1; i <= length; i++) {
+    const digit = Math.floor(value / Math.pow(83, length - i)) % 83
+    result += BASE83[digit]
+  }
+  return result
+}
+
+function decode83(str: string): number {
+  let value = 0
+  for (const char of str) {
+    const digit = BASE83.indexOf(char)
+    if (digit === -1) throw new Error(`Invalid blurhash character: ${char}`)
+    value = value * 83 + digit
+  }
+  return value
+}
+
+function srgbToLinear(value: number): number {
+  const v = value / 255
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4)
+}
+
+function linearToSrgb(value: number): number {
+  const v = Math.max(0, Math.min(1, value))
+  return v <= 0.0031308
+    ? Math.round(v * 12.92 * 255 + 0.5)
+    : Math.round((1.055 * Math.pow(v, 1 / 2.4) - 0.055) * 255 + 0.5)
+}
+
+const signPow = (value: number, exp: number) => Math.sign(value) * Math.pow(Math.abs(value), exp)
+
+/**
+ * Encode RGBA pixels into a BlurHash with componentsX x componentsY components (1-9 each)
+ */
+export function encodeBlurhash(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  componentsX: number,
+  componentsY: number
+): string {
+  const factors: [number, number, number][] = []
+  for (let j = 0; j < componentsY; j++) {
+    for (let i = 0; i < componentsX; i++) {
+      const normalisation = i === 0 && j === 0 ? 1 : 2
+      let r = 0
+      let g = 0
+      let b = 0
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const basis = normalisation * Math.cos((Math.PI * i * x) / width) * Math.cos((Math.PI * j * y) / height)
+          const offset = 4 * (x + y * width)
+          r += basis * srgbToLinear(pixels[offset])
+          g += basis * srgbToLinear(pixels[offset + 1])
+          b += basis * srgbToLinear(pixels[offset + 2])
+        }
+      }
+      const scale = 1 / (width * height)
+      factors.push([r * scale, g * scale, b * scale])
+    }
+  }
+
+  const [dc, ...ac] = factors
+  let hash = encode83(componentsX - 1 + (componentsY - 1) * 9, 1)
+
+  let maximumValue = 1
+  if (ac.length > 0) {
+    const actualMax = Math.max(...ac.map((f) => Math.max(...f.map(Math.abs))))
+    const quantisedMax = Math.max(0, Math.min(82, Math.floor(actualMax * 166 - 0.5)))
+    maximumValue = (quantisedMax + 1) / 166
+    hash += encode83(quantisedMax, 1)
+  } else {
+    hash += encode83(0, 1)
+  }
+
+  hash += encode83((linearToSrgb(dc[0]) << 16) + (linearToSrgb(dc[1]) << 8) + linearToSrgb(dc[2]), 4)
+
+  for (const factor of ac) {
+    const [qr, qg, qb] = factor.map((v) =>
+      Math.max(0, Math.min(18, Math.floor(signPow(v / maximumValue, 0.5) * 9 + 9.5)))
+    )
+    hash += encode83(qr * 19 * 19 + qg * 19 + qb, 2)
+  }
+
+  return hash
+}
+
+/**
+ * Decode a BlurHash into width x height RGBA pixels
+ */
+export function decodeBlurhash(hash: string, width: number, height: number): Uint8ClampedArray {
+  const sizeFlag = decode83(hash[0])
+  const componentsY = Math.floor(sizeFlag / 9) + 1
+  const componentsX = (sizeFlag % 9) + 1
+  if (hash.length !== 4 + 2 * componentsX * componentsY) {
+    throw new Error('Invalid blurhash length')
+  }
+
+  const maximumValue = (decode83(hash[1]) + 1) / 166
+  const dc = decode83(hash.slice(2, 6))
+  const colors: [number, number, number][] = [
+    [srgbToLinear(dc >> 16), srgbToLinear((dc >> 8) & 255), srgbToLinear(dc & 255)],
+  ]
+  for (let i = 1; i < componentsX * componentsY; i++) {
+    const value = decode83(hash.slice(4 + i * 2, 6 + i * 2))
+    colors.push([
+      signPow((Math.floor(value / (19 * 19)) - 9) / 9, 2) * maximumValue,
+      signPow(((Math.floor(value / 19) % 19) - 9) / 9, 2) * maximumValue,
+      signPow(((value % 19) - 9) / 9, 2) * maximumValue,
+    ])
+  }
+
+  const pixels = new Uint8ClampedArray(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0
+      let g = 0
+      let b = 0
+      for (let j = 0; j < componentsY; j++) {
+        for (let i = 0; i < componentsX; i++) {
+          const basis = Math.cos((Math.PI * x * i) / width) * Math.cos((Math.PI * y * j) / height)
+          const color = colors[i + j * componentsX]
+          r += color[0] * basis
+          g += color[1] * basis
+          b += color[2] * basis
+        }
+      }
+      const offset = 4 * (x + y * width)
+      pixels[offset] = linearToSrgb(r)
+      pixels[offset + 1] = linearToSrgb(g)
+      pixels[offset + 2] = linearToSrgb(b)
+      pixels[offset + 3] = 255
+    }
+  }
+  return pixels
+}
+
+// Decoded placeholders, keyed by hash - the same image shows up in the timeline and search
+const dataUrlCache = new Map<string, string | null>()
+
+/**
+ * Render a BlurHash to a data URL for use as a background (null if the hash is malformed)
+ */
+export function blurhashToDataUrl(hash: string): string | null {
+  const cached = dataUrlCache.get(hash)
+  if (cached !== undefined) return cached
+
+  let url: string | null = null
+  try {
+    const canvas = document.createElement('canvas')
+    canvas.width = PLACEHOLDER_SIZE
+    canvas.height = PLACEHOLDER_SIZE
+    const ctx = canvas.getContext('2d')
+    if (ctx) {
+      const pixels = decodeBlurhash(hash, PLACEHOLDER_SIZE, PLACEHOLDER_SIZE)
+      ctx.putImageData(new ImageData(new Uint8ClampedArray(pixels), PLACEHOLDER_SIZE, PLACEHOLDER_SIZE), 0, 0)
+      url = canvas.toDataURL()
+    }
+  } catch (err) {
+    console.error('Failed to decode blurhash:', err)
+  }
+
+  dataUrlCache.set(hash, url)
+  return url
+}
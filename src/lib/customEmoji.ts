@@ -0,0 +1,45 @@
+/**
+ * Custom emoji in message content and reactions
+ *
+ * Stored as `<:name:emojiId>` tokens - the id keeps the emoji working after
+ * a rename and tells apart same-named emoji of different groups. The composer
+ * shows plain `:name:` text and encodes it on send, like mentions.
+ */
+
+import type { CustomEmoji } from '../api/emoji'
+
+export const EMOJI_NAME_PATTERN = /^\w{2,32}$/
+
+const TOKEN_PATTERN = /<:(\w{2,32}):([\w-]+)>/g
+
+export const customEmojiToken = (emoji: Pick<CustomEmoji, 'id' | 'name'>) => `<:${emoji.name}:${emoji.id}>`
+
+// `<:name:id>` as a whole string (reactions) -> its parts
+export function parseCustomEmojiToken(value: string): { name: string; id: string } | null {
+  const match = /^<:(\w{2,32}):([\w-]+)>$/.exec(value)
+  return match ? { name: match[1], id: match[2] } : null
+}
+
+// The `:query` the caret is currently in, if any
+export function getEmojiQuery(text: string, caret: number): { query: string; start: number } | null {
+  const match = /(^|\s):(\w{2,32})$/.exec(text.slice(0, caret))
+  if (!match) return null
+  return { query: match[2], start: match.index + match[1].length }
+}
+
+/**
+ * `:name:` -> `<:name:id>`
+ *
+ * `emoji` is what the sender may use here, in priority order - the first
+ * emoji with a name wins, so put the conversation's own emoji first.
+ */
+export function encodeCustomEmoji(text: string, emoji: CustomEmoji[]): string {
+  // Not inside a word (12:30:45) or an existing token
+  return text.replace(/(?<![<\w]):(\w{2,32}):/g, (token, name: string) => {
+    const match = emoji.find((e) => e.name === name)
+    return match ? customEmojiToken(match) : token
+  })
+}
+
+// `<:name:id>` -> `:name:` for the composer and the edit box
+export const decodeCustomEmoji = (text: string) => text.replace(TOKEN_PATTERN, ':$1:')
@@ -0,0 +1,541 @@
+/**
+ * Built-in emoji set for the picker
+ *
+ * A curated list rather than the full Unicode table - enough for chat and
+ * reactions without shipping a megabyte of data. Every emoji carries English
+ * and Russian keywords for search. Emoji marked with `*` in the table accept
+ * a Fitzpatrick skin tone modifier.
+ */
+
+export type EmojiCategory = {
+  id: string
+  label: string
+  icon: string
+  emoji: EmojiEntry[]
+}
+
+export type EmojiEntry = {
+  // Default (yellow) form
+  char: string
+  keywords: string[]
+  toneable: boolean
+}
+
+// Index 0 is the default yellow tone
+export const SKIN_TONES = ['', '\u{1F3FB}', '\u{1F3FC}', '\u{1F3FD}', '\u{1F3FE}', '\u{1F3FF}'] as const
+export type SkinTone = 0 | 1 | 2 | 3 | 4 | 5
+
+// One emoji per line: `char keyword keyword ...`, `*char` if it takes a skin tone
+const RAW: [id: string, label: string, icon: string, table: string][] = [
+  ['smileys', 'Смайлы', '😀', `
+😀 grinning smile happy улыбка радость
+😃 smiley happy joy улыбка радость
+😄 smile laugh happy смех улыбка
+😁 grin beaming зубы улыбка
+😆 laughing satisfied смех хохот
+😅 sweat smile нервно пот
+🤣 rofl rolling laugh ржу катаюсь смех
+😂 joy tears laugh слёзы смех ржака
+🙂 slight smile улыбка
+🙃 upside down перевёрнутый
+😉 wink подмигивание
+😊 blush smile румянец улыбка
+😇 innocent halo ангел нимб
+🥰 love hearts влюблён сердечки
+😍 heart eyes love влюблён обожаю
+🤩 star struck звёзды восторг
+😘 kiss blow поцелуй
+😋 yum tasty вкусно
+😛 tongue язык дразнить
+😜 wink tongue прикол шутка
+🤪 zany crazy безумный
+🤑 money rich деньги
+🤗 hug обнимашки объятия
+🤭 oops giggle хихикать упс
+🤫 shush quiet тихо тсс
+🤔 thinking hmm думаю хм
+🤐 zipper mouth молчу рот
+🤨 raised eyebrow подозрение бровь
+😐 neutral нейтрально
+😑 expressionless без эмоций
+😶 no mouth нет слов
+😏 smirk ухмылка
+😒 unamused недоволен
+🙄 eye roll закатить глаза
+😬 grimace неловко
+😌 relieved облегчение
+😔 pensive грусть задумчивый
+😪 sleepy сонный
+🤤 drool слюни
+😴 sleeping сон спать
+😷 mask sick маска болею
+🤒 thermometer sick температура болею
+🤕 bandage hurt травма
+🤢 nauseated тошнит
+🤮 vomit рвота фу
+🥵 hot жарко
+🥶 cold холодно мёрзну
+🥴 woozy пьяный
+😵 dizzy голова кругом
+🤯 mind blown взрыв мозга шок
+🤠 cowboy ковбой
+🥳 party празднуем вечеринка
+😎 cool sunglasses круто очки
+🤓 nerd ботаник
+🧐 monocle хм монокль
+😕 confused растерян
+😟 worried беспокоюсь
+🙁 frown грустно
+😮 open mouth wow удивление вау
+😯 hushed удивлён
+😲 astonished изумлён
+😳 flushed смущение
+🥺 pleading please пожалуйста щенячьи глаза
+😦 frowning open хмурый
+😧 anguished страдание
+😨 fearful страх
+😰 anxious тревога
+😥 sad relieved грусть
+😢 cry tear плачу слеза
+😭 sob crying рыдаю
+😱 scream ужас крик
+😖 confounded мучение
+😣 persevere терплю
+😞 disappointed разочарован
+😓 downcast sweat уныние
+😩 weary устал
+😫 tired усталость
+🥱 yawn зевать скучно
+😤 triumph huff фыркать
+😡 rage angry ярость злость
+😠 angry злой
+🤬 cursing ругань мат
+😈 devil smiling чертёнок
+👿 imp angry devil демон
+💀 skull dead череп умер
+💩 poop какашка
+🤡 clown клоун
+👻 ghost привидение призрак
+👽 alien инопланетянин
+🤖 robot робот
+😺 cat smile кот улыбка
+😹 cat joy кот смех
+😻 cat heart eyes кот любовь
+🙈 see no evil обезьяна не вижу
+🙉 hear no evil обезьяна не слышу
+🙊 speak no evil обезьяна молчу
+`],
+  ['people', 'Люди', '👋', `
+*👋 wave hello hi привет помахать
+*🤚 raised back hand рука
+*✋ raised hand stop стоп рука
+*🖖 vulcan спок
+*👌 ok окей хорошо
+*🤌 pinched italian итальянец
+*🤏 pinch little чуть-чуть
+*✌️ victory peace мир победа
+*🤞 crossed fingers удачи скрестить
+*🤟 love you люблю
+*🤘 rock metal рок
+*🤙 call me позвони
+*👈 point left влево
+*👉 point right вправо
+*👆 point up вверх
+*👇 point down вниз
+*☝️ index up внимание
+*👍 thumbs up like yes лайк класс да
+*👎 thumbs down dislike no дизлайк нет
+*✊ raised fist кулак
+*👊 punch fist bump удар
+*👏 clap аплодисменты браво
+*🙌 raising hands hooray ура
+*👐 open hands руки
+*🤲 palms up ладони
+🤝 handshake deal рукопожатие сделка
+*🙏 pray please thanks молюсь пожалуйста спасибо
+*✍️ writing пишу
+*💪 muscle strong сила мышцы
+🧠 brain мозг
+👀 eyes look смотрю глаза
+👁️ eye глаз
+👄 mouth рот
+*👶 baby малыш
+*🧒 child ребёнок
+*👦 boy мальчик
+*👧 girl девочка
+*🧑 person человек
+*👨 man мужчина
+*👩 woman женщина
+*🧓 older person пожилой
+*👴 old man дедушка
+*👵 old woman бабушка
+*🙋 raising hand я руку поднять
+*🙅 no gesture нет запрет
+*🙆 ok gesture окей
+*🤷 shrug не знаю пожимаю
+*🤦 facepalm фейспалм
+*🙇 bow поклон
+*💁 tipping hand информация
+*🧑‍💻 technologist programmer программист
+*🏃 running бег бегу
+*💃 dancing woman танец
+*🕺 dancing man танцую
+`],
+  ['nature', 'Природа', '🐶', `
+🐶 dog puppy собака щенок
+🐱 cat кошка кот
+🐭 mouse мышь
+🐹 hamster хомяк
+🐰 rabbit кролик заяц
+🦊 fox лиса
+🐻 bear медведь
+🐼 panda панда
+🐨 koala коала
+🐯 tiger тигр
+🦁 lion лев
+🐮 cow корова
+🐷 pig свинья
+🐸 frog лягушка
+🐵 monkey обезьяна
+🐔 chicken курица
+🐧 penguin пингвин
+🐦 bird птица
+🦆 duck утка
+🦅 eagle орёл
+🦉 owl сова
+🐺 wolf волк
+🐴 horse лошадь
+🦄 unicorn единорог
+🐝 bee пчела
+🐛 bug гусеница
+🦋 butterfly бабочка
+🐌 snail улитка
+🐞 ladybug божья коровка
+🐢 turtle черепаха
+🐍 snake змея
+🐙 octopus осьминог
+🦀 crab краб
+🐟 fish рыба
+🐬 dolphin дельфин
+🐳 whale кит
+🦈 shark акула
+🌵 cactus кактус
+🎄 christmas tree ёлка
+🌲 tree дерево
+🌴 palm пальма
+🌱 seedling росток
+🍀 clover luck клевер удача
+🍁 maple leaf клён лист
+💐 bouquet букет цветы
+🌹 rose роза
+🌻 sunflower подсолнух
+🌸 blossom цветок сакура
+🌍 earth globe земля мир
+🌙 moon луна
+⭐ star звезда
+🌟 glowing star сияет звезда
+✨ sparkles блёстки искры
+⚡ lightning zap молния
+🔥 fire lit огонь жара
+🌈 rainbow радуга
+☀️ sun солнце
+⛅ cloud sun облачно
+🌧️ rain дождь
+❄️ snowflake снежинка снег
+☃️ snowman снеговик
+💧 droplet капля
+🌊 wave волна море
+`],
+  ['food', 'Еда', '🍔', `
+🍏 green apple яблоко
+🍎 apple яблоко
+🍐 pear груша
+🍊 orange апельсин мандарин
+🍋 lemon лимон
+🍌 banana банан
+🍉 watermelon арбуз
+🍇 grapes виноград
+🍓 strawberry клубника
+🍒 cherries вишня черешня
+🍑 peach персик
+🥭 mango манго
+🍍 pineapple ананас
+🥥 coconut кокос
+🥝 kiwi киви
+🍅 tomato помидор
+🥑 avocado авокадо
+🥦 broccoli брокколи
+🥒 cucumber огурец
+🌶️ hot pepper перец острый
+🌽 corn кукуруза
+🥕 carrot морковь
+🥔 potato картошка
+🥐 croissant круассан
+🍞 bread хлеб
+🧀 cheese сыр
+🥚 egg яйцо
+🍳 cooking яичница
+🥞 pancakes блины
+🥓 bacon бекон
+🍗 poultry leg курица ножка
+🍖 meat мясо
+🌭 hot dog хотдог
+🍔 burger гамбургер бургер
+🍟 fries картошка фри
+🍕 pizza пицца
+🥪 sandwich бутерброд
+🌮 taco тако
+🌯 burrito буррито
+🍝 spaghetti паста спагетти
+🍜 ramen noodles лапша рамен
+🍣 sushi суши
+🥟 dumpling пельмени
+🍦 ice cream мороженое
+🍩 doughnut пончик
+🍪 cookie печенье
+🎂 birthday cake торт день рождения
+🍰 cake пирожное
+🍫 chocolate шоколад
+🍬 candy конфета
+🍿 popcorn попкорн
+☕ coffee кофе
+🍵 tea чай
+🥤 soda cup напиток
+🍺 beer пиво
+🍻 beers cheers пиво тост
+🥂 champagne clink шампанское тост
+🍷 wine вино
+🥃 whisky виски
+🍸 cocktail коктейль
+`],
+  ['activities', 'Занятия', '⚽', `
+⚽ soccer football футбол мяч
+🏀 basketball баскетбол
+🏈 american football регби
+⚾ baseball бейсбол
+🎾 tennis теннис
+🏐 volleyball волейбол
+🏓 ping pong пинг-понг
+🏸 badminton бадминтон
+🏒 hockey хоккей
+🥊 boxing бокс
+⛳ golf гольф
+🎿 ski лыжи
+🏂 snowboard сноуборд
+🏆 trophy win кубок победа
+🥇 gold medal first золото первый
+🥈 silver medal second серебро второй
+🥉 bronze medal third бронза третий
+🏅 medal медаль
+🎯 bullseye target цель в яблочко
+🎮 video game геймпад игра
+🕹️ joystick джойстик
+🎲 dice кубик
+♟️ chess шахматы
+🧩 puzzle пазл
+🎨 art palette рисование искусство
+🎬 clapper кино фильм
+🎤 microphone микрофон караоке
+🎧 headphones наушники музыка
+🎸 guitar гитара
+🎹 piano пианино
+🥁 drum барабан
+🎉 party popper tada праздник ура
+🎊 confetti конфетти
+🎈 balloon шарик
+🎁 gift present подарок
+🎃 jack o lantern тыква хэллоуин
+`],
+  ['travel', 'Места', '🚗', `
+🚗 car машина авто
+🚕 taxi такси
+🚌 bus автобус
+🚑 ambulance скорая
+🚒 fire engine пожарная
+🚓 police car полиция
+🏎️ racing car гонки
+🏍️ motorcycle мотоцикл
+🚲 bicycle велосипед
+🛴 scooter самокат
+🚂 train поезд
+🚇 metro метро
+✈️ airplane самолёт
+🚀 rocket ракета
+🛸 ufo нло
+🚁 helicopter вертолёт
+⛵ sailboat парусник
+🚢 ship корабль
+⚓ anchor якорь
+🗺️ map карта
+🏠 house дом
+🏢 office офис
+🏥 hospital больница
+🏫 school школа
+🏰 castle замок
+🗽 statue of liberty статуя свободы
+🗼 tower башня
+⛺ tent палатка
+🏖️ beach пляж
+🏝️ island остров
+🌋 volcano вулкан
+🏔️ mountain гора
+🌃 night city ночь город
+🎡 ferris wheel колесо обозрения
+`],
+  ['objects', 'Предметы', '💡', `
+⌚ watch часы
+📱 phone телефон смартфон
+💻 laptop ноутбук
+⌨️ keyboard клавиатура
+🖥️ desktop компьютер
+🖨️ printer принтер
+🖱️ mouse computer мышка
+💾 floppy save дискета
+📷 camera камера фото
+🎥 movie camera видео
+📞 telephone трубка звонок
+📺 tv телевизор
+⏰ alarm clock будильник
+⏳ hourglass ждать песочные часы
+🔋 battery батарея
+🔌 plug вилка
+💡 bulb idea лампочка идея
+🔦 flashlight фонарик
+💸 money wings деньги улетают
+💵 dollar доллар
+💰 money bag мешок денег
+💳 credit card карта
+💎 gem diamond алмаз
+🔧 wrench гаечный ключ
+🔨 hammer молоток
+🛠️ tools инструменты
+⚙️ gear шестерёнка настройки
+🔑 key ключ
+🔒 lock замок закрыто
+🔓 unlock открыто
+🛡️ shield щит
+💣 bomb бомба
+🔪 knife нож
+💊 pill таблетка
+💉 syringe шприц прививка
+🧪 test tube пробирка
+🔭 telescope телескоп
+🔬 microscope микроскоп
+📦 package box посылка коробка
+✉️ envelope письмо
+📧 email почта
+📝 memo заметка
+📅 calendar календарь
+📌 pin кнопка закрепить
+📎 paperclip скрепка
+✂️ scissors ножницы
+📚 books книги
+📖 book книга
+🔔 bell колокольчик уведомление
+🔕 no bell без звука
+📣 megaphone мегафон
+🏷️ label ярлык
+`],
+  ['symbols', 'Символы', '❤️', `
+❤️ heart love сердце любовь
+🧡 orange heart оранжевое сердце
+💛 yellow heart жёлтое сердце
+💚 green heart зелёное сердце
+💙 blue heart синее сердце
+💜 purple heart фиолетовое сердце
+🖤 black heart чёрное сердце
+🤍 white heart белое сердце
+🤎 brown heart коричневое сердце
+💔 broken heart разбитое сердце
+❤️‍🔥 heart on fire пылающее сердце
+💕 two hearts сердечки
+💞 revolving hearts сердечки
+💖 sparkling heart сияющее сердце
+💯 hundred perfect сто идеально
+💢 anger злость
+💥 boom collision бум взрыв
+💫 dizzy star головокружение
+💦 sweat drops брызги
+💨 dash быстро
+💬 speech bubble сообщение
+💭 thought bubble мысль
+💤 zzz sleep сон
+✅ check done готово галочка
+☑️ ballot check отмечено
+✔️ check mark галочка
+❌ cross no нет крестик
+❎ cross button крестик
+➕ plus плюс
+➖ minus минус
+❓ question вопрос
+❗ exclamation восклицание важно
+‼️ double exclamation внимание
+⚠️ warning внимание осторожно
+🚫 prohibited запрещено
+⛔ no entry вход запрещён
+🔴 red circle красный круг
+🟢 green circle зелёный круг
+🔵 blue circle синий круг
+⚪ white circle белый круг
+⚫ black circle чёрный круг
+🆗 ok окей
+🆕 new новое
+🆒 cool круто
+🆘 sos помогите
+♻️ recycle переработка
+🔁 repeat повтор
+▶️ play играть
+⏸️ pause пауза
+⏹️ stop стоп
+🎵 note music нота музыка
+🎶 notes music ноты
+➡️ right arrow стрелка вправо
+⬅️ left arrow стрелка влево
+⬆️ up arrow стрелка вверх
+⬇️ down arrow стрелка вниз
+🔝 top топ
+🏳️ white flag белый флаг
+🏴 black flag чёрный флаг
+🏁 checkered flag финиш
+🏳️‍🌈 rainbow flag радужный флаг
+`],
+]
+
+export const EMOJI_CATEGORIES: EmojiCategory[] = RAW.map(([id, label, icon, table]) => ({
+  id,
+  label,
+  icon,
+  emoji: table
+    .trim()
+    .split('\n')
+    .map((line) => {
+      const [first, ...keywords] = line.trim().split(/\s+/)
+      const toneable = first.startsWith('*')
+      return { char: toneable ? first.slice(1) : first, keywords, toneable }
+    }),
+}))
+
+const ALL_EMOJI = EMOJI_CATEGORIES.flatMap((c) => c.emoji)
+const BY_CHAR = new Map(ALL_EMOJI.map((e) => [e.char, e]))
+
+/**
+ * Apply a skin tone to an emoji (unchanged if it doesn't take one)
+ */
+export function withSkinTone(char: string, tone: SkinTone): string {
+  if (!tone || !BY_CHAR.get(char)?.toneable) return char
+  // The modifier replaces the presentation selector and goes right after the
+  // first code point (before any ZWJ sequence)
+  const [base, ...rest] = Array.from(char.replace(/\uFE0F/g, ''))
+  return base + SKIN_TONES[tone] + rest.join('')
+}
+
+/**
+ * Emoji whose keywords start with any word of the query
+ */
+export function searchEmoji(query: string): EmojiEntry[] {
+  const words = query.toLowerCase().trim().split(/\s+/).filter(Boolean)
+  if (words.length === 0) return []
+  return ALL_EMOJI.filter(
+    (e) => words.includes(e.char) || words.every((w) => e.keywords.some((k) => k.startsWith(w)))
+  )
+}
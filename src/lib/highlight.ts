@@ -0,0 +1,127 @@
+/**
+ * Lightweight syntax highlighting for code blocks
+ *
+ * A single-pass regex tokenizer - good enough to tell keywords, strings,
+ * comments and numbers apart in chat snippets, without shipping a full
+ * grammar library. Unknown languages come back as one plain token.
+ */
+
+export type HighlightTokenType = 'plain' | 'keyword' | 'string' | 'comment' | 'number'
+
+export type HighlightToken = {
+  type: HighlightTokenType
+  text: string
+}
+
+type Language = {
+  comment: RegExp
+  keywords: Set<string>
+}
+
+const words = (list: string) => new Set(list.split(' '))
+
+const C_COMMENT = /\/\/[^\n]*|\/\*[\s\S]*?\*\//
+const HASH_COMMENT = /#[^\n]*/
+const DASH_COMMENT = /--[^\n]*/
+
+const JS_KEYWORDS = words(
+  'as async await break case catch class const continue default delete do else enum export extends ' +
+  'false finally for from function if implements import in instanceof interface let new null of ' +
+  'private protected public readonly return static super switch this throw true try type typeof ' +
+  'undefined var void while yield'
+)
+
+const C_LIKE_KEYWORDS = words(
+  'abstract auto bool break case catch char class const continue default do double else enum ' +
+  'extends false final float for fun func go if implements import int interface let long namespace ' +
+  'new nil null package private protected public return self short signed static struct super ' +
+  'switch this throw true try typedef unsigned using val var void while'
+)
+
+const LANGUAGES: Record<string, Language> = {}
+
+const register = (names: string, language: Language) => {
+  for (const name of names.split(' ')) LANGUAGES[name] = language
+}
+
+register('js javascript jsx ts typescript tsx', { comment: C_COMMENT, keywords: JS_KEYWORDS })
+register('c h cpp c++ cs csharp java kotlin kt swift go golang php dart scala', {
+  comment: C_COMMENT,
+  keywords: C_LIKE_KEYWORDS,
+})
+register('rust rs', {
+  comment: C_COMMENT,
+  keywords: words(
+    'as async await break const continue crate else enum false fn for if impl in let loop match mod ' +
+    'move mut pub ref return self Self static struct super trait true type unsafe use where while'
+  ),
+})
+register('py python', {
+  comment: HASH_COMMENT,
+  keywords: words(
+    'and as assert async await break class continue def del elif else except False finally for ' +
+    'from global if import in is lambda None nonlocal not or pass raise return True try while with yield'
+  ),
+})
+register('sh bash shell zsh', {
+  comment: HASH_COMMENT,
+  keywords: words('case do done echo elif else esac exit export fi for function if in local return then until while'),
+})
+register('yaml yml toml', { comment: HASH_COMMENT, keywords: words('true false null yes no') })
+register('json', { comment: /(?!)/, keywords: words('true false null') })
+register('sql', {
+  comment: DASH_COMMENT,
+  keywords: words(
+    'select from where and or not insert into values update set delete create table alter drop index ' +
+    'join left right inner outer on group by order having limit offset as null is in like distinct ' +
+    'SELECT FROM WHERE AND OR NOT INSERT INTO VALUES UPDATE SET DELETE CREATE TABLE ALTER DROP INDEX ' +
+    'JOIN LEFT RIGHT INNER OUTER ON GROUP BY ORDER HAVING LIMIT OFFSET AS NULL IS IN LIKE DISTINCT'
+  ),
+})
+register('lua', {
+  comment: DASH_COMMENT,
+  keywords: words('and break do else elseif end false for function if in local nil not or repeat return then true until while'),
+})
+
+const STRING = /"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'|`(?:\\.|[^`\\])*`/
+const NUMBER = /\b(?:0x[\da-fA-F]+|\d+(?:\.\d+)?(?:e[+-]?\d+)?)\b/
+const WORD = /\b[A-Za-z_$][\w$]*\b/
+
+// Compiled per language on first use
+const patterns = new Map<Language, RegExp>()
+
+const patternFor = (language: Language) => {
+  let pattern = patterns.get(language)
+  if (!pattern) {
+    pattern = new RegExp(`(${language.comment.source})|(${STRING.source})|(${NUMBER.source})|(${WORD.source})`, 'g')
+    patterns.set(language, pattern)
+  }
+  return pattern
+}
+
+export function highlightCode(code: string, lang: string | null): HighlightToken[] {
+  const language = lang ? LANGUAGES[lang] : undefined
+  if (!language) return [{ type: 'plain', text: code }]
+
+  const tokens: HighlightToken[] = []
+  const push = (type: HighlightTokenType, text: string) => {
+    const prev = tokens[tokens.length - 1]
+    if (prev?.type === type) prev.text += text
+    else tokens.push({ type, text })
+  }
+
+  let last = 0
+  for (const match of code.matchAll(patternFor(language))) {
+    push('plain', code.slice(last, match.index))
+    last = match.index + match[0].length
+
+    const [text, comment, string, number] = match
+    if (comment !== undefined) push('comment', text)
+    else if (string !== undefined) push('string', text)
+    else if (number !== undefined) push('number', text)
+    else push(language.keywords.has(text) ? 'keyword' : 'plain', text)
+  }
+  push('plain', code.slice(last))
+
+  return tokens.filter((token) => token.text)
+}
@@ -0,0 +1,53 @@
+/**
+ * Client-side image downscaling
+ *
+ * Big photos are resized to fit MAX_IMAGE_DIMENSION and re-encoded before
+ * upload - a phone shot goes from several megabytes to a few hundred KB.
+ * Animated and vector formats are left alone, and so is anything that
+ * wouldn't get smaller.
+ */
+
+export const MAX_IMAGE_DIMENSION = 2560
+
+// Below this there's little to gain from re-encoding
+const MIN_COMPRESS_BYTES = 512 * 1024
+
+const JPEG_QUALITY = 0.85
+
+// GIF/APNG/WebP may be animated, SVG is vector - a canvas would flatten them
+const SKIPPED_TYPES = new Set(['image/gif', 'image/svg+xml', 'image/webp', 'image/apng'])
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number) =>
+  new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, quality))
+
+export async function compressImage(file: File): Promise<File> {
+  if (!file.type.startsWith('image/') || SKIPPED_TYPES.has(file.type)) return file
+
+  let bitmap: ImageBitmap
+  try {
+    bitmap = await createImageBitmap(file)
+  } catch {
+    // Not something the browser can decode - upload as is
+    return file
+  }
+
+  const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(bitmap.width, bitmap.height))
+  if (scale === 1 && file.size < MIN_COMPRESS_BYTES) {
+    bitmap.close()
+    return file
+  }
+
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.round(bitmap.width * scale)
+  canvas.height = Math.round(bitmap.height * scale)
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+  bitmap.close()
+
+  // PNGs may rely on transparency - keep them PNG, everything else becomes JPEG
+  const type = file.type === 'image/png' ? 'image/png' : 'image/jpeg'
+  const blob = await canvasToBlob(canvas, type, JPEG_QUALITY)
+  if (!blob || blob.size >= file.size) return file
+
+  const name = type === 'image/jpeg' ? file.name.replace(/\.\w+$/, '') + '.jpg' : file.name
+  return new File([blob], name, { type, lastModified: file.lastModified })
+}
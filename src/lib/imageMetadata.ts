@@ -0,0 +1,51 @@
+/**
+ * Image metadata sent along with uploads
+ *
+ * Dimensions let the timeline reserve space before the image loads, and the
+ * BlurHash is drawn in that space as a placeholder.
+ */
+
+import { encodeBlurhash } from './blurhash'
+
+export type ImageMetadata = {
+  width: number
+  height: number
+  blurhash: string
+}
+
+// Longest side of the thumbnail the hash is computed from - more pixels don't change the result
+const HASH_SOURCE_SIZE = 32
+
+/**
+ * BlurHash of anything drawable - a decoded image or the current video frame
+ */
+export function computeBlurhash(source: CanvasImageSource, width: number, height: number): string | null {
+  const scale = HASH_SOURCE_SIZE / Math.max(width, height)
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.max(1, Math.round(width * scale))
+  canvas.height = Math.max(1, Math.round(height * scale))
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return null
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height)
+
+  const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height).data
+  // More components along the longer side
+  const [componentsX, componentsY] = width >= height ? [4, 3] : [3, 4]
+  return encodeBlurhash(pixels, canvas.width, canvas.height, componentsX, componentsY)
+}
+
+export async function readImageMetadata(file: File): Promise<ImageMetadata | null> {
+  if (!file.type.startsWith('image/')) return null
+
+  let bitmap: ImageBitmap
+  try {
+    bitmap = await createImageBitmap(file)
+  } catch {
+    return null
+  }
+
+  const { width, height } = bitmap
+  const blurhash = computeBlurhash(bitmap, width, height)
+  bitmap.close()
+  return blurhash ? { width, height, blurhash } : null
+}
@@ -0,0 +1,24 @@
+/**
+ * Legacy stickers
+ *
+ * Stickers used to be sent as text: [sticker|file_url|file_type|emoji].
+ * Old history still has them, so they're shown read-only (there's no pack
+ * to open). Anything sent after structured stickers shipped is plain text -
+ * otherwise anyone could type the format and make every client load a URL.
+ */
+
+import type { Message } from '../api/messages'
+import type { Sticker } from '../api/stickers'
+
+// Server started sending stickers as type 'sticker' messages
+const STRUCTURED_STICKERS_SINCE = Date.parse('2026-10-19T00:00:00Z')
+
+const LEGACY_STICKER_RE = /^\[sticker\|(.+)\|(tgs|webm|webp|png)\|([^\]]+)\]$/
+
+export function parseLegacySticker(msg: Message): Pick<Sticker, 'file_url' | 'file_type' | 'emoji'> | null {
+  if (msg.type === 'sticker' || !msg.content) return null
+  if (!(Date.parse(msg.created_at) < STRUCTURED_STICKERS_SINCE)) return null
+  const match = msg.content.match(LEGACY_STICKER_RE)
+  if (!match) return null
+  return { file_url: match[1], file_type: match[2] as Sticker['file_type'], emoji: match[3] }
+}
@@ -0,0 +1,159 @@
+/**
+ * Markdown subset for message content
+ *
+ * Parses message text into a small node tree: bold, italic, strikethrough,
+ * inline code, fenced code blocks, block quotes, spoilers, bare URLs and
+ * `<@userId>` / `@everyone` mentions and `<:name:emojiId>` custom emoji.
+ *
+ * Rendering to React lives in components/Markdown.tsx - nothing here ever
+ * produces HTML, so message text can't inject markup.
+ */
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string }
+  | { type: 'mention'; userId: string }
+  | { type: 'everyone' }
+  | { type: 'customEmoji'; name: string; id: string }
+  | { type: 'bold' | 'italic' | 'strike' | 'spoiler'; children: InlineNode[] }
+
+export type BlockNode =
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'quote'; children: InlineNode[] }
+  | { type: 'codeBlock'; lang: string | null; code: string }
+
+// ```lang\ncode``` - the language tag only counts when followed by a newline
+const FENCE_PATTERN = /```(?:([\w+#-]+)\n)?\n?([\s\S]*?)\n?```/g
+
+// Alternation order is precedence at a given position; the leftmost match always wins
+const INLINE_PATTERN = new RegExp(
+  [
+    /\\([\\`*_~|])/.source, // 1: escaped marker
+    /`([^`\n]+)`/.source, // 2: inline code
+    /(https?:\/\/[^\s<]*[^\s<.,:;"')\]!?*_~|])/.source, // 3: url
+    /<@([\w-]+)>/.source, // 4: user mention
+    /(?<!\S)(@everyone)(?![\w-])/.source, // 5: @everyone
+    /<:(\w{2,32}):([\w-]+)>/.source, // 6, 7: custom emoji name and id
+    /\*\*([\s\S]+?)\*\*/.source, // 8: bold
+    /~~([\s\S]+?)~~/.source, // 9: strikethrough
+    /\|\|([\s\S]+?)\|\|/.source, // 10: spoiler
+    /\*(?!\s)([\s\S]+?)(?<!\s)\*/.source, // 11: italic
+    /(?<![\w])_(?!\s)([\s\S]+?)(?<!\s)_(?![\w])/.source, // 12: italic
+  ].join('|'),
+  'g'
+)
+
+export function parseInline(text: string): InlineNode[] {
+  const nodes: InlineNode[] = []
+  let last = 0
+
+  const pushText = (value: string) => {
+    if (!value) return
+    const prev = nodes[nodes.length - 1]
+    if (prev?.type === 'text') prev.text += value
+    else nodes.push({ type: 'text', text: value })
+  }
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    pushText(text.slice(last, match.index))
+    last = match.index + match[0].length
+
+    const [, escaped, code, url, mention, everyone, emojiName, emojiId, bold, strike, spoiler, italic, underscoreItalic] =
+      match
+    if (escaped !== undefined) pushText(escaped)
+    else if (code !== undefined) nodes.push({ type: 'code', text: code })
+    else if (url !== undefined) nodes.push({ type: 'link', href: url })
+    else if (mention !== undefined) nodes.push({ type: 'mention', userId: mention })
+    else if (everyone !== undefined) nodes.push({ type: 'everyone' })
+    else if (emojiName !== undefined) nodes.push({ type: 'customEmoji', name: emojiName, id: emojiId })
+    else if (bold !== undefined) nodes.push({ type: 'bold', children: parseInline(bold) })
+    else if (strike !== undefined) nodes.push({ type: 'strike', children: parseInline(strike) })
+    else if (spoiler !== undefined) nodes.push({ type: 'spoiler', children: parseInline(spoiler) })
+    else nodes.push({ type: 'italic', children: parseInline(italic ?? underscoreItalic) })
+  }
+
+  pushText(text.slice(last))
+  return nodes
+}
+
+// Split prose into paragraphs and "> " quotes, line by line
+function parseProse(text: string, blocks: BlockNode[]) {
+  let lines: string[] = []
+  let quoted = false
+
+  const flush = () => {
+    if (lines.length === 0) return
+    const children = parseInline(lines.join('\n'))
+    blocks.push(quoted ? { type: 'quote', children } : { type: 'paragraph', children })
+    lines = []
+  }
+
+  for (const line of text.split('\n')) {
+    const quoteMatch = /^> ?(.*)$/.exec(line)
+    if (!!quoteMatch !== quoted) {
+      flush()
+      quoted = !!quoteMatch
+    }
+    lines.push(quoteMatch ? quoteMatch[1] : line)
+  }
+  flush()
+}
+
+export function parseMarkdown(content: string): BlockNode[] {
+  const blocks: BlockNode[] = []
+  let last = 0
+
+  for (const match of content.matchAll(FENCE_PATTERN)) {
+    // Newlines around a fence belong to the fence, not to the prose
+    const before = content.slice(last, match.index).replace(/^\n|\n$/g, '')
+    if (before) parseProse(before, blocks)
+    blocks.push({ type: 'codeBlock', lang: match[1]?.toLowerCase() || null, code: match[2] })
+    last = match.index + match[0].length
+  }
+
+  const rest = content.slice(last).replace(/^\n/, '')
+  if (rest || blocks.length === 0) parseProse(rest, blocks)
+  return blocks
+}
+
+// Display name for a `<@userId>` token; unknown users fall back to a placeholder
+export type ResolveUsername = (userId: string) => string | null | undefined
+
+export const UNKNOWN_USERNAME = 'пользователь'
+
+function inlineToPlainText(nodes: InlineNode[], resolveUsername?: ResolveUsername): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case 'text':
+        case 'code':
+          return node.text
+        case 'link':
+          return node.href
+        case 'mention':
+          return `@${resolveUsername?.(node.userId) || UNKNOWN_USERNAME}`
+        case 'everyone':
+          return '@everyone'
+        case 'customEmoji':
+          return `:${node.name}:`
+        case 'spoiler':
+          // Previews must not give the spoiler away
+          return '[спойлер]'
+        default:
+          return inlineToPlainText(node.children, resolveUsername)
+      }
+    })
+    .join('')
+}
+
+// Single-line preview with markers stripped, for conversation lists and search results
+export function toPlainText(content: string, resolveUsername?: ResolveUsername): string {
+  return parseMarkdown(content)
+    .map((block) =>
+      block.type === 'codeBlock' ? block.code : inlineToPlainText(block.children, resolveUsername)
+    )
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
@@ -0,0 +1,105 @@
+/**
+ * Upload metadata for any attachment
+ *
+ * Images go through readImageMetadata. Videos are loaded into a detached
+ * <video> element to read their size and duration and grab a poster frame;
+ * audio files only need a duration. Anything the browser can't decode is
+ * uploaded without metadata.
+ */
+
+import type { AttachmentMetadata } from '../api/messages'
+import { computeBlurhash, readImageMetadata } from './imageMetadata'
+
+// Poster frame time - the very first frame is often black
+const POSTER_TIME_S = 0.5
+
+// Longest side of the poster image
+const MAX_POSTER_SIZE = 720
+
+const POSTER_QUALITY = 0.8
+
+// Give up on files the browser stalls on
+const PROBE_TIMEOUT_MS = 10_000
+
+// Resolve once the element fires `event`, reject on error or timeout
+function waitFor(element: HTMLMediaElement, event: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => done(new Error(`Timed out waiting for ${event}`)), PROBE_TIMEOUT_MS)
+    const onEvent = () => done()
+    const onError = () => done(new Error('Media failed to load'))
+    const done = (err?: Error) => {
+      clearTimeout(timeout)
+      element.removeEventListener(event, onEvent)
+      element.removeEventListener('error', onError)
+      if (err) reject(err)
+      else resolve()
+    }
+    element.addEventListener(event, onEvent)
+    element.addEventListener('error', onError)
+  })
+}
+
+const finiteDuration = (duration: number) => (Number.isFinite(duration) ? duration : undefined)
+
+async function readVideoMetadata(file: File): Promise<AttachmentMetadata | undefined> {
+  const url = URL.createObjectURL(file)
+  const video = document.createElement('video')
+  video.muted = true
+  video.preload = 'auto'
+  video.src = url
+
+  try {
+    await waitFor(video, 'loadeddata')
+    const { videoWidth: width, videoHeight: height } = video
+    const duration = finiteDuration(video.duration)
+
+    video.currentTime = Math.min(POSTER_TIME_S, (duration ?? 0) / 2)
+    await waitFor(video, 'seeked')
+
+    const scale = Math.min(1, MAX_POSTER_SIZE / Math.max(width, height))
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.round(width * scale)
+    canvas.height = Math.round(height * scale)
+    canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height)
+    const poster = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', POSTER_QUALITY))
+
+    return {
+      width,
+      height,
+      duration,
+      blurhash: computeBlurhash(canvas, canvas.width, canvas.height) ?? undefined,
+      poster: poster ?? undefined,
+    }
+  } catch (err) {
+    console.error('Failed to read video metadata:', err)
+    return undefined
+  } finally {
+    video.removeAttribute('src')
+    video.load()
+    URL.revokeObjectURL(url)
+  }
+}
+
+async function readAudioMetadata(file: File): Promise<AttachmentMetadata | undefined> {
+  const url = URL.createObjectURL(file)
+  const audio = document.createElement('audio')
+  audio.preload = 'metadata'
+  audio.src = url
+
+  try {
+    await waitFor(audio, 'loadedmetadata')
+    return { duration: finiteDuration(audio.duration) }
+  } catch (err) {
+    console.error('Failed to read audio metadata:', err)
+    return undefined
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
+
+export async function readMediaMetadata(file: File): Promise<AttachmentMetadata | undefined> {
+  if (file.type.startsWith('image/')) return (await readImageMetadata(file)) ?? undefined
+  if (file.type.startsWith('video/')) return readVideoMetadata(file)
+  if (file.type.startsWith('audio/')) return readAudioMetadata(file)
+  return undefined
+}
@@ -0,0 +1,63 @@
+/**
+ * Mentions in message content
+ *
+ * Mentions are stored as stable `<@userId>` tokens so renames don't break
+ * them; `@everyone` pings the whole group. The composer shows plain
+ * `@username` text and encodes the mentions picked from autocomplete on send.
+ *
+ * Also used for unread mention badges: a message counts as a mention when it
+ * addresses the user or pings the whole group.
+ */
+
+import type { User } from '../api/auth'
+import type { Message } from '../api/messages'
+
+export const EVERYONE = 'everyone'
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// `@name` as a whole word - not part of an email or a longer name
+const handlePattern = (name: string, flags = '') =>
+  new RegExp(`(^|\\s)@${escapeRegExp(name)}(?![\\w-])`, flags)
+
+export function mentionsUser(message: Message, user: Pick<User, 'id' | 'username'> | null): boolean {
+  if (!user || message.sender_id === user.id || !message.content) return false
+
+  if (message.content.includes(`<@${user.id}>`)) return true
+  if (handlePattern(EVERYONE).test(message.content)) return true
+  if (!user.username) return false
+
+  // Messages from before mention tokens addressed people by name
+  return handlePattern(user.username, 'i').test(message.content)
+}
+
+// The `@query` the caret is currently in, if any
+export function getMentionQuery(text: string, caret: number): { query: string; start: number } | null {
+  const match = /(^|\s)@([\w.-]*)$/.exec(text.slice(0, caret))
+  if (!match) return null
+  return { query: match[2], start: match.index + match[1].length }
+}
+
+// `@username` picked from autocomplete -> `<@userId>`
+export function encodeMentions(text: string, picked: Record<string, string>): string {
+  let result = text
+  for (const [username, userId] of Object.entries(picked)) {
+    result = result.replace(handlePattern(username, 'g'), `$1<@${userId}>`)
+  }
+  return result
+}
+
+// `<@userId>` -> `@username` for the edit box; returns the mapping to re-encode on save
+export function decodeMentions(
+  text: string,
+  users: Pick<User, 'id' | 'username'>[]
+): { text: string; picked: Record<string, string> } {
+  const picked: Record<string, string> = {}
+  const decoded = text.replace(/<@([\w-]+)>/g, (token, userId: string) => {
+    const username = users.find((u) => u.id === userId)?.username
+    if (!username) return token
+    picked[username] = userId
+    return `@${username}`
+  })
+  return { text: decoded, picked }
+}
@@ -0,0 +1,105 @@
+/**
+ * Persistent outbox for chat operations
+ *
+ * Operations that couldn't reach the server (gateway down, fetch threw) are
+ * kept in IndexedDB so they survive reloads. Entries are replayed in `seq`
+ * order; send operations carry the client nonce so the server can drop
+ * duplicates if a request made it through before we lost the response.
+ */
+
+import type { Message } from '../api/messages'
+
+const DB_NAME = 'bla-outbox'
+const DB_VERSION = 1
+const STORE_NAME = 'operations'
+
+export type OutboxOperation =
+  | {
+      id: string
+      seq: number
+      type: 'sendMessage'
+      conversationId: string
+      nonce: string
+      content: string
+      attachmentIds?: string[]
+      replyToId?: string
+      stickerId?: string
+      forwardFromId?: string
+      // The optimistic message as it was shown, put back in the timeline after a reload
+      message?: Message
+    }
+  | {
+      id: string
+      seq: number
+      type: 'addReaction'
+      conversationId: string
+      messageId: string
+      emoji: string
+    }
+  | {
+      id: string
+      seq: number
+      type: 'removeReaction'
+      conversationId: string
+      messageId: string
+      emoji: string
+    }
+  | {
+      id: string
+      seq: number
+      type: 'deleteMessage'
+      conversationId: string
+      messageId: string
+      // The message as it was before it was removed, put back if the server refuses
+      message?: Message
+    }
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, mode)
+    const request = run(tx.objectStore(STORE_NAME))
+    tx.oncomplete = () => resolve(request.result)
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+export async function readOutbox(): Promise<OutboxOperation[]> {
+  const operations = await withStore<OutboxOperation[]>('readonly', (store) => store.getAll())
+  return operations.sort((a, b) => a.seq - b.seq)
+}
+
+export async function putOutboxOperation(operation: OutboxOperation): Promise<void> {
+  await withStore('readwrite', (store) => store.put(operation))
+}
+
+export async function deleteOutboxOperation(id: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(id))
+}
+
+export async function clearOutbox(): Promise<void> {
+  await withStore('readwrite', (store) => store.clear())
+}
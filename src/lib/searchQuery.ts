@@ -0,0 +1,100 @@
+/**
+ * Search query operators
+ *
+ * Splits what the user typed in the search box into free text and filters:
+ * `from:username`, `in:chat`, `has:image`, `has:file`, `before:YYYY-MM-DD`
+ * and `after:YYYY-MM-DD`. Values with spaces go in quotes (`in:"My group"`).
+ * Anything that isn't a valid operator stays part of the text.
+ *
+ * Names are resolved to ids by the caller - this module knows nothing about
+ * users or conversations. Also splits result text into highlighted segments.
+ */
+
+export type SearchHas = 'image' | 'file'
+
+export type ParsedSearchQuery = {
+  text: string
+  from: string[]
+  in: string[]
+  has: SearchHas[]
+  // ISO dates (YYYY-MM-DD)
+  before?: string
+  after?: string
+}
+
+export const SEARCH_OPERATORS = ['from:', 'in:', 'has:image', 'has:file', 'before:', 'after:']
+
+// word, key:value or key:"quoted value"
+const TOKEN_PATTERN = /(\w+):(?:"([^"]*)"|(\S+))|"([^"]*)"|(\S+)/g
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+const isValidDate = (value: string) =>
+  DATE_PATTERN.test(value) && !Number.isNaN(new Date(value).getTime())
+
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = { text: '', from: [], in: [], has: [] }
+  const words: string[] = []
+
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const [raw, key, quotedValue, plainValue, quotedText] = match
+    const value = quotedValue ?? plainValue
+    const operator = key?.toLowerCase()
+
+    if (operator === 'from' && value) parsed.from.push(value.replace(/^@/, ''))
+    else if (operator === 'in' && value) parsed.in.push(value)
+    else if (operator === 'has' && (value === 'image' || value === 'file')) parsed.has.push(value)
+    else if (operator === 'before' && isValidDate(value)) parsed.before = value
+    else if (operator === 'after' && isValidDate(value)) parsed.after = value
+    // Operator still being typed - don't search for "from:" itself
+    else if (/^(from|in|has|before|after):$/i.test(raw)) continue
+    else words.push(quotedText ?? raw)
+  }
+
+  parsed.text = words.join(' ')
+  return parsed
+}
+
+export const hasFilters = (query: ParsedSearchQuery) =>
+  query.from.length > 0 || query.in.length > 0 || query.has.length > 0 || !!query.before || !!query.after
+
+export type HighlightSegment = {
+  text: string
+  match: boolean
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// Mark every occurrence of the query's words, case-insensitively
+export function highlightMatches(text: string, query: string): HighlightSegment[] {
+  const terms = query.split(/\s+/).filter(Boolean).map(escapeRegExp)
+  if (terms.length === 0) return [{ text, match: false }]
+
+  // Longest first so "hello" wins over "he"
+  terms.sort((a, b) => b.length - a.length)
+  const pattern = new RegExp(terms.join('|'), 'gi')
+
+  const segments: HighlightSegment[] = []
+  let last = 0
+  for (const match of text.matchAll(pattern)) {
+    if (match.index > last) segments.push({ text: text.slice(last, match.index), match: false })
+    segments.push({ text: match[0], match: true })
+    last = match.index + match[0].length
+  }
+  if (last < text.length) segments.push({ text: text.slice(last), match: false })
+  return segments
+}
+
+// Cut a long text down to a window around its first match
+export function excerptAround(text: string, query: string, length = 120): string {
+  if (text.length <= length) return text
+
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean)
+  const lower = text.toLowerCase()
+  const first = Math.min(...terms.map((t) => lower.indexOf(t)).filter((i) => i !== -1))
+  if (!Number.isFinite(first) || first < length / 2) return text.slice(0, length) + '...'
+
+  const start = Math.max(0, first - Math.floor(length / 3))
+  const end = Math.min(text.length, start + length)
+  return '...' + text.slice(start, end) + (end < text.length ? '...' : '')
+}
@@ -0,0 +1,95 @@
+/**
+ * Sticker file validation
+ *
+ * Checked before upload so the studio can explain what's wrong instead of
+ * showing a bare server error:
+ * - PNG/WebP: up to 512 KB and 512x512
+ * - TGS (gzipped Lottie): up to 64 KB, 512x512 canvas, at most 60 fps and 3 s
+ * - WebM: up to 256 KB, 512x512, at most 3 s
+ */
+
+import pako from 'pako'
+import type { Sticker } from '../api/stickers'
+import { readMediaMetadata } from './mediaMetadata'
+
+export const MAX_STICKER_DIMENSION = 512
+export const MAX_ANIMATED_DURATION_S = 3
+
+const MAX_STATIC_BYTES = 512 * 1024
+const MAX_TGS_BYTES = 64 * 1024
+const MAX_WEBM_BYTES = 256 * 1024
+const MAX_TGS_FPS = 60
+
+// Accept attribute for the file picker
+export const STICKER_FILE_ACCEPT = '.png,.webp,.tgs,.webm,image/png,image/webp,video/webm'
+
+// TGS files usually come without a MIME type, so go by extension first
+export function stickerFileType(file: File): Sticker['file_type'] | null {
+  const extension = file.name.split('.').pop()?.toLowerCase()
+  if (extension === 'tgs') return 'tgs'
+  if (extension === 'webm' || file.type === 'video/webm') return 'webm'
+  if (extension === 'webp' || file.type === 'image/webp') return 'webp'
+  if (extension === 'png' || file.type === 'image/png') return 'png'
+  return null
+}
+
+const formatKb = (bytes: number) => `${Math.round(bytes / 1024)} КБ`
+
+const tooBig = (width: number, height: number) =>
+  width > MAX_STICKER_DIMENSION || height > MAX_STICKER_DIMENSION
+
+async function validateTgs(file: File): Promise<string | null> {
+  let animation: { w?: number; h?: number; fr?: number; ip?: number; op?: number }
+  try {
+    const json = new TextDecoder().decode(pako.inflate(new Uint8Array(await file.arrayBuffer())))
+    animation = JSON.parse(json)
+  } catch {
+    return 'Файл не похож на TGS — это должен быть сжатый gzip Lottie JSON'
+  }
+
+  const { w = 0, h = 0, fr = 0, ip = 0, op = 0 } = animation
+  if (tooBig(w, h)) return `Размер анимации ${w}×${h}, максимум ${MAX_STICKER_DIMENSION}×${MAX_STICKER_DIMENSION}`
+  if (fr > MAX_TGS_FPS) return `Частота ${fr} кадров/с, максимум ${MAX_TGS_FPS}`
+  if (fr > 0 && (op - ip) / fr > MAX_ANIMATED_DURATION_S) {
+    return `Анимация длиннее ${MAX_ANIMATED_DURATION_S} секунд`
+  }
+  return null
+}
+
+/**
+ * Describe why a file can't be a sticker (null if it's fine)
+ */
+export async function validateStickerFile(file: File): Promise<string | null> {
+  const type = stickerFileType(file)
+  if (!type) return 'Поддерживаются PNG, WebP, TGS и WebM'
+
+  if (type === 'tgs') {
+    if (file.size > MAX_TGS_BYTES) return `TGS больше ${formatKb(MAX_TGS_BYTES)}`
+    return validateTgs(file)
+  }
+
+  if (type === 'webm') {
+    if (file.size > MAX_WEBM_BYTES) return `WebM больше ${formatKb(MAX_WEBM_BYTES)}`
+    const metadata = await readMediaMetadata(file)
+    if (!metadata?.width || !metadata.height) return 'Не удалось прочитать видео'
+    if (tooBig(metadata.width, metadata.height)) {
+      return `Размер видео ${metadata.width}×${metadata.height}, максимум ${MAX_STICKER_DIMENSION}×${MAX_STICKER_DIMENSION}`
+    }
+    if ((metadata.duration ?? 0) > MAX_ANIMATED_DURATION_S) return `Видео длиннее ${MAX_ANIMATED_DURATION_S} секунд`
+    return null
+  }
+
+  if (file.size > MAX_STATIC_BYTES) return `Изображение больше ${formatKb(MAX_STATIC_BYTES)}`
+  let bitmap: ImageBitmap
+  try {
+    bitmap = await createImageBitmap(file)
+  } catch {
+    return 'Не удалось прочитать изображение'
+  }
+  const { width, height } = bitmap
+  bitmap.close()
+  if (tooBig(width, height)) {
+    return `Размер изображения ${width}×${height}, максимум ${MAX_STICKER_DIMENSION}×${MAX_STICKER_DIMENSION}`
+  }
+  return null
+}
@@ -0,0 +1,130 @@
+/**
+ * Shared resources for TGS (Lottie) stickers
+ *
+ * - Animation JSON is downloaded and gunzipped once per URL, however many
+ *   players show that sticker
+ * - At most MAX_PLAYING players animate at the same time. Players ask for a
+ *   slot when they come on screen and give it back when they leave; the rest
+ *   wait paused on their current frame
+ * - With prefers-reduced-motion only explicit playback (hover) animates
+ */
+
+import pako from 'pako'
+
+const MAX_CACHED = 100
+const MAX_PLAYING = 8
+
+// Insertion order doubles as LRU order
+const cache = new Map<string, Promise<string>>()
+
+async function fetchTgs(url: string): Promise<string> {
+  const response = await fetch(url)
+  if (!response.ok) throw new Error(`Failed to fetch TGS: ${response.status}`)
+  const bytes = new Uint8Array(await response.arrayBuffer())
+  try {
+    return new TextDecoder().decode(pako.inflate(bytes))
+  } catch {
+    // Maybe it's not gzipped, try as-is
+    return new TextDecoder().decode(bytes)
+  }
+}
+
+/**
+ * Animation data for a TGS file
+ *
+ * Every call gets its own parsed copy - lottie annotates the data it's given,
+ * so players must not share one object.
+ */
+export async function loadTgsAnimation(url: string): Promise<unknown> {
+  let json = cache.get(url)
+  if (json) {
+    cache.delete(url)
+  } else {
+    json = fetchTgs(url)
+    // Don't keep failures around, the next player should retry
+    json.catch(() => cache.delete(url))
+    if (cache.size >= MAX_CACHED) cache.delete(cache.keys().next().value!)
+  }
+  cache.set(url, json)
+  return JSON.parse(await json)
+}
+
+export type PlaybackHandle = {
+  play: () => void
+  pause: () => void
+}
+
+type Request = { handle: PlaybackHandle; explicit: boolean }
+
+const playing: Request[] = []
+const waiting: Request[] = []
+
+const reducedMotion =
+  typeof window !== 'undefined' ? window.matchMedia('(prefers-reduced-motion: reduce)') : null
+
+const mayPlay = (request: Request) => request.explicit || !reducedMotion?.matches
+
+const remove = (list: Request[], handle: PlaybackHandle) => {
+  const index = list.findIndex((r) => r.handle === handle)
+  return index === -1 ? null : list.splice(index, 1)[0]
+}
+
+// Hand free slots to waiting players, explicit ones first
+function fillSlots() {
+  const candidates = [...waiting.filter((r) => r.explicit), ...waiting.filter((r) => !r.explicit)]
+  for (const request of candidates) {
+    if (playing.length >= MAX_PLAYING) return
+    if (!mayPlay(request)) continue
+    remove(waiting, request.handle)
+    playing.push(request)
+    request.handle.play()
+  }
+}
+
+/**
+ * Ask for an animation slot. `explicit` (user is hovering the sticker) takes
+ * the slot of the oldest automatic player when the pool is full.
+ */
+export function requestPlayback(handle: PlaybackHandle, explicit = false) {
+  const existing = playing.find((r) => r.handle === handle)
+  if (existing) {
+    existing.explicit = existing.explicit || explicit
+    return
+  }
+
+  remove(waiting, handle)
+  const request = { handle, explicit }
+  if (explicit && playing.length >= MAX_PLAYING) {
+    const victim = playing.find((r) => !r.explicit)
+    if (victim) {
+      remove(playing, victim.handle)
+      victim.handle.pause()
+      waiting.unshift(victim)
+    }
+  }
+  waiting.push(request)
+  fillSlots()
+}
+
+/**
+ * Give the slot back (or stop waiting for one)
+ */
+export function releasePlayback(handle: PlaybackHandle) {
+  remove(waiting, handle)
+  if (remove(playing, handle)) {
+    handle.pause()
+    fillSlots()
+  }
+}
+
+reducedMotion?.addEventListener('change', () => {
+  if (reducedMotion.matches) {
+    // Park everything that wasn't asked for explicitly
+    for (const request of playing.filter((r) => !r.explicit)) {
+      remove(playing, request.handle)
+      request.handle.pause()
+      waiting.push(request)
+    }
+  }
+  fillSlots()
+})
@@ -129,6 +129,31 @@ export class AudioPipeline {
     return packets
   }
 
+  /**
+   * Flush everything and wait for the last Opus packets
+   * Used when recording ends; flush() is enough for live audio
+   */
+  async finish(): Promise<Uint8Array[]> {
+    const packets: Uint8Array[] = []
+
+    if (this.rnnoise) {
+      const flushed = this.rnnoise.flush()
+      if (flushed.length > 0 && this.opusEncoder) {
+        const int16Data = new Int16Array(flushed.length)
+        for (let i = 0; i < flushed.length; i++) {
+          int16Data[i] = Math.max(-32768, Math.min(32767, Math.floor(flushed[i] * 32767)))
+        }
+        packets.push(...this.opusEncoder.encode(int16Data))
+      }
+    }
+
+    if (this.opusEncoder) {
+      packets.push(...await this.opusEncoder.drain())
+    }
+
+    return packets
+  }
+
   /**
    * Check if noise suppression is active
    */
@@ -0,0 +1,130 @@
+/**
+ * Ogg/Opus container
+ *
+ * Wraps raw Opus packets from OpusEncoder into an Ogg stream (RFC 7845) so
+ * recordings play in a plain <audio> element.
+ *
+ * Layout:
+ * 1. Page 0: OpusHead (beginning of stream)
+ * 2. Page 1: OpusTags
+ * 3. Audio pages: up to 50 packets (~1s) each, last one flagged end of stream
+ */
+
+import { OPUS_CHANNELS, OPUS_FRAME_SIZE, OPUS_SAMPLE_RATE } from './OpusCodec'
+
+// Encoder lookahead the decoder has to drop from the start (libopus default at 48kHz)
+const PRE_SKIP = 312
+
+const PACKETS_PER_PAGE = 50
+
+const HEADER_TYPE_BOS = 0x02
+const HEADER_TYPE_EOS = 0x04
+
+// Ogg uses CRC-32 with polynomial 0x04c11db7, no reflection, zero init
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let i = 0; i < 256; i++) {
+    let r = i << 24
+    for (let j = 0; j < 8; j++) {
+      r = r & 0x80000000 ? (r << 1) ^ 0x04c11db7 : r << 1
+    }
+    table[i] = r >>> 0
+  }
+  return table
+})()
+
+function crc32(data: Uint8Array): number {
+  let crc = 0
+  for (let i = 0; i < data.length; i++) {
+    crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ data[i]) & 0xff]) >>> 0
+  }
+  return crc
+}
+
+function buildPage(
+  packets: Uint8Array[],
+  granulePosition: number,
+  serial: number,
+  sequence: number,
+  headerType: number
+): Uint8Array {
+  // Lacing: each packet is split into 255-byte segments plus a shorter final one
+  const segments: number[] = []
+  for (const packet of packets) {
+    let remaining = packet.length
+    while (remaining >= 255) {
+      segments.push(255)
+      remaining -= 255
+    }
+    segments.push(remaining)
+  }
+
+  const dataLength = packets.reduce((sum, p) => sum + p.length, 0)
+  const page = new Uint8Array(27 + segments.length + dataLength)
+  const view = new DataView(page.buffer)
+
+  page.set([0x4f, 0x67, 0x67, 0x53]) // "OggS"
+  page[4] = 0 // version
+  page[5] = headerType
+  view.setUint32(6, granulePosition % 0x100000000, true)
+  view.setUint32(10, Math.floor(granulePosition / 0x100000000), true)
+  view.setUint32(14, serial, true)
+  view.setUint32(18, sequence, true)
+  // 22..25: CRC, filled in below
+  page[26] = segments.length
+  page.set(segments, 27)
+
+  let offset = 27 + segments.length
+  for (const packet of packets) {
+    page.set(packet, offset)
+    offset += packet.length
+  }
+
+  view.setUint32(22, crc32(page), true)
+  return page
+}
+
+function opusHead(): Uint8Array {
+  const head = new Uint8Array(19)
+  const view = new DataView(head.buffer)
+  head.set(new TextEncoder().encode('OpusHead'))
+  head[8] = 1 // version
+  head[9] = OPUS_CHANNELS
+  view.setUint16(10, PRE_SKIP, true)
+  view.setUint32(12, OPUS_SAMPLE_RATE, true)
+  view.setInt16(16, 0, true) // output gain
+  head[18] = 0 // channel mapping family
+  return head
+}
+
+function opusTags(): Uint8Array {
+  const vendor = new TextEncoder().encode('bla')
+  const tags = new Uint8Array(8 + 4 + vendor.length + 4)
+  const view = new DataView(tags.buffer)
+  tags.set(new TextEncoder().encode('OpusTags'))
+  view.setUint32(8, vendor.length, true)
+  tags.set(vendor, 12)
+  view.setUint32(12 + vendor.length, 0, true) // no user comments
+  return tags
+}
+
+/**
+ * Build an Ogg/Opus file from 20ms Opus packets
+ */
+export function encodeOggOpus(packets: Uint8Array[]): Blob {
+  const serial = (Math.random() * 0x100000000) >>> 0
+  const pages: Uint8Array[] = [
+    buildPage([opusHead()], 0, serial, 0, HEADER_TYPE_BOS),
+    buildPage([opusTags()], 0, serial, 1, 0),
+  ]
+
+  let granule = PRE_SKIP
+  for (let i = 0; i < packets.length; i += PACKETS_PER_PAGE) {
+    const chunk = packets.slice(i, i + PACKETS_PER_PAGE)
+    granule += chunk.length * OPUS_FRAME_SIZE
+    const isLast = i + PACKETS_PER_PAGE >= packets.length
+    pages.push(buildPage(chunk, granule, serial, pages.length, isLast ? HEADER_TYPE_EOS : 0))
+  }
+
+  return new Blob(pages as BlobPart[], { type: 'audio/ogg; codecs=opus' })
+}
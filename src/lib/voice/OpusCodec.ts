@@ -163,6 +163,21 @@ export class OpusEncoder {
     return packets
   }
 
+  /**
+   * Flush remaining samples and wait for the encoder to emit every packet
+   * (flush() only returns what's already out - fine for a live stream,
+   * not for a recording that must end with its last frame)
+   */
+  async drain(): Promise<Uint8Array[]> {
+    const packets = this.flush()
+    if (this.encoder && this.encoder.state === 'configured') {
+      await this.encoder.flush()
+    }
+    packets.push(...this.pendingPackets)
+    this.pendingPackets = []
+    return packets
+  }
+
   destroy(): void {
     if (this.encoder) {
       this.encoder.close()
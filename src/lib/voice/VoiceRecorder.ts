@@ -0,0 +1,167 @@
+/**
+ * Voice message recorder
+ *
+ * Captures the microphone through the same AudioPipeline as calls
+ * (RNNoise + Opus), keeps the packets and wraps them into Ogg/Opus on stop.
+ * Also tracks input levels for the live indicator and the stored waveform.
+ */
+
+import { AudioPipeline } from './AudioPipeline'
+import { encodeOggOpus } from './OggOpus'
+import { OPUS_FRAME_SIZE, OPUS_SAMPLE_RATE } from './OpusCodec'
+
+// Bars in the waveform stored with the attachment
+export const WAVEFORM_BARS = 64
+
+export type VoiceRecording = {
+  blob: Blob
+  // Seconds
+  duration: number
+  // WAVEFORM_BARS values, 0-100
+  waveform: number[]
+}
+
+// m:ss for recording timers and players
+export const formatVoiceDuration = (seconds: number) => {
+  const total = Math.max(0, Math.round(seconds))
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`
+}
+
+// Squash per-buffer levels into a fixed number of bars, scaled to the loudest one
+function buildWaveform(levels: number[]): number[] {
+  if (levels.length === 0) return new Array(WAVEFORM_BARS).fill(0)
+
+  const bars: number[] = []
+  for (let i = 0; i < WAVEFORM_BARS; i++) {
+    const start = Math.floor((i * levels.length) / WAVEFORM_BARS)
+    const end = Math.max(start + 1, Math.floor(((i + 1) * levels.length) / WAVEFORM_BARS))
+    const bucket = levels.slice(start, end)
+    bars.push(bucket.length > 0 ? Math.max(...bucket) : 0)
+  }
+
+  const peak = Math.max(...bars) || 1
+  return bars.map((v) => Math.round((v / peak) * 100))
+}
+
+export class VoiceRecorder {
+  private stream: MediaStream | null = null
+  private audioContext: AudioContext | null = null
+  private processorNode: ScriptProcessorNode | null = null
+  private pipeline: AudioPipeline | null = null
+  private packets: Uint8Array[] = []
+  private levels: number[] = []
+  private noiseSuppression: boolean
+  private stopped = false
+  private cancelled = false
+  private createdAt = Date.now()
+
+  // Current input level (0-1), called for every captured buffer
+  onLevel?: (level: number) => void
+
+  constructor(noiseSuppression: boolean = true) {
+    this.noiseSuppression = noiseSuppression
+  }
+
+  // Seconds since the recorder was created, for the on-screen timer
+  get elapsed(): number {
+    return (Date.now() - this.createdAt) / 1000
+  }
+
+  async start(): Promise<void> {
+    this.stream = await navigator.mediaDevices.getUserMedia({
+      audio: {
+        echoCancellation: true,
+        noiseSuppression: true,
+        autoGainControl: true,
+        sampleRate: OPUS_SAMPLE_RATE,
+      },
+      video: false,
+    })
+    // Released before the mic came up
+    if (this.stopped) {
+      this.cleanup()
+      return
+    }
+
+    this.audioContext = new AudioContext({ sampleRate: OPUS_SAMPLE_RATE })
+    this.pipeline = new AudioPipeline(this.noiseSuppression)
+    await this.pipeline.init()
+    if (this.stopped) {
+      this.cleanup()
+      return
+    }
+
+    const source = this.audioContext.createMediaStreamSource(this.stream)
+    this.processorNode = this.audioContext.createScriptProcessor(1024, 1, 1)
+
+    this.processorNode.onaudioprocess = (event) => {
+      if (!this.pipeline) return
+
+      const input = event.inputBuffer.getChannelData(0)
+
+      let sum = 0
+      for (let i = 0; i < input.length; i++) sum += input[i] * input[i]
+      const level = Math.min(1, Math.sqrt(sum / input.length) * 4)
+      this.levels.push(level)
+      this.onLevel?.(level)
+
+      this.packets.push(...this.pipeline.process(input))
+    }
+
+    source.connect(this.processorNode)
+    // Connect to a silent destination to keep the processor running
+    this.processorNode.connect(this.audioContext.destination)
+  }
+
+  /**
+   * Stop and return the recording (null if nothing was captured)
+   */
+  async stop(): Promise<VoiceRecording | null> {
+    this.stopped = true
+    if (this.processorNode) {
+      this.processorNode.onaudioprocess = null
+    }
+
+    const pipeline = this.pipeline
+    if (pipeline) {
+      this.packets.push(...await pipeline.finish())
+    }
+    this.cleanup()
+
+    if (this.cancelled || this.packets.length === 0) return null
+
+    return {
+      blob: encodeOggOpus(this.packets),
+      duration: (this.packets.length * OPUS_FRAME_SIZE) / OPUS_SAMPLE_RATE,
+      waveform: buildWaveform(this.levels),
+    }
+  }
+
+  /**
+   * Drop the recording
+   */
+  cancel(): void {
+    this.stopped = true
+    this.cancelled = true
+    this.cleanup()
+  }
+
+  private cleanup(): void {
+    if (this.stream) {
+      this.stream.getTracks().forEach(track => track.stop())
+      this.stream = null
+    }
+    if (this.processorNode) {
+      this.processorNode.disconnect()
+      this.processorNode = null
+    }
+    if (this.pipeline) {
+      this.pipeline.destroy()
+      this.pipeline = null
+    }
+    if (this.audioContext) {
+      this.audioContext.close()
+      this.audioContext = null
+    }
+  }
+}
@@ -0,0 +1,115 @@
+import { create } from 'zustand'
+import { emojiApi } from '../api/emoji'
+import type { CustomEmoji } from '../api/emoji'
+import { createBatchedLookup } from '../lib/batchedLookup'
+
+// Collect ids for a moment so a screen of messages is one lookup
+const LOOKUP_DELAY_MS = 50
+
+type EmojiState = {
+  // Emoji the user can use: personal plus those of their groups
+  emojis: CustomEmoji[]
+  isLoaded: boolean
+  isLoading: boolean
+  // Every emoji seen so far by id; null when it no longer exists
+  known: Record<string, CustomEmoji | null>
+
+  // Actions
+  loadEmojis: () => Promise<void>
+  uploadEmoji: (file: File, name: string, conversationId?: string) => Promise<CustomEmoji | null>
+  renameEmoji: (emojiId: string, name: string) => Promise<boolean>
+  deleteEmoji: (emojiId: string) => Promise<boolean>
+  resolve: (emojiId: string) => void
+  reset: () => void
+}
+
+// Emoji usable in a conversation - its own first, so their names win
+export const usableEmojis = (emojis: CustomEmoji[], conversationId?: string | null) => [
+  ...emojis.filter((e) => conversationId && e.conversation_id === conversationId),
+  ...emojis.filter((e) => !e.conversation_id),
+]
+
+const byId = (emojis: CustomEmoji[]) => Object.fromEntries(emojis.map((e) => [e.id, e]))
+
+export const useEmojiStore = create<EmojiState>((set, get) => {
+  const lookups = createBatchedLookup({
+    delayMs: LOOKUP_DELAY_MS,
+    fetch: emojiApi.lookupEmojis,
+    onFound: (ids, found: CustomEmoji[]) => {
+      const known = { ...get().known }
+      // Anything the server didn't return is gone
+      for (const id of ids) known[id] = null
+      set({ known: { ...known, ...byId(found) } })
+    },
+    label: 'emoji',
+  })
+
+  return {
+    emojis: [],
+    isLoaded: false,
+    isLoading: false,
+    known: {},
+
+    loadEmojis: async () => {
+      if (get().isLoading) return
+      set({ isLoading: true })
+
+      try {
+        const emojis = (await emojiApi.getEmojis()) || []
+        set({ emojis, isLoaded: true, known: { ...get().known, ...byId(emojis) } })
+      } catch (err) {
+        console.error('Failed to load emoji:', err)
+      } finally {
+        set({ isLoading: false })
+      }
+    },
+
+    uploadEmoji: async (file, name, conversationId) => {
+      try {
+        const emoji = await emojiApi.uploadEmoji(file, name, conversationId)
+        set({ emojis: [...get().emojis, emoji], known: { ...get().known, [emoji.id]: emoji } })
+        return emoji
+      } catch (err) {
+        console.error('Failed to upload emoji:', err)
+        return null
+      }
+    },
+
+    renameEmoji: async (emojiId, name) => {
+      try {
+        const emoji = await emojiApi.renameEmoji(emojiId, name)
+        set({
+          emojis: get().emojis.map((e) => (e.id === emojiId ? emoji : e)),
+          known: { ...get().known, [emojiId]: emoji },
+        })
+        return true
+      } catch (err) {
+        console.error('Failed to rename emoji:', err)
+        return false
+      }
+    },
+
+    deleteEmoji: async (emojiId) => {
+      try {
+        await emojiApi.deleteEmoji(emojiId)
+        set({
+          emojis: get().emojis.filter((e) => e.id !== emojiId),
+          known: { ...get().known, [emojiId]: null },
+        })
+        return true
+      } catch (err) {
+        console.error('Failed to delete emoji:', err)
+        return false
+      }
+    },
+
+    resolve: (emojiId) => {
+      if (!(emojiId in get().known)) lookups.request(emojiId)
+    },
+
+    reset: () => {
+      lookups.reset()
+      set({ emojis: [], isLoaded: false, isLoading: false, known: {} })
+    },
+  }
+})
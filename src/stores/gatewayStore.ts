@@ -2,85 +2,175 @@ import { create } from 'zustand'
 import {
   connectGateway,
   disconnectGateway,
-  type ReadyEvent,
-  type FriendRequestCreateEvent,
-  type FriendRequestDeleteEvent,
-  type RelationshipAddEvent,
-  type RelationshipRemoveEvent,
-  type MessageCreateEvent,
-  type MessageDeleteEvent,
-  type ReactionAddEvent,
-  type ReactionRemoveEvent,
-  type PresenceUpdateEvent,
-  type Conversation,
-  type CallStateEvent,
-} from '../api/messages'
+  gatewayApi,
+  subscribeGateway,
+  subscribeGatewayDiagnostics,
+  type GatewayDiagnostic,
+} from '../api/gateway'
+import type { ReadyEvent, Message } from '../api/messages'
 import { useFriendsStore } from './friendsStore'
-import { useMessagesStore } from './messagesStore'
+import { useMessagesStore, reconcileMessage, isReactionPending } from './messagesStore'
 import { useAuthStore } from './authStore'
 import { useCallStore } from './callStore'
+import { useTypingStore } from './typingStore'
+import { usePinsStore } from './pinsStore'
+import { useOutboxStore } from './outboxStore'
+import { useUploadStore } from './uploadStore'
+import { useStickersStore } from './stickersStore'
+import { useEmojiStore } from './emojiStore'
+import { useUsersStore } from './usersStore'
+import { mentionsUser } from '../lib/mentions'
 
 type GatewayState = {
   isConnected: boolean
   isReady: boolean
+  // Recent events that failed validation or crashed a listener
+  diagnostics: GatewayDiagnostic[]
 
   connect: () => void
   disconnect: () => void
 }
 
+const MAX_DIAGNOSTICS = 50
+
+// Slack for clock skew between us and the server when asking for changes since a drop
+const SYNC_SLACK_MS = 60_000
+
+// When the current outage started; null while connected
+let disconnectedAt: number | null = null
+
+// Everything the client tracks about the account - delivered by READY and by /sync
+const applySnapshot = (data: ReadyEvent) => {
+  // Populate auth store with user
+  useAuthStore.setState({ user: data.user })
+
+  // Populate friends store
+  useFriendsStore.setState({
+    friends: data.friends || [],
+    incomingRequests: data.incoming_requests || [],
+    outgoingRequests: data.outgoing_requests || [],
+    isHydrated: true,
+  })
+
+  // Populate messages store
+  const conversations = data.conversations || []
+  const current = useMessagesStore.getState().currentConversation
+  useMessagesStore.setState({
+    conversations,
+    currentConversation: current ? conversations.find((c) => c.id === current.id) || current : null,
+    isHydrated: true,
+  })
+
+  // Initialize calls from active_calls
+  if (data.active_calls) {
+    useCallStore.getState().initFromReady(data.active_calls)
+  }
+}
+
+// Fold synced messages into a cached history: server copies win over what we have,
+// optimistic copies are replaced by nonce
+const mergeSyncedMessages = (messages: Message[], synced: Message[]) => {
+  let next = messages
+  for (const message of synced) {
+    next = next.some((m) => m.id === message.id)
+      ? next.map((m) => (m.id === message.id ? message : m))
+      : reconcileMessage(next, message)
+  }
+  return [...next].sort(
+    (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+  )
+}
+
+// Gateway couldn't replay what we missed - pull it over REST instead
+const catchUp = async (since: number) => {
+  const messagesStore = useMessagesStore.getState()
+  // Pin changes aren't part of the sync - reload lists on demand
+  usePinsStore.getState().reset()
+
+  try {
+    const data = await gatewayApi.sync(new Date(since - SYNC_SLACK_MS).toISOString())
+    applySnapshot(data)
+
+    if (data.truncated) {
+      messagesStore.invalidateHistory()
+      return
+    }
+
+    const byConversation: Record<string, Message[]> = {}
+    for (const message of data.messages || []) {
+      byConversation[message.conversation_id] = [
+        ...(byConversation[message.conversation_id] || []),
+        message,
+      ]
+    }
+    for (const [conversationId, synced] of Object.entries(byConversation)) {
+      messagesStore.updateCachedMessages(conversationId, (messages) =>
+        mergeSyncedMessages(messages, synced)
+      )
+    }
+    for (const deleted of data.deleted_messages || []) {
+      messagesStore.updateCachedMessages(deleted.conversation_id, (messages) =>
+        messages.filter((m) => m.id !== deleted.message_id)
+      )
+    }
+  } catch (err) {
+    console.error('Failed to catch up after reconnect:', err)
+    // Refetching beats showing history with holes in it
+    messagesStore.invalidateHistory()
+  }
+}
+
+// Listeners registered by connect(), removed on disconnect
+let eventUnsubscribers: Array<() => void> = []
+
+const unsubscribeEvents = () => {
+  eventUnsubscribers.forEach((unsubscribe) => unsubscribe())
+  eventUnsubscribers = []
+}
+
 export const useGatewayStore = create<GatewayState>((set, get) => ({
   isConnected: false,
   isReady: false,
+  diagnostics: [],
 
   connect: () => {
     if (get().isConnected) return
 
-    try {
-      connectGateway({
-        onReady: (data: ReadyEvent) => {
-          console.log('READY received:', data)
-
-          // Populate auth store with user
-          useAuthStore.setState({ user: data.user })
-
-          // Populate friends store
-          useFriendsStore.setState({
-            friends: data.friends || [],
-            incomingRequests: data.incoming_requests || [],
-            outgoingRequests: data.outgoing_requests || [],
-            isHydrated: true,
-          })
-
-          // Populate messages store
-          useMessagesStore.setState({
-            conversations: data.conversations || [],
-            isHydrated: true,
-          })
-
-          // Initialize calls from active_calls
-          if (data.active_calls) {
-            useCallStore.getState().initFromReady(data.active_calls)
-          }
+    // Sends queued in an earlier session go back into the timeline even while offline
+    useOutboxStore.getState().hydrate()
 
+    try {
+      // Re-subscribing on every connect - drop listeners from a previous session first
+      unsubscribeEvents()
+      eventUnsubscribers = [
+        subscribeGatewayDiagnostics((diagnostic) => {
+          set({ diagnostics: [...get().diagnostics, diagnostic].slice(-MAX_DIAGNOSTICS) })
+        }),
+
+        subscribeGateway('READY', (data) => {
+          applySnapshot(data)
           set({ isReady: true })
-        },
 
-        onFriendRequestCreate: (data: FriendRequestCreateEvent) => {
+          // Replay whatever was queued while we were offline
+          useOutboxStore.getState().flush()
+        }),
+
+        subscribeGateway('FRIEND_REQUEST_CREATE', (data) => {
           const state = useFriendsStore.getState()
           useFriendsStore.setState({
             incomingRequests: [...state.incomingRequests, data.request],
           })
-        },
+        }),
 
-        onFriendRequestDelete: (data: FriendRequestDeleteEvent) => {
+        subscribeGateway('FRIEND_REQUEST_DELETE', (data) => {
           const state = useFriendsStore.getState()
           useFriendsStore.setState({
             incomingRequests: state.incomingRequests.filter((r) => r.id !== data.request_id),
             outgoingRequests: state.outgoingRequests.filter((r) => r.id !== data.request_id),
           })
-        },
+        }),
 
-        onRelationshipAdd: (data: RelationshipAddEvent) => {
+        subscribeGateway('RELATIONSHIP_ADD', (data) => {
           const state = useFriendsStore.getState()
           // Add new friend if not already in list
           if (!state.friends.find((f) => f.user.id === data.friend.user.id)) {
@@ -88,29 +178,40 @@ export const useGatewayStore = create<GatewayState>((set, get) => ({
               friends: [...state.friends, data.friend],
             })
           }
-        },
+        }),
 
-        onRelationshipRemove: (data: RelationshipRemoveEvent) => {
+        subscribeGateway('RELATIONSHIP_REMOVE', (data) => {
           const state = useFriendsStore.getState()
           useFriendsStore.setState({
             friends: state.friends.filter((f) => f.user.id !== data.user_id),
           })
-        },
+        }),
 
-        onMessageCreate: (data: MessageCreateEvent) => {
-          const state = useMessagesStore.getState()
+        subscribeGateway('MESSAGE_CREATE', (data) => {
+          // Sending a message ends the author's typing indicator
+          useTypingStore.getState().stopTyping(data.conversation_id, data.message.sender_id)
 
-          // Update messages if we're in this conversation
-          if (state.currentConversation?.id === data.conversation_id) {
-            useMessagesStore.setState({
-              messages: [...state.messages, data.message],
-            })
-          }
+          // Append to the conversation's cached history, replacing our optimistic copy if it's ours
+          useMessagesStore.getState().updateCachedMessages(data.conversation_id, (messages) =>
+            reconcileMessage(messages, data.message)
+          )
 
-          // Update conversation list
+          // Update conversation list and unread state
+          const state = useMessagesStore.getState()
+          const me = useAuthStore.getState().user
+          const isOwn = data.message.sender_id === me?.id
           const updatedConversations = state.conversations.map((c) => {
             if (c.id === data.conversation_id) {
-              return { ...c, last_message: data.message, updated_at: data.message.created_at }
+              const updated = { ...c, last_message: data.message, updated_at: data.message.created_at }
+              // Own messages move the read marker; ChatArea acks others it displays
+              if (isOwn) {
+                return { ...updated, last_read_message_id: data.message.id, unread_count: 0, mention_count: 0 }
+              }
+              return {
+                ...updated,
+                unread_count: (c.unread_count || 0) + 1,
+                mention_count: (c.mention_count || 0) + (mentionsUser(data.message, me) ? 1 : 0),
+              }
             }
             return c
           })
@@ -121,64 +222,98 @@ export const useGatewayStore = create<GatewayState>((set, get) => ({
           )
 
           useMessagesStore.setState({ conversations: updatedConversations })
-        },
-
-        onMessageDelete: (data: MessageDeleteEvent) => {
-          const state = useMessagesStore.getState()
-
-          // Remove message from current conversation if we're viewing it
-          if (state.currentConversation?.id === data.conversation_id) {
-            useMessagesStore.setState({
-              messages: state.messages.filter((m) => m.id !== data.message_id),
-            })
-          }
-        },
+        }),
+
+        subscribeGateway('MESSAGE_UPDATE', (data) => {
+          // Replace message content in the conversation's cached history
+          useMessagesStore.getState().updateCachedMessages(data.conversation_id, (messages) =>
+            messages.map((m) =>
+              m.id === data.message.id
+                ? {
+                    ...m,
+                    content: data.message.content,
+                    updated_at: data.message.updated_at,
+                    edited_at: data.message.edited_at,
+                    embeds: data.message.embeds ?? m.embeds,
+                  }
+                : m
+            )
+          )
 
-        onReactionAdd: (data: ReactionAddEvent) => {
+          // Keep the conversation preview in sync if the last message was edited
           const state = useMessagesStore.getState()
+          useMessagesStore.setState({
+            conversations: state.conversations.map((c) =>
+              c.id === data.conversation_id && c.last_message?.id === data.message.id
+                ? { ...c, last_message: { ...c.last_message, content: data.message.content, updated_at: data.message.updated_at, edited_at: data.message.edited_at } }
+                : c
+            ),
+          })
+        }),
 
-          // Add reaction to message if we're viewing this conversation
-          if (state.currentConversation?.id === data.conversation_id) {
-            useMessagesStore.setState({
-              messages: state.messages.map((m) => {
-                if (m.id === data.message_id) {
-                  const reactions = m.reactions || []
-                  // Check if reaction already exists
-                  const exists = reactions.some(
-                    (r) => r.user_id === data.reaction.user_id && r.emoji === data.reaction.emoji
-                  )
-                  if (!exists) {
-                    return { ...m, reactions: [...reactions, data.reaction] }
-                  }
+        subscribeGateway('MESSAGE_DELETE', (data) => {
+          // Remove message from the conversation's cached history
+          useMessagesStore.getState().updateCachedMessages(data.conversation_id, (messages) =>
+            messages.filter((m) => m.id !== data.message_id)
+          )
+        }),
+
+        subscribeGateway('MESSAGE_ACK', (data) => {
+          useMessagesStore.getState().applyReadState(data.conversation_id, data.message_id)
+        }),
+
+        subscribeGateway('CHANNEL_PINS_UPDATE', (data) => {
+          usePinsStore.getState().applyPinsUpdate(data)
+        }),
+
+        subscribeGateway('REACTION_ADD', (data) => {
+          // Our own toggles are still settling - the local state is newer
+          const isOwn = data.reaction.user_id === useAuthStore.getState().user?.id
+          if (isOwn && isReactionPending(data.conversation_id, data.message_id, data.reaction.emoji)) return
+          // Add reaction to message in the conversation's cached history
+          useMessagesStore.getState().updateCachedMessages(data.conversation_id, (messages) =>
+            messages.map((m) => {
+              if (m.id === data.message_id) {
+                const reactions = m.reactions || []
+                // Check if reaction already exists
+                const exists = reactions.some(
+                  (r) => r.user_id === data.reaction.user_id && r.emoji === data.reaction.emoji
+                )
+                if (!exists) {
+                  return { ...m, reactions: [...reactions, data.reaction] }
                 }
-                return m
-              }),
+              }
+              return m
             })
-          }
-        },
-
-        onReactionRemove: (data: ReactionRemoveEvent) => {
-          const state = useMessagesStore.getState()
-
-          // Remove reaction from message if we're viewing this conversation
-          if (state.currentConversation?.id === data.conversation_id) {
-            useMessagesStore.setState({
-              messages: state.messages.map((m) => {
-                if (m.id === data.message_id) {
-                  return {
-                    ...m,
-                    reactions: (m.reactions || []).filter(
-                      (r) => !(r.user_id === data.user_id && r.emoji === data.emoji)
-                    ),
-                  }
+          )
+        }),
+
+        subscribeGateway('REACTION_REMOVE', (data) => {
+          const isOwn = data.user_id === useAuthStore.getState().user?.id
+          if (isOwn && isReactionPending(data.conversation_id, data.message_id, data.emoji)) return
+          // Remove reaction from message in the conversation's cached history
+          useMessagesStore.getState().updateCachedMessages(data.conversation_id, (messages) =>
+            messages.map((m) => {
+              if (m.id === data.message_id) {
+                return {
+                  ...m,
+                  reactions: (m.reactions || []).filter(
+                    (r) => !(r.user_id === data.user_id && r.emoji === data.emoji)
+                  ),
                 }
-                return m
-              }),
+              }
+              return m
             })
-          }
-        },
+          )
+        }),
+
+        subscribeGateway('TYPING_START', (data) => {
+          // Our own echo from another tab isn't interesting
+          if (data.user_id === useAuthStore.getState().user?.id) return
+          useTypingStore.getState().startTyping(data.conversation_id, data.user_id)
+        }),
 
-        onPresenceUpdate: (data: PresenceUpdateEvent) => {
+        subscribeGateway('PRESENCE_UPDATE', (data) => {
           // Update friends
           const friendsState = useFriendsStore.getState()
           const updatedFriends = friendsState.friends.map((f) => {
@@ -212,29 +347,50 @@ export const useGatewayStore = create<GatewayState>((set, get) => ({
             conversations: updatedConversations,
             currentConversation: updatedCurrentConversation,
           })
-        },
+        }),
 
-        onConversationCreate: (conversation: Conversation) => {
+        subscribeGateway('CONVERSATION_CREATE', (conversation) => {
           useMessagesStore.getState().addConversation(conversation)
-        },
+        }),
 
-        onConversationUpdate: (conversation: Conversation) => {
+        subscribeGateway('CONVERSATION_UPDATE', (conversation) => {
           useMessagesStore.getState().updateConversation(conversation)
-        },
+        }),
 
-        onCallState: (data: CallStateEvent) => {
+        subscribeGateway('CALL_STATE', (data) => {
           useCallStore.getState().onCallState(
             data.conversation_id,
             data.call_id,
             data.participants
           )
-        },
+        }),
+      ]
 
+      connectGateway({
         onConnect: () => {
           set({ isConnected: true })
         },
 
+        onReconnecting: () => {
+          disconnectedAt ??= Date.now()
+          // Nobody will tell us when these stop - drop them rather than show stale dots
+          useTypingStore.getState().reset()
+          // Stay ready - the UI keeps working from local state through a blip
+          set({ isConnected: false })
+        },
+
+        onResume: async (recovered) => {
+          const since = disconnectedAt
+          disconnectedAt = null
+          if (!recovered && since !== null) {
+            await catchUp(since)
+          }
+          useOutboxStore.getState().flush()
+        },
+
         onDisconnect: () => {
+          disconnectedAt = null
+          useTypingStore.getState().reset()
           set({ isConnected: false, isReady: false })
         },
       })
@@ -245,6 +401,14 @@ export const useGatewayStore = create<GatewayState>((set, get) => ({
 
   disconnect: () => {
     disconnectGateway()
+    unsubscribeEvents()
+    disconnectedAt = null
+    useTypingStore.getState().reset()
+    usePinsStore.getState().reset()
+    useUploadStore.getState().reset()
+    useStickersStore.getState().reset()
+    useEmojiStore.getState().reset()
+    useUsersStore.getState().reset()
     set({ isConnected: false, isReady: false })
   },
 }))
@@ -1,24 +1,151 @@
 import { create } from 'zustand'
 import { messagesApi } from '../api/messages'
-import type { Message, Conversation, Attachment } from '../api/messages'
+import type { Message, Conversation, Attachment, AttachmentMetadata, Reaction } from '../api/messages'
+import type { Sticker } from '../api/stickers'
+import { ApiError, isNetworkError } from '../api/client'
+import { useAuthStore } from './authStore'
+import { useGatewayStore } from './gatewayStore'
+import { useOutboxStore, isOutboxBusy, queuedMessages } from './outboxStore'
+import { useEmojiStore, usableEmojis } from './emojiStore'
+import { encodeMentions } from '../lib/mentions'
+import { encodeCustomEmoji } from '../lib/customEmoji'
+
+const PAGE_SIZE = 50
+
+// How many conversations keep their loaded history around
+const MAX_CACHED_CONVERSATIONS = 20
+
+// Pages loadUntilMessage walks back per call - past that the user decides whether to keep going
+const MAX_JUMP_PAGES = 10
+
+// Bumped on every selectConversation so stale responses can be discarded
+let selectRequestId = 0
+
+// Rate-limited reaction requests are retried this many times, backing off from RETRY_BASE_MS
+const REACTION_RETRIES = 3
+const REACTION_RETRY_BASE_MS = 1000
+
+// Own reactions being synced, by conversation/message/emoji: the state the
+// user asked for last. Quick toggles only update it - the running request
+// loop sends whatever is wanted once the previous request settles.
+const pendingReactions = new Map<string, { wanted: boolean }>()
+
+const reactionKey = (conversationId: string, messageId: string, emoji: string) =>
+  `${conversationId}:${messageId}:${emoji}`
+
+// Gateway echoes of our own reactions are stale while a sync is running
+export const isReactionPending = (conversationId: string, messageId: string, emoji: string) =>
+  pendingReactions.has(reactionKey(conversationId, messageId, emoji))
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// Merge a fetched page with what's already loaded (e.g. live MESSAGE_CREATE inserts
+// that landed while the request was in flight), dropping duplicates and keeping order
+const mergeMessages = (page: Message[], existing: Message[]) => {
+  const byId = new Map<string, Message>()
+  for (const m of page) byId.set(m.id, m)
+  for (const m of existing) byId.set(m.id, m)
+  return [...byId.values()].sort(
+    (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+  )
+}
+
+// Group name, or the other participant for a DM
+export const conversationTitle = (conv: Conversation, userId: string | undefined) => {
+  if (conv.type === 'dm') {
+    return conv.participants.find((p) => p.id !== userId)?.username || 'Unknown'
+  }
+  return conv.name || conv.participants
+    .filter(p => p.id !== userId)
+    .map(p => p.username)
+    .join(', ')
+}
+
+// Loaded history of a single conversation
+export type ConversationCache = {
+  messages: Message[]
+  hasMore: boolean
+  isLoadingOlder: boolean
+  // False while the first page is in flight - live events still land in `messages`
+  isLoaded: boolean
+}
+
+const EMPTY_MESSAGES: Message[] = []
+
+// Move a conversation to the front of the LRU order and evict the tail,
+// never dropping the conversation that is currently open
+const touchCache = (
+  cache: Record<string, ConversationCache>,
+  order: string[],
+  id: string
+) => {
+  const nextOrder = [id, ...order.filter((c) => c !== id)]
+  if (nextOrder.length <= MAX_CACHED_CONVERSATIONS) {
+    return { messageCache: cache, cacheOrder: nextOrder }
+  }
+
+  const nextCache = { ...cache }
+  for (const evicted of nextOrder.splice(MAX_CACHED_CONVERSATIONS)) {
+    delete nextCache[evicted]
+  }
+  return { messageCache: nextCache, cacheOrder: nextOrder }
+}
+
+// Fold a server-confirmed message into a history list: replaces the optimistic
+// copy with the same nonce, ignores duplicates, otherwise appends
+export const reconcileMessage = (messages: Message[], message: Message) => {
+  const hasServerCopy = messages.some((m) => m.id === message.id)
+  const localIndex = message.nonce
+    ? messages.findIndex((m) => m.local_status && m.nonce === message.nonce)
+    : -1
+
+  if (localIndex !== -1) {
+    const withoutLocal = messages.filter((_, i) => i !== localIndex)
+    if (hasServerCopy) return withoutLocal
+    return [...withoutLocal.slice(0, localIndex), message, ...withoutLocal.slice(localIndex)]
+  }
+  return hasServerCopy ? messages : [...messages, message]
+}
 
 type MessagesState = {
   conversations: Conversation[]
   currentConversation: Conversation | null
-  messages: Message[]
+  // Per-conversation history, keyed by conversation id, with LRU order (most recent first)
+  messageCache: Record<string, ConversationCache>
+  cacheOrder: string[]
   isLoading: boolean
   isHydrated: boolean
+  // Message to scroll to once its conversation is open (e.g. a search result)
+  pendingJump: { conversationId: string; messageId: string } | null
 
   // Actions
   selectConversation: (id: string) => Promise<void>
   openDM: (userId: string) => Promise<string | null>
   createGroup: (name: string, participantIds: string[]) => Promise<string | null>
   addParticipants: (userIds: string[]) => Promise<boolean>
-  sendMessage: (content: string, attachmentIds?: string[]) => Promise<boolean>
+  sendMessage: (content: string, attachments?: Attachment[], replyToId?: string, sticker?: Sticker) => Promise<boolean>
+  // Resolves with the friends whose DM couldn't be opened - they got nothing
+  forwardMessage: (
+    message: Message,
+    targets: { conversationIds: string[]; userIds: string[] },
+    comment?: string
+  ) => Promise<string[]>
+  retryMessage: (conversationId: string, nonce: string) => Promise<boolean>
+  discardMessage: (conversationId: string, nonce: string) => void
+  editMessage: (messageId: string, content: string) => Promise<boolean>
+  sendTyping: () => void
   deleteMessage: (messageId: string) => Promise<boolean>
   addReaction: (messageId: string, emoji: string) => Promise<boolean>
   removeReaction: (messageId: string, emoji: string) => Promise<boolean>
-  uploadAttachment: (file: File) => Promise<Attachment | null>
+  loadOlderMessages: () => Promise<boolean>
+  // 'too_far' - not within MAX_JUMP_PAGES, calling again continues from there
+  loadUntilMessage: (messageId: string) => Promise<'loaded' | 'missing' | 'too_far'>
+  setPendingJump: (jump: { conversationId: string; messageId: string } | null) => void
+  updateCachedMessages: (conversationId: string, updater: (messages: Message[]) => Message[]) => void
+  invalidateHistory: () => void
+  markAsRead: (conversationId: string) => Promise<void>
+  applyReadState: (conversationId: string, messageId: string) => void
+  uploadAttachment: (file: File, metadata?: AttachmentMetadata) => Promise<Attachment | null>
   uploadGroupAvatar: (file: File) => Promise<boolean>
   updateGroupName: (name: string) => Promise<boolean>
   leaveGroup: (conversationId: string) => Promise<boolean>
@@ -28,35 +155,102 @@ type MessagesState = {
   reset: () => void
 }
 
+// Messages of the open conversation; stable empty array while nothing is loaded
+export const selectCurrentMessages = (state: MessagesState) =>
+  (state.currentConversation && state.messageCache[state.currentConversation.id]?.messages) ||
+  EMPTY_MESSAGES
+
+// History state (hasMore / isLoadingOlder) of the open conversation
+export const selectCurrentCache = (state: MessagesState): ConversationCache | undefined =>
+  state.currentConversation ? state.messageCache[state.currentConversation.id] : undefined
+
 export const useMessagesStore = create<MessagesState>((set, get) => ({
   conversations: [],
   currentConversation: null,
-  messages: [],
+  messageCache: {},
+  cacheOrder: [],
   isLoading: false,
   isHydrated: false,
+  pendingJump: null,
 
   selectConversation: async (id) => {
-    const { conversations } = get()
+    const { conversations, messageCache, cacheOrder } = get()
     const cachedConv = conversations.find((c) => c.id === id)
+    const requestId = ++selectRequestId
+
+    // Recently opened - gateway events kept it up to date, switch instantly
+    if (cachedConv && messageCache[id]?.isLoaded) {
+      set({
+        currentConversation: cachedConv,
+        isLoading: false,
+        ...touchCache(messageCache, cacheOrder, id),
+      })
+      return
+    }
 
-    set({ isLoading: true, currentConversation: cachedConv || null })
+    // Placeholder entry so MESSAGE_CREATE events arriving mid-fetch aren't dropped
+    const placeholder: ConversationCache = messageCache[id] || {
+      messages: [],
+      hasMore: false,
+      isLoadingOlder: false,
+      isLoaded: false,
+    }
+    set({
+      isLoading: true,
+      currentConversation: cachedConv || null,
+      ...touchCache({ ...messageCache, [id]: placeholder }, cacheOrder, id),
+    })
 
     try {
-      const messages = await messagesApi.getMessages(id)
+      const page = await messagesApi.getMessages(id, PAGE_SIZE)
 
       let conversation = cachedConv
       if (!conversation) {
         conversation = await messagesApi.getConversation(id)
       }
 
+      // Keep the page even if the user already moved on - it makes switching back instant
+      const state = get()
+      const existing = state.messageCache[id]?.messages || []
+      // Sends queued in an earlier session aren't in the page - show them again
+      const queued = queuedMessages(id).filter(
+        (q) => ![...existing, ...(page || [])].some((m) => m.nonce === q.nonce)
+      )
+      const entry: ConversationCache = {
+        messages: mergeMessages(page || [], [...existing, ...queued]),
+        hasMore: (page?.length || 0) >= PAGE_SIZE,
+        isLoadingOlder: false,
+        isLoaded: true,
+      }
+      const cache = touchCache({ ...state.messageCache, [id]: entry }, state.cacheOrder, id)
+
+      // Another conversation was selected while we were loading
+      if (requestId !== selectRequestId) {
+        // Don't let the background page push the open conversation out of the cache
+        const current = state.currentConversation?.id
+        set(current && state.messageCache[current]
+          ? touchCache(cache.messageCache, cache.cacheOrder, current)
+          : cache)
+        return
+      }
+
       set({
         currentConversation: conversation,
-        messages: messages || [],
         isLoading: false,
+        ...cache,
       })
     } catch (err) {
       console.error('Failed to load conversation:', err)
-      set({ isLoading: false })
+      // Drop the placeholder so the next attempt refetches
+      const { messageCache, cacheOrder } = get()
+      if (messageCache[id] && !messageCache[id].isLoaded) {
+        const nextCache = { ...messageCache }
+        delete nextCache[id]
+        set({ messageCache: nextCache, cacheOrder: cacheOrder.filter((c) => c !== id) })
+      }
+      if (requestId === selectRequestId) {
+        set({ isLoading: false })
+      }
     }
   },
 
@@ -119,80 +313,321 @@ export const useMessagesStore = create<MessagesState>((set, get) => ({
     }
   },
 
-  sendMessage: async (content, attachmentIds) => {
+  sendMessage: async (content, attachments, replyToId, sticker) => {
+    const { currentConversation, messageCache } = get()
+    if (!currentConversation) return false
+
+    const conversationId = currentConversation.id
+    const me = useAuthStore.getState().user
+    const nonce = crypto.randomUUID()
+    const now = new Date().toISOString()
+
+    // Show it right away; the MESSAGE_CREATE echo or the REST response replaces it by nonce
+    const local: Message = {
+      id: `local-${nonce}`,
+      conversation_id: conversationId,
+      sender_id: me?.id || '',
+      sender: me || undefined,
+      type: sticker ? 'sticker' : 'text',
+      content,
+      created_at: now,
+      updated_at: now,
+      attachments,
+      reply_to_id: replyToId || null,
+      reply_to: replyToId
+        ? messageCache[conversationId]?.messages.find((m) => m.id === replyToId) || null
+        : null,
+      sticker: sticker || null,
+      nonce,
+      local_status: 'sending',
+    }
+    get().updateCachedMessages(conversationId, (messages) => [...messages, local])
+
+    return deliverMessage(local)
+  },
+
+  forwardMessage: async (message, { conversationIds, userIds }, comment) => {
+    const me = useAuthStore.getState().user
+    // A forward of a forward still points at the original
+    const forwardedFrom = message.forwarded_from || {
+      message_id: message.id,
+      conversation_id: message.conversation_id,
+      sender_id: message.sender_id,
+      sender: message.sender,
+      created_at: message.created_at,
+    }
+
+    // Friends without a DM yet get one, without switching to it
+    const targets = [...conversationIds]
+    const unreachedUserIds: string[] = []
+    for (const userId of userIds) {
+      try {
+        const conversation = await messagesApi.getOrCreateDM(userId)
+        get().addConversation(conversation)
+        if (!targets.includes(conversation.id)) targets.push(conversation.id)
+      } catch (err) {
+        console.error('Failed to open DM:', err)
+        unreachedUserIds.push(userId)
+      }
+    }
+
+    // Same encoding as the composer, against each target's people and emoji
+    const encodeComment = (conversationId: string, text: string) => {
+      const participants = get().conversations.find((c) => c.id === conversationId)?.participants || []
+      const picked = Object.fromEntries(participants.map((p) => [p.username, p.id]))
+      return encodeCustomEmoji(encodeMentions(text, picked), usableEmojis(useEmojiStore.getState().emojis, conversationId))
+    }
+
+    const post = (conversationId: string, fields: Partial<Message>) => {
+      const nonce = crypto.randomUUID()
+      const now = new Date().toISOString()
+      const local: Message = {
+        id: `local-${nonce}`,
+        conversation_id: conversationId,
+        sender_id: me?.id || '',
+        sender: me || undefined,
+        type: 'text',
+        content: '',
+        created_at: now,
+        updated_at: now,
+        nonce,
+        local_status: 'sending',
+        ...fields,
+      }
+      // Conversations that aren't loaded get it from the server when opened
+      get().updateCachedMessages(conversationId, (messages) => [...messages, local])
+      return deliverMessage(local)
+    }
+
+    // Copies that fail stay in their conversation with a retry, like any send
+    for (const conversationId of targets) {
+      // The comment goes first, like a caption above the forwarded message
+      if (comment?.trim()) await post(conversationId, { content: encodeComment(conversationId, comment.trim()) })
+      await post(conversationId, {
+        type: message.type === 'sticker' ? 'sticker' : 'text',
+        content: message.content,
+        attachments: message.attachments,
+        sticker: message.sticker || null,
+        forwarded_from: forwardedFrom,
+        local_forward_from_id: message.id,
+      })
+    }
+    return unreachedUserIds
+  },
+
+  retryMessage: async (conversationId, nonce) => {
+    const local = get().messageCache[conversationId]?.messages.find(
+      (m) => m.local_status && m.nonce === nonce
+    )
+    if (!local) return false
+    return deliverMessage(local)
+  },
+
+  discardMessage: (conversationId, nonce) => {
+    get().updateCachedMessages(conversationId, (messages) =>
+      messages.filter((m) => !(m.local_status && m.nonce === nonce))
+    )
+    // Queued sends are keyed by nonce
+    useOutboxStore.getState().remove(nonce)
+  },
+
+  sendTyping: () => {
+    const { currentConversation } = get()
+    if (!currentConversation) return
+
+    // Best effort - a lost typing ping isn't worth surfacing
+    messagesApi.sendTyping(currentConversation.id).catch(() => {})
+  },
+
+  editMessage: async (messageId, content) => {
     const { currentConversation } = get()
     if (!currentConversation) return false
 
     try {
-      await messagesApi.sendMessage(currentConversation.id, content, attachmentIds)
-      // Message will come back via WebSocket MESSAGE_CREATE event
+      const updated = await messagesApi.editMessage(currentConversation.id, messageId, content)
+      // Apply locally right away - MESSAGE_UPDATE will carry the same payload
+      get().updateCachedMessages(currentConversation.id, (messages) =>
+        messages.map((m) =>
+          m.id === messageId ? { ...m, content: updated.content, updated_at: updated.updated_at, edited_at: updated.edited_at } : m
+        )
+      )
       return true
     } catch (err) {
-      console.error('Failed to send message:', err)
+      console.error('Failed to edit message:', err)
       return false
     }
   },
 
   deleteMessage: async (messageId) => {
-    const { currentConversation, messages } = get()
+    const { currentConversation, messageCache } = get()
     if (!currentConversation) return false
+    const conversationId = currentConversation.id
+
+    // Never reached the server - just drop it along with its queued send
+    const local = messageCache[conversationId]?.messages.find((m) => m.id === messageId)
+    if (local?.local_status && local.nonce) {
+      get().discardMessage(conversationId, local.nonce)
+      return true
+    }
+
+    const removeLocally = () =>
+      get().updateCachedMessages(conversationId, (messages) =>
+        messages.filter((m) => m.id !== messageId)
+      )
+    const enqueue = async () => {
+      removeLocally()
+      await useOutboxStore.getState().enqueue({ type: 'deleteMessage', conversationId, messageId, message: local })
+      return true
+    }
+
+    if (!useGatewayStore.getState().isConnected || isOutboxBusy()) return enqueue()
 
     try {
-      await messagesApi.deleteMessage(currentConversation.id, messageId)
+      await messagesApi.deleteMessage(conversationId, messageId)
       // Remove message from local state
-      set({ messages: messages.filter((m) => m.id !== messageId) })
+      removeLocally()
       return true
     } catch (err) {
+      if (isNetworkError(err)) return enqueue()
       console.error('Failed to delete message:', err)
       return false
     }
   },
 
-  addReaction: async (messageId, emoji) => {
-    const { currentConversation, messages } = get()
+  addReaction: async (messageId, emoji) => setOwnReaction(messageId, emoji, true),
+
+  removeReaction: async (messageId, emoji) => setOwnReaction(messageId, emoji, false),
+
+  loadOlderMessages: async () => {
+    const { currentConversation, messageCache } = get()
     if (!currentConversation) return false
 
-    try {
-      const reaction = await messagesApi.addReaction(currentConversation.id, messageId, emoji)
-      // Update message reactions locally
+    const conversationId = currentConversation.id
+    const entry = messageCache[conversationId]
+    if (!entry || !entry.hasMore || entry.isLoadingOlder || entry.messages.length === 0) return false
+
+    // Cursor on the oldest loaded message - live inserts at the bottom don't shift it
+    const before = entry.messages[0].id
+
+    const patchEntry = (patch: (entry: ConversationCache) => Partial<ConversationCache>) => {
+      const current = get().messageCache[conversationId]
+      // Evicted while the request was in flight
+      if (!current) return
       set({
-        messages: messages.map((m) => {
-          if (m.id === messageId) {
-            const reactions = m.reactions || []
-            const exists = reactions.some(
-              (r) => r.user_id === reaction.user_id && r.emoji === reaction.emoji
-            )
-            if (!exists) {
-              return { ...m, reactions: [...reactions, reaction] }
-            }
-          }
-          return m
-        }),
+        messageCache: { ...get().messageCache, [conversationId]: { ...current, ...patch(current) } },
       })
+    }
+
+    patchEntry(() => ({ isLoadingOlder: true }))
+
+    try {
+      const page = await messagesApi.getMessages(conversationId, PAGE_SIZE, before)
+      patchEntry((current) => ({
+        messages: mergeMessages(page || [], current.messages),
+        hasMore: (page?.length || 0) >= PAGE_SIZE,
+        isLoadingOlder: false,
+      }))
       return true
     } catch (err) {
-      console.error('Failed to add reaction:', err)
+      console.error('Failed to load older messages:', err)
+      patchEntry(() => ({ isLoadingOlder: false }))
       return false
     }
   },
 
-  removeReaction: async (messageId, emoji) => {
-    const { currentConversation } = get()
-    if (!currentConversation) return false
+  loadUntilMessage: async (messageId) => {
+    const conversationId = get().currentConversation?.id
+    if (!conversationId) return 'missing'
+
+    const getEntry = () => get().messageCache[conversationId]
+    const isLoaded = () => !!getEntry()?.messages.some((m) => m.id === messageId)
+
+    // Walk back through history until the message shows up or we run out of pages
+    for (let pages = 0; !isLoaded(); pages++) {
+      // Let an in-flight page (e.g. from scrolling) settle first
+      while (getEntry()?.isLoadingOlder) {
+        await new Promise((resolve) => setTimeout(resolve, 50))
+      }
+      if (isLoaded()) break
+      // Conversation switched or history exhausted
+      if (get().currentConversation?.id !== conversationId || !getEntry()?.hasMore) return 'missing'
+      if (pages >= MAX_JUMP_PAGES) return 'too_far'
+
+      const loaded = await get().loadOlderMessages()
+      if (!loaded) return 'missing'
+    }
+    return 'loaded'
+  },
+
+  setPendingJump: (jump) => set({ pendingJump: jump }),
+
+  updateCachedMessages: (conversationId, updater) => {
+    const { messageCache } = get()
+    const entry = messageCache[conversationId]
+    // Not cached - it will be fetched fresh when opened
+    if (!entry) return
+
+    set({
+      messageCache: { ...messageCache, [conversationId]: { ...entry, messages: updater(entry.messages) } },
+    })
+  },
+
+  invalidateHistory: () => {
+    const { messageCache, cacheOrder, currentConversation } = get()
+
+    // Events were lost - loaded history can't be trusted anymore. Unconfirmed
+    // local messages survive and get merged into the refetched page
+    const nextCache: Record<string, ConversationCache> = {}
+    for (const [id, entry] of Object.entries(messageCache)) {
+      const local = entry.messages.filter((m) => m.local_status)
+      if (local.length > 0 || id === currentConversation?.id) {
+        nextCache[id] = { messages: local, hasMore: false, isLoadingOlder: false, isLoaded: false }
+      }
+    }
+    set({ messageCache: nextCache, cacheOrder: cacheOrder.filter((id) => nextCache[id]) })
+
+    if (currentConversation) {
+      get().selectConversation(currentConversation.id)
+    }
+  },
+
+  markAsRead: async (conversationId) => {
+    const { conversations, messageCache } = get()
+    const conversation = conversations.find((c) => c.id === conversationId)
+    // Optimistic messages have no server id to ack
+    const loaded = messageCache[conversationId]?.messages.filter((m) => !m.local_status)
+    const lastMessage = loaded?.[loaded.length - 1] || conversation?.last_message
+    if (!conversation || !lastMessage) return
+
+    // Already read up to here
+    if (conversation.last_read_message_id === lastMessage.id && !conversation.unread_count) return
+
+    get().applyReadState(conversationId, lastMessage.id)
 
     try {
-      await messagesApi.removeReaction(currentConversation.id, messageId, emoji)
-      // Update message reactions locally - will be synced via gateway
-      return true
+      await messagesApi.ackConversation(conversationId, lastMessage.id)
     } catch (err) {
-      console.error('Failed to remove reaction:', err)
-      return false
+      console.error('Failed to ack conversation:', err)
     }
   },
 
-  uploadAttachment: async (file) => {
+  applyReadState: (conversationId, messageId) => {
+    const { conversations, currentConversation } = get()
+    const patch = { last_read_message_id: messageId, unread_count: 0, mention_count: 0 }
+    set({
+      conversations: conversations.map((c) =>
+        c.id === conversationId ? { ...c, ...patch } : c
+      ),
+      currentConversation:
+        currentConversation?.id === conversationId
+          ? { ...currentConversation, ...patch }
+          : currentConversation,
+    })
+  },
+
+  uploadAttachment: async (file, metadata) => {
     try {
-      return await messagesApi.uploadAttachment(file)
+      return await messagesApi.uploadAttachment(file, metadata)
     } catch (err) {
       console.error('Failed to upload attachment:', err)
       return null
@@ -268,13 +703,7 @@ export const useMessagesStore = create<MessagesState>((set, get) => ({
   leaveGroup: async (conversationId) => {
     try {
       await messagesApi.leaveGroup(conversationId)
-      const { conversations, currentConversation } = get()
-      set({
-        conversations: conversations.filter((c) => c.id !== conversationId),
-        currentConversation:
-          currentConversation?.id === conversationId ? null : currentConversation,
-        messages: currentConversation?.id === conversationId ? [] : get().messages,
-      })
+      get().removeConversation(conversationId)
       return true
     } catch (err) {
       console.error('Failed to leave group:', err)
@@ -283,19 +712,182 @@ export const useMessagesStore = create<MessagesState>((set, get) => ({
   },
 
   removeConversation: (conversationId) => {
-    const { conversations, currentConversation } = get()
+    const { conversations, currentConversation, messageCache, cacheOrder } = get()
+    const nextCache = { ...messageCache }
+    delete nextCache[conversationId]
     set({
       conversations: conversations.filter((c) => c.id !== conversationId),
       currentConversation:
         currentConversation?.id === conversationId ? null : currentConversation,
+      messageCache: nextCache,
+      cacheOrder: cacheOrder.filter((id) => id !== conversationId),
     })
   },
 
   reset: () => set({
     conversations: [],
     currentConversation: null,
-    messages: [],
+    messageCache: {},
+    cacheOrder: [],
     isLoading: false,
     isHydrated: false,
+    pendingJump: null,
   }),
 }))
+
+// Show the user's reaction (or its absence) right away, then bring the server in line
+async function setOwnReaction(messageId: string, emoji: string, wanted: boolean): Promise<boolean> {
+  const { currentConversation, updateCachedMessages } = useMessagesStore.getState()
+  const me = useAuthStore.getState().user
+  if (!currentConversation || !me) return false
+  const conversationId = currentConversation.id
+
+  // Replace our reaction with `reaction`, or drop it when null
+  const applyOwn = (reaction: Reaction | null) =>
+    updateCachedMessages(conversationId, (messages) =>
+      messages.map((m) => {
+        if (m.id !== messageId) return m
+        const others = (m.reactions || []).filter((r) => !(r.user_id === me.id && r.emoji === emoji))
+        return { ...m, reactions: reaction ? [...others, reaction] : others }
+      })
+    )
+  const localReaction = (): Reaction => ({
+    id: `local-${crypto.randomUUID()}`,
+    message_id: messageId,
+    user_id: me.id,
+    emoji,
+    created_at: new Date().toISOString(),
+    user: me,
+  })
+
+  applyOwn(wanted ? localReaction() : null)
+
+  const key = reactionKey(conversationId, messageId, emoji)
+  const pending = pendingReactions.get(key)
+  if (pending) {
+    // A request is already running - it picks up the new state when it's done
+    pending.wanted = wanted
+    return true
+  }
+
+  // Offline - the outbox replays it in order with the other operations
+  const enqueue = (target: boolean) =>
+    useOutboxStore.getState().enqueue(
+      target
+        ? { type: 'addReaction', conversationId, messageId, emoji }
+        : { type: 'removeReaction', conversationId, messageId, emoji }
+    )
+
+  const state = { wanted }
+  pendingReactions.set(key, state)
+  // What the server has - the opposite of the first request
+  let confirmed = !wanted
+  let retries = 0
+
+  try {
+    while (state.wanted !== confirmed) {
+      const target = state.wanted
+
+      if (!useGatewayStore.getState().isConnected || isOutboxBusy()) {
+        await enqueue(target)
+        confirmed = target
+        continue
+      }
+
+      try {
+        if (target) {
+          const reaction = await messagesApi.addReaction(conversationId, messageId, emoji)
+          // Swap the placeholder for the real one unless the user took it back meanwhile
+          if (state.wanted) applyOwn(reaction)
+        } else {
+          await messagesApi.removeReaction(conversationId, messageId, emoji)
+        }
+        confirmed = target
+        retries = 0
+      } catch (err) {
+        if (isNetworkError(err)) {
+          await enqueue(target)
+          confirmed = target
+          continue
+        }
+        if (err instanceof ApiError && err.status === 429 && retries < REACTION_RETRIES) {
+          await sleep(REACTION_RETRY_BASE_MS * 2 ** retries++)
+          continue
+        }
+        // Already there / already gone - the server agrees with us anyway
+        if (err instanceof ApiError && (err.status === 409 || (!target && err.status === 404))) {
+          confirmed = target
+          continue
+        }
+
+        console.error(`Failed to ${target ? 'add' : 'remove'} reaction:`, err)
+        // Show what the server actually has
+        applyOwn(confirmed ? localReaction() : null)
+        return false
+      }
+    }
+    return true
+  } finally {
+    pendingReactions.delete(key)
+  }
+}
+
+// Send an optimistic message already shown as `local`. Works for conversations
+// that aren't loaded too - status updates then just have nothing to touch
+async function deliverMessage(local: Message): Promise<boolean> {
+  const { conversation_id: conversationId, nonce } = local
+  if (!nonce) return false
+  const { updateCachedMessages } = useMessagesStore.getState()
+
+  const setStatus = (status: Message['local_status']) =>
+    updateCachedMessages(conversationId, (messages) =>
+      messages.map((m) => (m.local_status && m.nonce === nonce ? { ...m, local_status: status } : m))
+    )
+
+  // Forwards don't send attachment ids - the server copies the original's
+  const attachmentIds = local.local_forward_from_id ? undefined : local.attachments?.map((a) => a.id)
+  const operation = {
+    type: 'sendMessage' as const,
+    conversationId,
+    nonce,
+    content: local.content,
+    attachmentIds: attachmentIds && attachmentIds.length > 0 ? attachmentIds : undefined,
+    replyToId: local.reply_to_id || undefined,
+    stickerId: local.sticker?.id,
+    forwardFromId: local.local_forward_from_id,
+    message: { ...local, local_status: undefined },
+  }
+  const enqueue = async () => {
+    setStatus('queued')
+    await useOutboxStore.getState().enqueue(operation)
+    return true
+  }
+
+  // No point hitting the network while the gateway is down - the outbox flushes on reconnect.
+  // Online but with older operations still queued, this goes behind them
+  if (!useGatewayStore.getState().isConnected || isOutboxBusy()) return enqueue()
+
+  setStatus('sending')
+
+  try {
+    const message = await messagesApi.sendMessage(
+      conversationId,
+      operation.content,
+      operation.attachmentIds,
+      operation.replyToId,
+      nonce,
+      operation.stickerId,
+      operation.forwardFromId
+    )
+    // Echo may not have arrived yet - swap in the server copy ourselves
+    updateCachedMessages(conversationId, (messages) =>
+      reconcileMessage(messages, { ...message, nonce })
+    )
+    return true
+  } catch (err) {
+    if (isNetworkError(err)) return enqueue()
+    console.error('Failed to send message:', err)
+    setStatus('failed')
+    return false
+  }
+}
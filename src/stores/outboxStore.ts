@@ -0,0 +1,235 @@
+import { create } from 'zustand'
+import { messagesApi } from '../api/messages'
+import { isNetworkError } from '../api/client'
+import {
+  readOutbox,
+  putOutboxOperation,
+  deleteOutboxOperation,
+  clearOutbox,
+  type OutboxOperation,
+} from '../lib/outbox'
+import type { Message, Reaction } from '../api/messages'
+import { useMessagesStore, reconcileMessage } from './messagesStore'
+import { useGatewayStore } from './gatewayStore'
+import { useAuthStore } from './authStore'
+
+// Operation as passed in by callers - id and ordering are assigned here
+type OutboxInput = OutboxOperation extends infer T
+  ? T extends OutboxOperation ? Omit<T, 'id' | 'seq'> : never
+  : never
+
+type OutboxState = {
+  queued: OutboxOperation[]
+  isHydrated: boolean
+  isFlushing: boolean
+
+  // Actions
+  hydrate: () => Promise<void>
+  enqueue: (operation: OutboxInput) => Promise<void>
+  remove: (id: string) => Promise<void>
+  flush: () => Promise<void>
+  clear: () => Promise<void>
+}
+
+// Replay a single operation against the API and fold the result into local state
+async function execute(operation: OutboxOperation) {
+  const messagesStore = useMessagesStore.getState()
+
+  switch (operation.type) {
+    case 'sendMessage': {
+      const message = await messagesApi.sendMessage(
+        operation.conversationId,
+        operation.content,
+        operation.attachmentIds,
+        operation.replyToId,
+        operation.nonce,
+        operation.stickerId,
+        operation.forwardFromId
+      )
+      messagesStore.updateCachedMessages(operation.conversationId, (messages) =>
+        reconcileMessage(messages, { ...message, nonce: operation.nonce })
+      )
+      break
+    }
+    case 'addReaction':
+      // REACTION_ADD echo dedupes against the optimistic reaction
+      await messagesApi.addReaction(operation.conversationId, operation.messageId, operation.emoji)
+      break
+    case 'removeReaction':
+      await messagesApi.removeReaction(operation.conversationId, operation.messageId, operation.emoji)
+      break
+    case 'deleteMessage':
+      await messagesApi.deleteMessage(operation.conversationId, operation.messageId)
+      break
+  }
+}
+
+// Server refused the operation - surface it instead of retrying forever
+function reject(operation: OutboxOperation) {
+  const { updateCachedMessages } = useMessagesStore.getState()
+
+  switch (operation.type) {
+    case 'sendMessage':
+      updateCachedMessages(operation.conversationId, (messages) =>
+        messages.map((m) =>
+          m.local_status && m.nonce === operation.nonce ? { ...m, local_status: 'failed' } : m
+        )
+      )
+      break
+    case 'addReaction':
+    case 'removeReaction': {
+      const me = useAuthStore.getState().user
+      // A later toggle of the same reaction is still queued and already shown
+      const toggledAgain = useOutboxStore.getState().queued.some((op) =>
+        op.id !== operation.id &&
+        (op.type === 'addReaction' || op.type === 'removeReaction') &&
+        op.messageId === operation.messageId &&
+        op.emoji === operation.emoji
+      )
+      if (!me || toggledAgain) break
+
+      // Undo the optimistic toggle
+      updateCachedMessages(operation.conversationId, (messages) =>
+        messages.map((m) => {
+          if (m.id !== operation.messageId) return m
+          const others = (m.reactions || []).filter((r) => !(r.user_id === me.id && r.emoji === operation.emoji))
+          if (operation.type === 'addReaction') return { ...m, reactions: others }
+          const reaction: Reaction = {
+            id: `local-${crypto.randomUUID()}`,
+            message_id: m.id,
+            user_id: me.id,
+            emoji: operation.emoji,
+            created_at: new Date().toISOString(),
+            user: me,
+          }
+          return { ...m, reactions: [...others, reaction] }
+        })
+      )
+      break
+    }
+    case 'deleteMessage': {
+      const { message } = operation
+      if (!message) break
+      // Put it back where it was
+      updateCachedMessages(operation.conversationId, (messages) => {
+        if (messages.some((m) => m.id === message.id)) return messages
+        const index = messages.findIndex((m) => m.created_at > message.created_at)
+        return index === -1 ? [...messages, message] : [...messages.slice(0, index), message, ...messages.slice(index)]
+      })
+      break
+    }
+  }
+}
+
+// Older operations are still waiting - new ones have to go behind them so a
+// fresh send can't overtake a queued send, reaction or delete
+export function isOutboxBusy() {
+  const { queued, isHydrated, isFlushing } = useOutboxStore.getState()
+  return !isHydrated || isFlushing || queued.length > 0
+}
+
+// Queued sends of a conversation as timeline messages
+export function queuedMessages(conversationId: string): Message[] {
+  return useOutboxStore.getState().queued.flatMap((op) =>
+    op.type === 'sendMessage' && op.conversationId === conversationId && op.message
+      ? [{ ...op.message, local_status: 'queued' as const }]
+      : []
+  )
+}
+
+// Put sends that survived a reload back into the conversations already loaded
+function restoreQueuedMessages(queued: OutboxOperation[]) {
+  const messagesStore = useMessagesStore.getState()
+  for (const op of queued) {
+    if (op.type !== 'sendMessage' || !op.message) continue
+    const message: Message = { ...op.message, local_status: 'queued' }
+    messagesStore.updateCachedMessages(op.conversationId, (messages) =>
+      messages.some((m) => m.nonce === op.nonce) ? messages : [...messages, message]
+    )
+  }
+}
+
+export const useOutboxStore = create<OutboxState>((set, get) => ({
+  queued: [],
+  isHydrated: false,
+  isFlushing: false,
+
+  hydrate: async () => {
+    if (get().isHydrated) return
+    try {
+      const stored = await readOutbox()
+      // Keep anything enqueued while we were reading
+      const known = new Set(stored.map((op) => op.id))
+      const queued = [...stored, ...get().queued.filter((op) => !known.has(op.id))]
+      set({ queued: queued.sort((a, b) => a.seq - b.seq), isHydrated: true })
+      restoreQueuedMessages(stored)
+    } catch (err) {
+      console.error('Failed to read outbox:', err)
+      set({ isHydrated: true })
+    }
+  },
+
+  enqueue: async (input) => {
+    const { queued } = get()
+    // Sends are keyed by nonce so a retried send never queues twice
+    const id = input.type === 'sendMessage' ? input.nonce : crypto.randomUUID()
+    if (queued.some((op) => op.id === id)) return
+
+    const lastSeq = queued.length > 0 ? queued[queued.length - 1].seq : 0
+    const operation = { ...input, id, seq: Math.max(Date.now(), lastSeq + 1) } as OutboxOperation
+
+    set({ queued: [...queued, operation] })
+    try {
+      await putOutboxOperation(operation)
+    } catch (err) {
+      // Still flushed from memory this session, just won't survive a reload
+      console.error('Failed to persist outbox operation:', err)
+    }
+
+    // Queued behind others while online - a running flush picks it up, otherwise start one
+    if (useGatewayStore.getState().isConnected) get().flush()
+  },
+
+  remove: async (id) => {
+    set({ queued: get().queued.filter((op) => op.id !== id) })
+    try {
+      await deleteOutboxOperation(id)
+    } catch (err) {
+      console.error('Failed to remove outbox operation:', err)
+    }
+  },
+
+  flush: async () => {
+    if (get().isFlushing) return
+    set({ isFlushing: true })
+
+    try {
+      await get().hydrate()
+
+      // Strictly in order: a failed send must not let a later delete overtake it.
+      // Read the head each time - operations are discarded and added while we run
+      for (let operation = get().queued[0]; operation; operation = get().queued[0]) {
+        try {
+          await execute(operation)
+        } catch (err) {
+          // Still offline - leave this and everything after it for the next flush
+          if (isNetworkError(err)) break
+          console.error('Outbox operation rejected:', operation, err)
+          reject(operation)
+        }
+        await get().remove(operation.id)
+      }
+    } finally {
+      set({ isFlushing: false })
+    }
+  },
+
+  clear: async () => {
+    set({ queued: [], isHydrated: false })
+    try {
+      await clearOutbox()
+    } catch (err) {
+      console.error('Failed to clear outbox:', err)
+    }
+  },
+}))
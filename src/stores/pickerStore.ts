@@ -0,0 +1,99 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import type { Sticker } from '../api/stickers'
+import type { SkinTone } from '../lib/emoji'
+import { useAuthStore } from './authStore'
+
+const MAX_RECENT = 24
+
+export type PickerHistory = {
+  // Most recent first, emoji stored without a skin tone
+  recentEmoji: string[]
+  favoriteEmoji: string[]
+  // Whole stickers so they render before the pack collection loads
+  recentStickers: Sticker[]
+  favoriteStickers: Sticker[]
+  skinTone: SkinTone
+  // Sticker pack ids in the order the user arranged them
+  packOrder: string[]
+}
+
+const EMPTY_HISTORY: PickerHistory = {
+  recentEmoji: [],
+  favoriteEmoji: [],
+  recentStickers: [],
+  favoriteStickers: [],
+  skinTone: 0,
+  packOrder: [],
+}
+
+type PickerState = {
+  // Keyed by user id, same as settings
+  byUser: Record<string, Partial<PickerHistory>>
+
+  // Actions
+  recordEmoji: (emoji: string) => void
+  recordSticker: (sticker: Sticker) => void
+  toggleFavoriteEmoji: (emoji: string) => void
+  toggleFavoriteSticker: (sticker: Sticker) => void
+  setSkinTone: (tone: SkinTone) => void
+  setPackOrder: (packIds: string[]) => void
+}
+
+const pushRecent = <T>(list: T[], item: T, same: (a: T) => boolean) =>
+  [item, ...list.filter((x) => !same(x))].slice(0, MAX_RECENT)
+
+export const usePickerStore = create<PickerState>()(
+  persist(
+    (set, get) => {
+      // Patch the signed-in user's history
+      const update = (updater: (history: PickerHistory) => Partial<PickerHistory>) => {
+        const userId = useAuthStore.getState().user?.id
+        if (!userId) return
+
+        const { byUser } = get()
+        const history = { ...EMPTY_HISTORY, ...byUser[userId] }
+        set({ byUser: { ...byUser, [userId]: { ...byUser[userId], ...updater(history) } } })
+      }
+
+      return {
+        byUser: {},
+
+        recordEmoji: (emoji) =>
+          update((h) => ({ recentEmoji: pushRecent(h.recentEmoji, emoji, (e) => e === emoji) })),
+
+        recordSticker: (sticker) =>
+          update((h) => ({ recentStickers: pushRecent(h.recentStickers, sticker, (s) => s.id === sticker.id) })),
+
+        toggleFavoriteEmoji: (emoji) =>
+          update((h) => ({
+            favoriteEmoji: h.favoriteEmoji.includes(emoji)
+              ? h.favoriteEmoji.filter((e) => e !== emoji)
+              : [...h.favoriteEmoji, emoji],
+          })),
+
+        toggleFavoriteSticker: (sticker) =>
+          update((h) => ({
+            favoriteStickers: h.favoriteStickers.some((s) => s.id === sticker.id)
+              ? h.favoriteStickers.filter((s) => s.id !== sticker.id)
+              : [...h.favoriteStickers, sticker],
+          })),
+
+        setSkinTone: (tone) => update(() => ({ skinTone: tone })),
+
+        setPackOrder: (packIds) => update(() => ({ packOrder: packIds })),
+      }
+    },
+    {
+      name: 'bla-picker',
+      partialize: (state) => ({ byUser: state.byUser }),
+    }
+  )
+)
+
+// Picker history of the signed-in user, empty lists filled in
+export function usePickerHistory(): PickerHistory {
+  const userId = useAuthStore((s) => s.user?.id)
+  const stored = usePickerStore((s) => (userId ? s.byUser[userId] : undefined))
+  return { ...EMPTY_HISTORY, ...stored }
+}
@@ -0,0 +1,99 @@
+import { create } from 'zustand'
+import { messagesApi } from '../api/messages'
+import type { Message, ChannelPinsUpdateEvent } from '../api/messages'
+import { useMessagesStore } from './messagesStore'
+
+type PinsState = {
+  // Pinned messages by conversation id, most recently pinned first
+  pins: Record<string, Message[]>
+  loading: Record<string, boolean>
+
+  // Actions
+  loadPins: (conversationId: string) => Promise<void>
+  pinMessage: (conversationId: string, message: Message) => Promise<boolean>
+  unpinMessage: (conversationId: string, messageId: string) => Promise<boolean>
+  applyPinsUpdate: (data: ChannelPinsUpdateEvent) => void
+  reset: () => void
+}
+
+// Mirror the pinned flag onto the loaded history
+const setPinnedFlag = (conversationId: string, messageId: string, pinned: boolean) =>
+  useMessagesStore.getState().updateCachedMessages(conversationId, (messages) =>
+    messages.map((m) => (m.id === messageId ? { ...m, pinned } : m))
+  )
+
+export const usePinsStore = create<PinsState>((set, get) => ({
+  pins: {},
+  loading: {},
+
+  loadPins: async (conversationId) => {
+    if (get().loading[conversationId]) return
+    set({ loading: { ...get().loading, [conversationId]: true } })
+
+    try {
+      const pinned = await messagesApi.getPins(conversationId)
+      set({ pins: { ...get().pins, [conversationId]: pinned.map((m) => ({ ...m, pinned: true })) } })
+    } catch (err) {
+      console.error('Failed to load pins:', err)
+    } finally {
+      set({ loading: { ...get().loading, [conversationId]: false } })
+    }
+  },
+
+  pinMessage: async (conversationId, message) => {
+    try {
+      await messagesApi.pinMessage(conversationId, message.id)
+      // Apply locally right away - CHANNEL_PINS_UPDATE will confirm it
+      setPinnedFlag(conversationId, message.id, true)
+      const existing = get().pins[conversationId]
+      if (existing && !existing.some((m) => m.id === message.id)) {
+        set({ pins: { ...get().pins, [conversationId]: [{ ...message, pinned: true }, ...existing] } })
+      }
+      return true
+    } catch (err) {
+      console.error('Failed to pin message:', err)
+      return false
+    }
+  },
+
+  unpinMessage: async (conversationId, messageId) => {
+    try {
+      await messagesApi.unpinMessage(conversationId, messageId)
+      setPinnedFlag(conversationId, messageId, false)
+      const existing = get().pins[conversationId]
+      if (existing) {
+        set({ pins: { ...get().pins, [conversationId]: existing.filter((m) => m.id !== messageId) } })
+      }
+      return true
+    } catch (err) {
+      console.error('Failed to unpin message:', err)
+      return false
+    }
+  },
+
+  applyPinsUpdate: ({ conversation_id, message_id, pinned }) => {
+    setPinnedFlag(conversation_id, message_id, pinned)
+
+    const existing = get().pins[conversation_id]
+    // Never opened the panel here - it loads fresh next time
+    if (!existing) return
+
+    if (!pinned) {
+      set({ pins: { ...get().pins, [conversation_id]: existing.filter((m) => m.id !== message_id) } })
+      return
+    }
+    if (existing.some((m) => m.id === message_id)) return
+
+    const cached = useMessagesStore.getState().messageCache[conversation_id]?.messages.find(
+      (m) => m.id === message_id
+    )
+    if (cached) {
+      set({ pins: { ...get().pins, [conversation_id]: [{ ...cached, pinned: true }, ...existing] } })
+    } else {
+      // Pinned from history we haven't loaded - ask the server for the list
+      get().loadPins(conversation_id)
+    }
+  },
+
+  reset: () => set({ pins: {}, loading: {} }),
+}))
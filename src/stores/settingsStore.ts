@@ -0,0 +1,49 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import { useAuthStore } from './authStore'
+
+export type UserSettings = {
+  showLinkPreviews: boolean
+  // Downscale big photos before uploading
+  compressImages: boolean
+}
+
+const DEFAULT_SETTINGS: UserSettings = {
+  showLinkPreviews: true,
+  compressImages: true,
+}
+
+type SettingsState = {
+  // Keyed by user id so accounts sharing a browser keep their own preferences
+  byUser: Record<string, Partial<UserSettings>>
+
+  // Actions
+  updateSettings: (patch: Partial<UserSettings>) => void
+}
+
+export const useSettingsStore = create<SettingsState>()(
+  persist(
+    (set, get) => ({
+      byUser: {},
+
+      updateSettings: (patch) => {
+        const userId = useAuthStore.getState().user?.id
+        if (!userId) return
+
+        const { byUser } = get()
+        set({ byUser: { ...byUser, [userId]: { ...byUser[userId], ...patch } } })
+      },
+    }),
+    {
+      name: 'bla-settings',
+      partialize: (state) => ({ byUser: state.byUser }),
+    }
+  )
+)
+
+// Settings of the signed-in user, defaults filled in
+export function useUserSettings(): UserSettings {
+  const userId = useAuthStore((s) => s.user?.id)
+  const stored = useSettingsStore((s) => (userId ? s.byUser[userId] : undefined))
+  return { ...DEFAULT_SETTINGS, ...stored }
+}
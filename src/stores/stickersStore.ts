@@ -0,0 +1,125 @@
+import { create } from 'zustand'
+import { stickersApi } from '../api/stickers'
+import type { Sticker, StickerPack } from '../api/stickers'
+import { useAuthStore } from './authStore'
+import { usePickerStore } from './pickerStore'
+
+type StickersState = {
+  // The user's collection - saved, official and own packs, in picker order
+  packs: StickerPack[]
+  isLoaded: boolean
+  isLoading: boolean
+
+  // Actions
+  loadPacks: () => Promise<void>
+  addPack: (pack: StickerPack) => Promise<boolean>
+  removePack: (packId: string) => Promise<boolean>
+  reorderPacks: (packIds: string[]) => void
+  createPack: (name: string, description: string) => Promise<StickerPack | null>
+  deletePack: (packId: string) => Promise<boolean>
+  uploadSticker: (packId: string, file: File, emoji: string) => Promise<Sticker | null>
+  reset: () => void
+}
+
+// Put items in the order of `ids`, anything not listed keeps its place at the end
+const sortByIds = <T extends { id: string }>(items: T[], ids: string[]) =>
+  [...items].sort((a, b) => {
+    const ia = ids.indexOf(a.id)
+    const ib = ids.indexOf(b.id)
+    return (ia === -1 ? Infinity : ia) - (ib === -1 ? Infinity : ib)
+  })
+
+// Pack order is kept on this device with the rest of the picker history
+const savedPackOrder = () => {
+  const userId = useAuthStore.getState().user?.id
+  return (userId && usePickerStore.getState().byUser[userId]?.packOrder) || []
+}
+
+export const useStickersStore = create<StickersState>((set, get) => {
+  const updatePack = (packId: string, updater: (pack: StickerPack) => StickerPack) =>
+    set({ packs: get().packs.map((p) => (p.id === packId ? updater(p) : p)) })
+
+  return {
+    packs: [],
+    isLoaded: false,
+    isLoading: false,
+
+    loadPacks: async () => {
+      if (get().isLoading) return
+      set({ isLoading: true })
+
+      try {
+        const packs = await stickersApi.getPacks()
+        set({ packs: sortByIds(packs || [], savedPackOrder()), isLoaded: true })
+      } catch (err) {
+        console.error('Failed to load sticker packs:', err)
+      } finally {
+        set({ isLoading: false })
+      }
+    },
+
+    addPack: async (pack) => {
+      try {
+        await stickersApi.addPack(pack.id)
+        if (!get().packs.some((p) => p.id === pack.id)) {
+          set({ packs: [...get().packs, pack] })
+        }
+        return true
+      } catch (err) {
+        console.error('Failed to add sticker pack:', err)
+        return false
+      }
+    },
+
+    removePack: async (packId) => {
+      try {
+        await stickersApi.removePack(packId)
+        set({ packs: get().packs.filter((p) => p.id !== packId) })
+        return true
+      } catch (err) {
+        console.error('Failed to remove sticker pack:', err)
+        return false
+      }
+    },
+
+    reorderPacks: (packIds) => {
+      set({ packs: sortByIds(get().packs, packIds) })
+      usePickerStore.getState().setPackOrder(packIds)
+    },
+
+    createPack: async (name, description) => {
+      try {
+        const pack = await stickersApi.createPack(name, description)
+        set({ packs: [...get().packs, { ...pack, stickers: pack.stickers || [] }] })
+        return pack
+      } catch (err) {
+        console.error('Failed to create sticker pack:', err)
+        return null
+      }
+    },
+
+    deletePack: async (packId) => {
+      try {
+        await stickersApi.deletePack(packId)
+        set({ packs: get().packs.filter((p) => p.id !== packId) })
+        return true
+      } catch (err) {
+        console.error('Failed to delete sticker pack:', err)
+        return false
+      }
+    },
+
+    uploadSticker: async (packId, file, emoji) => {
+      try {
+        const sticker = await stickersApi.uploadSticker(packId, file, emoji)
+        updatePack(packId, (pack) => ({ ...pack, stickers: [...(pack.stickers || []), sticker] }))
+        return sticker
+      } catch (err) {
+        console.error('Failed to upload sticker:', err)
+        return null
+      }
+    },
+
+    reset: () => set({ packs: [], isLoaded: false, isLoading: false }),
+  }
+})
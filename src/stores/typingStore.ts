@@ -0,0 +1,60 @@
+import { create } from 'zustand'
+
+// How long a TYPING_START keeps the indicator alive without a refresh
+const TYPING_TIMEOUT_MS = 8000
+
+// Expiry timers keyed by `${conversationId}:${userId}`
+const timers = new Map<string, ReturnType<typeof setTimeout>>()
+
+type TypingState = {
+  // Users currently typing, by conversation id
+  typing: Record<string, string[]>
+
+  // Actions
+  startTyping: (conversationId: string, userId: string) => void
+  stopTyping: (conversationId: string, userId: string) => void
+  reset: () => void
+}
+
+export const useTypingStore = create<TypingState>((set, get) => ({
+  typing: {},
+
+  startTyping: (conversationId, userId) => {
+    const key = `${conversationId}:${userId}`
+    const existing = timers.get(key)
+    if (existing) clearTimeout(existing)
+    timers.set(key, setTimeout(() => get().stopTyping(conversationId, userId), TYPING_TIMEOUT_MS))
+
+    const users = get().typing[conversationId] || []
+    if (!users.includes(userId)) {
+      set({ typing: { ...get().typing, [conversationId]: [...users, userId] } })
+    }
+  },
+
+  stopTyping: (conversationId, userId) => {
+    const key = `${conversationId}:${userId}`
+    const existing = timers.get(key)
+    if (existing) {
+      clearTimeout(existing)
+      timers.delete(key)
+    }
+
+    const users = get().typing[conversationId]
+    if (!users || !users.includes(userId)) return
+
+    const remaining = users.filter((id) => id !== userId)
+    const typing = { ...get().typing }
+    if (remaining.length > 0) {
+      typing[conversationId] = remaining
+    } else {
+      delete typing[conversationId]
+    }
+    set({ typing })
+  },
+
+  reset: () => {
+    for (const timer of timers.values()) clearTimeout(timer)
+    timers.clear()
+    set({ typing: {} })
+  },
+}))
@@ -0,0 +1,175 @@
+import { create } from 'zustand'
+import { messagesApi } from '../api/messages'
+import type { Attachment, AttachmentMetadata } from '../api/messages'
+import { isNetworkError } from '../api/client'
+import { compressImage } from '../lib/imageCompression'
+import { readMediaMetadata } from '../lib/mediaMetadata'
+
+// Files above this are rejected before we waste the bandwidth
+export const MAX_UPLOAD_SIZE = 25 * 1024 * 1024
+
+// Uploads running at the same time; the rest wait in the queue
+const MAX_CONCURRENT_UPLOADS = 3
+
+export type UploadStatus = 'queued' | 'uploading' | 'done' | 'failed'
+
+export type UploadItem = {
+  id: string
+  conversationId: string
+  file: File
+  // Object URL for image and video thumbnails
+  previewUrl: string | null
+  // Dimensions, duration, placeholder and poster, read once when the file is added
+  metadata: AttachmentMetadata | undefined
+  status: UploadStatus
+  // 0-1
+  progress: number
+  error: string | null
+  // Set once the server has it
+  attachment: Attachment | null
+}
+
+type AddFilesOptions = {
+  compressImages: boolean
+}
+
+type UploadState = {
+  uploads: UploadItem[]
+
+  // Actions
+  addFiles: (conversationId: string, files: File[], options: AddFilesOptions) => Promise<void>
+  // A file whose upload failed outside the queue (a voice message), kept here for a retry
+  addFailed: (conversationId: string, file: File, metadata: AttachmentMetadata | undefined) => void
+  cancel: (id: string) => void
+  retry: (id: string) => void
+  // Hand finished uploads over to a message and drop them from the queue
+  takeCompleted: (conversationId: string) => Attachment[]
+  reset: () => void
+}
+
+// In-flight requests, keyed by upload id
+const controllers = new Map<string, AbortController>()
+
+const formatSize = (bytes: number) => `${Math.round(bytes / 1024 / 1024)} МБ`
+
+const revokePreview = (item: UploadItem) => {
+  if (item.previewUrl) URL.revokeObjectURL(item.previewUrl)
+}
+
+export const useUploadStore = create<UploadState>((set, get) => {
+  const update = (id: string, patch: Partial<UploadItem>) =>
+    set({ uploads: get().uploads.map((u) => (u.id === id ? { ...u, ...patch } : u)) })
+
+  // Start queued uploads while there are free slots
+  const pump = () => {
+    const { uploads } = get()
+    let active = uploads.filter((u) => u.status === 'uploading').length
+
+    for (const item of uploads) {
+      if (active >= MAX_CONCURRENT_UPLOADS) break
+      if (item.status !== 'queued') continue
+      active++
+      upload(item)
+    }
+  }
+
+  const upload = async (item: UploadItem) => {
+    const controller = new AbortController()
+    controllers.set(item.id, controller)
+    update(item.id, { status: 'uploading', progress: 0, error: null })
+
+    try {
+      const attachment = await messagesApi.uploadAttachment(item.file, item.metadata, {
+        signal: controller.signal,
+        onProgress: (progress) => update(item.id, { progress }),
+      })
+      update(item.id, { status: 'done', progress: 1, attachment })
+    } catch (err) {
+      // Cancelled - the item is already gone
+      if (!controller.signal.aborted) {
+        console.error('Failed to upload attachment:', err)
+        update(item.id, {
+          status: 'failed',
+          error: isNetworkError(err) ? 'Нет соединения' : 'Не удалось загрузить',
+        })
+      }
+    } finally {
+      controllers.delete(item.id)
+      pump()
+    }
+  }
+
+  return {
+    uploads: [],
+
+    addFiles: async (conversationId, files, { compressImages }) => {
+      const items: UploadItem[] = []
+      for (const original of files) {
+        const file = compressImages ? await compressImage(original) : original
+        const tooLarge = file.size > MAX_UPLOAD_SIZE
+        const metadata = tooLarge ? undefined : await readMediaMetadata(file)
+        const thumbnail = file.type.startsWith('image/') ? file : metadata?.poster
+        items.push({
+          id: crypto.randomUUID(),
+          conversationId,
+          file,
+          previewUrl: thumbnail ? URL.createObjectURL(thumbnail) : null,
+          metadata,
+          status: tooLarge ? 'failed' : 'queued',
+          progress: 0,
+          error: tooLarge ? `Больше ${formatSize(MAX_UPLOAD_SIZE)}` : null,
+          attachment: null,
+        })
+      }
+
+      set({ uploads: [...get().uploads, ...items] })
+      pump()
+    },
+
+    addFailed: (conversationId, file, metadata) => {
+      const item: UploadItem = {
+        id: crypto.randomUUID(),
+        conversationId,
+        file,
+        previewUrl: null,
+        metadata,
+        status: 'failed',
+        progress: 0,
+        error: 'Не удалось загрузить',
+        attachment: null,
+      }
+      set({ uploads: [...get().uploads, item] })
+    },
+
+    cancel: (id) => {
+      controllers.get(id)?.abort()
+      const item = get().uploads.find((u) => u.id === id)
+      if (item) revokePreview(item)
+      set({ uploads: get().uploads.filter((u) => u.id !== id) })
+      pump()
+    },
+
+    retry: (id) => {
+      const item = get().uploads.find((u) => u.id === id)
+      // Oversized files would just fail again
+      if (!item || item.status !== 'failed' || item.file.size > MAX_UPLOAD_SIZE) return
+      update(id, { status: 'queued', progress: 0, error: null })
+      pump()
+    },
+
+    takeCompleted: (conversationId) => {
+      const { uploads } = get()
+      const completed = uploads.filter((u) => u.conversationId === conversationId && u.status === 'done')
+      completed.forEach(revokePreview)
+      set({ uploads: uploads.filter((u) => !completed.includes(u)) })
+      return completed.flatMap((u) => (u.attachment ? [u.attachment] : []))
+    },
+
+    reset: () => {
+      for (const controller of controllers.values()) controller.abort()
+      controllers.clear()
+      get().uploads.forEach(revokePreview)
+      set({ uploads: [] })
+    },
+  }
+})
@@ -0,0 +1,53 @@
+import { create } from 'zustand'
+import { friendsApi } from '../api/friends'
+import type { User } from '../api/auth'
+import { createBatchedLookup } from '../lib/batchedLookup'
+
+// Collect ids for a moment so a popover full of people is one request
+const LOOKUP_DELAY_MS = 50
+
+type UsersState = {
+  // Everyone seen so far by id; null when the user doesn't exist any more
+  users: Record<string, User | null>
+
+  // Actions
+  remember: (users: User[]) => void
+  resolve: (userId: string) => void
+  reset: () => void
+}
+
+export const useUsersStore = create<UsersState>((set, get) => {
+  const lookups = createBatchedLookup({
+    delayMs: LOOKUP_DELAY_MS,
+    fetch: friendsApi.getUsers,
+    onFound: (ids, found: User[]) => {
+      const users = { ...get().users }
+      // Anyone the server didn't return is gone
+      for (const id of ids) users[id] ??= null
+      for (const user of found) users[user.id] = user
+      set({ users })
+    },
+    label: 'users',
+  })
+
+  return {
+    users: {},
+
+    remember: (users) => {
+      const current = get().users
+      // Skip the update when nothing changed so subscribers don't re-render
+      const changed = users.filter((u) => current[u.id] !== u)
+      if (changed.length === 0) return
+      set({ users: { ...current, ...Object.fromEntries(changed.map((u) => [u.id, u])) } })
+    },
+
+    resolve: (userId) => {
+      if (!(userId in get().users)) lookups.request(userId)
+    },
+
+    reset: () => {
+      lookups.reset()
+      set({ users: {} })
+    },
+  }
+})